@@ -0,0 +1,69 @@
+import type { Loan, Preferences } from './types.js';
+import { IDR_PLANS } from './constants.js';
+
+// ============================================
+// Plan Effective Dates
+// ============================================
+
+export interface PlanAvailabilityCheck {
+  planName: string;
+  available: boolean;
+  reason?: string;
+}
+
+/**
+ * The date plans are evaluated on: the user's chosen date, or today.
+ */
+export function getAnalysisDate(preferences: Preferences): string {
+  return preferences.asOfDate ?? new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Whether a borrower with these loans can enroll in a plan on a given date,
+ * based on the plan's opening, new-loan cutoff and sunset dates.
+ * Loans without a disbursement date are treated as existing loans.
+ */
+export function checkPlanAvailability(
+  planName: string,
+  asOfDate: string,
+  loans: Loan[] = []
+): PlanAvailabilityCheck {
+  const plan = IDR_PLANS[planName];
+  if (!plan) {
+    return { planName, available: false, reason: `Unknown repayment plan: ${planName}` };
+  }
+  
+  const { opensOn, closedToNewLoansOn, sunsetsOn } = plan.availability ?? {};
+  
+  if (opensOn && asOfDate < opensOn) {
+    return { planName, available: false, reason: `${planName} opens to borrowers on ${opensOn}` };
+  }
+  
+  if (sunsetsOn && asOfDate >= sunsetsOn) {
+    return { planName, available: false, reason: `${planName} ended on ${sunsetsOn}` };
+  }
+  
+  if (closedToNewLoansOn) {
+    const newLoan = loans.find(loan => loan.disbursementDate && loan.disbursementDate >= closedToNewLoansOn);
+    if (newLoan) {
+      return {
+        planName,
+        available: false,
+        reason: `${planName} is closed to loans disbursed on or after ${closedToNewLoansOn}`,
+      };
+    }
+  }
+  
+  return { planName, available: true };
+}
+
+/**
+ * Filter a list of plans down to those open to this borrower on the date.
+ */
+export function getAvailablePlans(
+  planNames: string[],
+  asOfDate: string,
+  loans: Loan[] = []
+): string[] {
+  return planNames.filter(name => checkPlanAvailability(name, asOfDate, loans).available);
+}
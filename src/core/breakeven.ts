@@ -0,0 +1,194 @@
+import type {
+  UserInputs,
+  StrategyResult,
+  StrategyScenario,
+  BreakevenInput,
+  BreakevenSearch,
+  BreakevenResult,
+} from './types.js';
+
+import { DEFAULTS, PSLF } from './constants.js';
+import { getSpecialty } from './specialties.js';
+import { mapPortfolioLoans } from './portfolio.js';
+import { compareAllStrategies, isSameStrategy } from './strategies.js';
+import { getUtilityCost } from './utility.js';
+
+// ============================================
+// Breakeven Solver
+//
+// For one input, find the value at which the runner-up strategy overtakes
+// today's winner. The gap between their utility costs is bisected on
+// whichever side of the current value it changes sign.
+// ============================================
+
+interface BreakevenInputSpec {
+  name: string;
+  tolerance: number;                        // bisection stops within this
+  get: (inputs: UserInputs) => number;
+  range: (current: number) => [number, number];
+  format: (value: number) => string;
+}
+
+const formatMoney = (value: number): string => `$${Math.round(value / 1000)}k`;
+const formatRate = (value: number): string => `${(value * 100).toFixed(2)}%`;
+
+const INPUT_SPECS: Record<BreakevenInput, BreakevenInputSpec> = {
+  debt: {
+    name: 'total debt',
+    tolerance: 100,
+    get: inputs => inputs.loans.totalBalance,
+    range: current => [Math.min(10000, current), current * 3],
+    format: formatMoney,
+  },
+  salary: {
+    name: 'attending salary',
+    tolerance: 100,
+    get: inputs => inputs.career.expectedAttendingSalary || getSpecialty(inputs.career.specialty).medianAttendingSalary,
+    range: current => [current / 2, current * 2],
+    format: formatMoney,
+  },
+  interestRate: {
+    name: 'loan interest rate',
+    tolerance: 0.0001,
+    get: inputs => inputs.loans.weightedInterestRate,
+    range: () => [0.02, 0.12],
+    format: formatRate,
+  },
+  discountRate: {
+    name: 'discount rate',
+    tolerance: 0.0001,
+    get: inputs => inputs.preferences.discountRate,
+    range: () => [0, 0.15],
+    format: formatRate,
+  },
+  refiRate: {
+    name: 'refinance rate',
+    tolerance: 0.0001,
+    get: () => DEFAULTS.refiRate,
+    range: () => [0.02, 0.12],
+    format: formatRate,
+  },
+  pslfPayments: {
+    name: 'PSLF payment count',
+    tolerance: 1,
+    get: inputs => inputs.loans.pslfQualifyingPayments,
+    range: () => [0, PSLF.requiredPayments - 1],
+    format: value => `${Math.round(value)}`,
+  },
+};
+
+/**
+ * Inputs (and market scenario) with one input set to `value`.
+ */
+function withInputValue(
+  inputs: UserInputs,
+  input: BreakevenInput,
+  value: number
+): { inputs: UserInputs; scenario: StrategyScenario } {
+  switch (input) {
+    case 'debt': {
+      const scale = inputs.loans.totalBalance > 0 ? value / inputs.loans.totalBalance : 0;
+      const loans = mapPortfolioLoans(inputs.loans, loan => ({
+        ...loan,
+        balance: loan.balance * scale,
+        outstandingInterest: loan.outstandingInterest * scale,
+      }));
+      return { inputs: { ...inputs, loans }, scenario: {} };
+    }
+    case 'salary':
+      return { inputs: { ...inputs, career: { ...inputs.career, expectedAttendingSalary: value } }, scenario: {} };
+    case 'interestRate': {
+      const shift = value - inputs.loans.weightedInterestRate;
+      const loans = mapPortfolioLoans(inputs.loans, loan => ({ ...loan, interestRate: Math.max(0, loan.interestRate + shift) }));
+      return { inputs: { ...inputs, loans }, scenario: {} };
+    }
+    case 'discountRate':
+      return { inputs: { ...inputs, preferences: { ...inputs.preferences, discountRate: value } }, scenario: {} };
+    case 'refiRate':
+      return { inputs, scenario: { refiRateOffset: value - DEFAULTS.refiRate } };
+    case 'pslfPayments':
+      return {
+        inputs: { ...inputs, loans: { ...inputs.loans, pslfQualifyingPayments: Math.round(value) } },
+        scenario: {},
+      };
+  }
+}
+
+/**
+ * Find where the runner-up strategy overtakes today's winner as one input
+ * changes. Searches both sides of the current value (within `search` or the
+ * input's default range) and returns the nearer flip, or undefined if the
+ * winner holds across the range.
+ */
+export function findBreakeven(
+  inputs: UserInputs,
+  input: BreakevenInput,
+  search: BreakevenSearch = {}
+): BreakevenResult | undefined {
+  const spec = INPUT_SPECS[input];
+  const [winner, runnerUp] = compareAllStrategies(inputs);
+  if (!runnerUp) return undefined;
+
+  // Winner's cost minus the runner-up's: negative while the winner holds
+  const gap = (value: number): number => {
+    const variation = withInputValue(inputs, input, value);
+    const results = compareAllStrategies(variation.inputs, variation.scenario);
+    const cost = (target: StrategyResult): number => {
+      const match = results.find(result => isSameStrategy(result, target));
+      return match ? match.utilityCost ?? getUtilityCost(match, variation.inputs.preferences) : Infinity;
+    };
+    return cost(winner) - cost(runnerUp);
+  };
+
+  const current = spec.get(inputs);
+  const [defaultMin, defaultMax] = spec.range(current);
+  const min = search.min ?? defaultMin;
+  const max = search.max ?? defaultMax;
+
+  // Bisect between a value where the winner holds and one where it doesn't
+  const solve = (holds: number, flips: number): number => {
+    while (Math.abs(flips - holds) > spec.tolerance) {
+      const mid = (holds + flips) / 2;
+      if (gap(mid) < 0) holds = mid;
+      else flips = mid;
+    }
+    return flips;
+  };
+
+  const candidates: { value: number; direction: 'below' | 'above' }[] = [];
+  if (min < current && gap(min) >= 0) candidates.push({ value: solve(current, min), direction: 'below' });
+  if (max > current && gap(max) >= 0) candidates.push({ value: solve(current, max), direction: 'above' });
+  if (candidates.length === 0) return undefined;
+
+  const nearest = candidates.reduce((a, b) => (Math.abs(b.value - current) < Math.abs(a.value - current) ? b : a));
+  const breakevenValue = Number((Math.round(nearest.value / spec.tolerance) * spec.tolerance).toFixed(6));
+
+  // Name the new winner as it is at the breakeven (a refinance name carries its rate)
+  const variation = withInputValue(inputs, input, nearest.value);
+  const newWinner = compareAllStrategies(variation.inputs, variation.scenario)
+    .find(result => isSameStrategy(result, runnerUp))?.strategyName ?? runnerUp.strategyName;
+
+  return {
+    input,
+    name: spec.name,
+    currentValue: current,
+    breakevenValue,
+    direction: nearest.direction,
+    currentWinner: winner.strategyName,
+    newWinner,
+    description: `${newWinner} wins once your ${spec.name} ` +
+      `${nearest.direction === 'below' ? 'falls below' : 'rises above'} ${spec.format(breakevenValue)}`,
+  };
+}
+
+/**
+ * Breakevens for several inputs, skipping any where the winner never flips.
+ */
+export function findBreakevens(
+  inputs: UserInputs,
+  breakevenInputs: BreakevenInput[] = Object.keys(INPUT_SPECS) as BreakevenInput[]
+): BreakevenResult[] {
+  return breakevenInputs
+    .map(input => findBreakeven(inputs, input))
+    .filter((result): result is BreakevenResult => result !== undefined);
+}
@@ -4,25 +4,34 @@ import type {
   IncomeProjection,
   CareerInfo,
   YearlyLoanState,
-  TaxBracket,
   FilingComparison,
   TrainingStage,
   PSLFSalaryPremiumParams,
   PSLFSalaryPremiumResult,
+  Loan,
+  PortfolioProjection,
+  PlanEnrollment,
+  PersonalInfo,
 } from './types.js';
 
 import {
   getPovertyLine,
   IDR_PLANS,
   TRAINING_SALARIES,
-  FEDERAL_BRACKETS_SINGLE,
-  FEDERAL_BRACKETS_MFJ,
-  FEDERAL_BRACKETS_MFS,
-  STATE_TAX_RATES,
   DEFAULTS,
 } from './constants.js';
 
 import { getSpecialty } from './specialties.js';
+import { runLedger } from './ledger.js';
+import { summarizeLoans } from './portfolio.js';
+import {
+  calculateFederalTaxes,
+  getQualifyingChildren,
+  calculateStateTax,
+  getMarginalStateRate,
+  getSeparateReturnIncomes,
+} from './tax.js';
+import { indexToYear } from './inflation.js';
 
 // ============================================
 // Income Projection
@@ -39,6 +48,9 @@ export function projectIncome(
   let trainingYearsRemaining = career.trainingYearsRemaining;
   const stages: TrainingStage[] = ['pgy1', 'pgy2', 'pgy3', 'pgy4', 'pgy5', 'pgy6', 'pgy7', 'fellow'];
   
+  // MS4 students spend the first year in school; residency starts the year after
+  const schoolYears = career.currentStage === 'ms4' ? 1 : 0;
+  
   // Find starting index in training
   let stageIndex = stages.indexOf(career.currentStage);
   if (stageIndex === -1) stageIndex = 0;
@@ -47,16 +59,20 @@ export function projectIncome(
     let income: number;
     let stage: TrainingStage | 'attending';
     
-    if (trainingYearsRemaining > 0) {
+    if (year < schoolYears) {
+      stage = 'ms4';
+      income = TRAINING_SALARIES['ms4'];
+    } else if (trainingYearsRemaining > 0) {
       stage = stages[Math.min(stageIndex + (career.trainingYearsRemaining - trainingYearsRemaining), stages.length - 1)];
       const baseSalary = TRAINING_SALARIES[stage] || TRAINING_SALARIES['fellow'];
       income = baseSalary * Math.pow(1 + growthRate, year);
       trainingYearsRemaining--;
     } else {
       stage = 'attending';
-      const attendingYears = year - career.trainingYearsRemaining;
+      // Attending salaries are today's; the first one is indexed to when training ends
+      const attendingStart = schoolYears + career.trainingYearsRemaining;
       const baseSalary = career.expectedAttendingSalary || specialty.medianAttendingSalary;
-      income = baseSalary * Math.pow(1 + growthRate, attendingYears);
+      income = indexToYear(baseSalary, attendingStart) * Math.pow(1 + growthRate, year - attendingStart);
     }
     
     projections.push({
@@ -69,6 +85,47 @@ export function projectIncome(
   return projections;
 }
 
+/**
+ * Spouse income in a projection year (0 = the first), growing yearly from
+ * the spouse's current AGI.
+ */
+export function getSpouseIncome(personal: PersonalInfo, year: number): number {
+  const growthRate = personal.spouseIncomeGrowth ?? DEFAULTS.incomeGrowthRate;
+  return Math.round(personal.spouseAgi * Math.pow(1 + growthRate, Math.max(0, year)));
+}
+
+/**
+ * Filing status for a projection year's return (0 = the first): the year's
+ * entry in `filingStatusByYear`, or the borrower's usual status.
+ */
+export function getFilingStatusForYear(personal: PersonalInfo, year: number): FilingStatus {
+  return personal.filingStatusByYear?.[year] ?? personal.filingStatus;
+}
+
+/**
+ * Move a career forward by whole years: MS4 students start residency,
+ * training stages advance and the borrower becomes an attending once
+ * training runs out.
+ */
+export function advanceCareer(career: CareerInfo, years: number): CareerInfo {
+  const stages: TrainingStage[] = ['pgy1', 'pgy2', 'pgy3', 'pgy4', 'pgy5', 'pgy6', 'pgy7', 'fellow'];
+  
+  if (years <= 0) return career;
+  if (career.currentStage === 'ms4') {
+    return advanceCareer({ ...career, currentStage: 'pgy1', graduationDate: undefined }, years - 1);
+  }
+  if (career.trainingYearsRemaining <= years) {
+    return { ...career, currentStage: 'attending', trainingYearsRemaining: 0 };
+  }
+  
+  const stageIndex = Math.max(0, stages.indexOf(career.currentStage));
+  return {
+    ...career,
+    currentStage: stages[Math.min(stageIndex + years, stages.length - 1)],
+    trainingYearsRemaining: career.trainingYearsRemaining - years,
+  };
+}
+
 // ============================================
 // IDR Payment Calculation
 // ============================================
@@ -78,26 +135,60 @@ export function calculateIDRPayment(
   agi: number,
   familySize: number,
   spouseAgi: number = 0,
-  filingStatus: FilingStatus = 'single'
+  filingStatus: FilingStatus = 'single',
+  preTaxContributions: number = 0,
+  communityProperty: boolean = false,
+  year: number = 0
 ): number {
+  // Pre-tax retirement contributions come out of the borrower's AGI
+  const borrowerAgi = Math.max(0, agi - preTaxContributions);
+  
   // Determine income to use for calculation
   let incomeForCalc: number;
   
   if (filingStatus === 'mfs') {
-    // Married filing separately: only borrower's income
-    incomeForCalc = agi;
+    // Married filing separately: only borrower's income, which in a
+    // community-property state is half the couple's
+    incomeForCalc = getSeparateReturnIncomes(borrowerAgi, spouseAgi, communityProperty).borrower;
   } else {
     // MFJ or single: use combined/individual income
-    incomeForCalc = agi + spouseAgi;
+    incomeForCalc = borrowerAgi + spouseAgi;
+  }
+  
+  if (plan.paymentFormula === 'rap') {
+    return calculateRAPPayment(plan, incomeForCalc, familySize, filingStatus);
   }
   
-  const povertyLine = getPovertyLine(familySize);
+  // The poverty line is indexed to the projection year; RAP's tiers are fixed in law
+  const povertyLine = indexToYear(getPovertyLine(familySize), year);
   const discretionaryIncome = Math.max(0, incomeForCalc - (povertyLine * plan.povertyLineMultiplier));
   const annualPayment = discretionaryIncome * plan.discretionaryIncomePercent;
   
   return Math.max(0, Math.round(annualPayment / 12));
 }
 
+/**
+ * RAP payment: a tiered percentage of total AGI (no poverty-line deduction),
+ * less a fixed amount per dependent, with a monthly minimum.
+ */
+function calculateRAPPayment(
+  plan: IDRPlanParams,
+  income: number,
+  familySize: number,
+  filingStatus: FilingStatus
+): number {
+  let rate = 0;
+  for (const tier of plan.incomeTiers ?? []) {
+    if (income > tier.threshold) rate = tier.rate;
+  }
+  
+  // Family size counts the borrower and (if married) the spouse; the rest are dependents
+  const dependents = Math.max(0, familySize - (filingStatus === 'single' ? 1 : 2));
+  const monthlyPayment = (income * rate) / 12 - dependents * (plan.dependentReductionMonthly ?? 0);
+  
+  return Math.max(plan.minimumMonthlyPayment ?? 0, Math.round(monthlyPayment));
+}
+
 /**
  * Calculate the 10-year standard repayment amount (used as cap for some plans)
  */
@@ -134,108 +225,86 @@ export function getEffectiveIDRPayment(
   return calculatedPayment;
 }
 
+/**
+ * Record entering an IDR plan. PAYE and IBR cap payments at the 10-year
+ * standard payment on the balance owed at entry; the cap is fixed for the
+ * enrollment and doesn't shrink as the balance is paid down.
+ */
+export function createPlanEnrollment(
+  planName: string,
+  loans: Loan[],
+  enrolledOn: string
+): PlanEnrollment {
+  const summary = summarizeLoans(loans);
+  
+  return {
+    planName,
+    enrolledOn,
+    entryBalance: Math.round(summary.totalBalance),
+    entryInterestRate: summary.weightedInterestRate,
+    standardPaymentCap: calculate10YearStandardPayment(summary.totalBalance, summary.weightedInterestRate),
+  };
+}
+
 // ============================================
 // Loan Balance Projection
 // ============================================
 
 export function projectLoanBalance(
-  initialBalance: number,
-  interestRate: number,
+  loans: Loan[],
   annualPayments: number[],  // array of annual payment amounts
   plan: IDRPlanParams
 ): YearlyLoanState[] {
-  const states: YearlyLoanState[] = [];
-  let balance = initialBalance;
-  let cumulativePayments = 0;
-  
-  for (let year = 0; year < annualPayments.length; year++) {
-    const startingBalance = balance;
-    const annualPayment = annualPayments[year];
-    const monthlyPayment = annualPayment / 12;
-    
-    let interestAccrued = 0;
-    let interestSubsidized = 0;
-    
-    for (let month = 0; month < 12; month++) {
-      const monthlyInterest = balance * (interestRate / 12);
-      interestAccrued += monthlyInterest;
-      
-      if (plan.interestSubsidy && monthlyPayment < monthlyInterest) {
-        // SAVE plan: government covers unpaid interest
-        interestSubsidized += (monthlyInterest - monthlyPayment);
-        // Balance stays flat (interest covered)
-      } else {
-        balance = balance + monthlyInterest - monthlyPayment;
-      }
-    }
-    
-    balance = Math.max(0, balance);
-    cumulativePayments += annualPayment;
-    
-    states.push({
-      year: year + 1,
-      startingBalance: Math.round(startingBalance),
-      interestAccrued: Math.round(interestAccrued),
-      paymentsMade: Math.round(annualPayment),
-      endingBalance: Math.round(balance),
-      interestSubsidized: Math.round(interestSubsidized),
-      cumulativePayments: Math.round(cumulativePayments),
-    });
-    
-    if (balance <= 0) break;
-  }
-  
-  return states;
+  return projectPortfolio(loans, annualPayments, plan).yearlyBreakdown;
+}
+
+/**
+ * Project each loan individually on the monthly ledger and roll the results
+ * up into yearly portfolio totals. Each year's payment is spread evenly
+ * across its twelve months.
+ */
+export function projectPortfolio(
+  loans: Loan[],
+  annualPayments: number[],
+  plan: IDRPlanParams
+): PortfolioProjection {
+  const { yearlyBreakdown, loanBreakdown } = runLedger(
+    loans,
+    annualPayments.length * 12,
+    ({ year }) => ({ payment: annualPayments[year] / 12, plan })
+  );
+  
+  return { yearlyBreakdown, loanBreakdown };
 }
 
 // ============================================
 // Tax Calculations
 // ============================================
 
-function getBrackets(filingStatus: FilingStatus): TaxBracket[] {
-  switch (filingStatus) {
-    case 'mfj': return FEDERAL_BRACKETS_MFJ;
-    case 'mfs': return FEDERAL_BRACKETS_MFS;
-    default: return FEDERAL_BRACKETS_SINGLE;
-  }
-}
-
-export function calculateFederalTax(
-  taxableIncome: number,
-  filingStatus: FilingStatus
-): number {
-  const brackets = getBrackets(filingStatus);
-  let tax = 0;
-  let remainingIncome = taxableIncome;
-  
-  for (let i = brackets.length - 1; i >= 0; i--) {
-    const bracket = brackets[i];
-    if (remainingIncome > bracket.threshold) {
-      const taxableInBracket = remainingIncome - bracket.threshold;
-      tax += taxableInBracket * bracket.rate;
-      remainingIncome = bracket.threshold;
-    }
-  }
-  
-  return Math.round(tax);
-}
-
 export function estimateTaxOnForgiveness(
   forgivenAmount: number,
   agiInForgivenessYear: number,
   state: string,
-  filingStatus: FilingStatus = 'single'
+  filingStatus: FilingStatus = 'single',
+  locality?: string,
+  year: number = 0
 ): number {
   if (forgivenAmount <= 0) return 0;
   
-  // Calculate marginal federal tax on forgiveness
-  const taxWithoutForgiveness = calculateFederalTax(agiInForgivenessYear, filingStatus);
-  const taxWithForgiveness = calculateFederalTax(agiInForgivenessYear + forgivenAmount, filingStatus);
+  // Marginal federal tax on forgiveness, which is income but not wages,
+  // under the forgiveness year's brackets
+  const taxWithoutForgiveness = calculateFederalTaxes({ filingStatus, wages: agiInForgivenessYear, year }).totalTax;
+  const taxWithForgiveness = calculateFederalTaxes({
+    filingStatus,
+    wages: agiInForgivenessYear,
+    otherIncome: forgivenAmount,
+    year,
+  }).totalTax;
   const federalTax = taxWithForgiveness - taxWithoutForgiveness;
   
-  // State tax (simplified - uses top marginal rate)
-  const stateRate = STATE_TAX_RATES[state] || 0.05;
-  const stateTax = forgivenAmount * stateRate;
+  // State and local tax on forgiveness, through the brackets above the year's income
+  const stateTax = calculateStateTax(agiInForgivenessYear + forgivenAmount, state, filingStatus, locality, year) -
+    calculateStateTax(agiInForgivenessYear, state, filingStatus, locality, year);
   
   return Math.round(federalTax + stateTax);
 }
@@ -250,19 +319,36 @@ export function compareFilingStatus(
   familySize: number,
   plan: IDRPlanParams,
   loanBalance: number,
-  interestRate: number
+  interestRate: number,
+  itemizedDeductions: number = 0,
+  communityProperty: boolean = false,
+  alternativeDocumentation: boolean = false,
+  year: number = 0
 ): FilingComparison {
-  // MFJ scenario
-  const mfjPayment = calculateIDRPayment(plan, borrowerAgi, familySize, spouseAgi, 'mfj');
-  const mfjEffective = getEffectiveIDRPayment(plan, mfjPayment, loanBalance, interestRate);
-  const mfjTax = calculateFederalTax(borrowerAgi + spouseAgi, 'mfj');
+  const qualifyingChildren = getQualifyingChildren('mfj', familySize);
   
-  // MFS scenario
-  const mfsPayment = calculateIDRPayment(plan, borrowerAgi, familySize, 0, 'mfs');
+  // MFJ scenario: the interest paid is deductible on a joint return
+  const mfjPayment = calculateIDRPayment(plan, borrowerAgi, familySize, spouseAgi, 'mfj', 0, false, year);
+  const mfjEffective = getEffectiveIDRPayment(plan, mfjPayment, loanBalance, interestRate);
+  const mfjTax = calculateFederalTaxes({
+    filingStatus: 'mfj',
+    wages: borrowerAgi,
+    spouseWages: spouseAgi,
+    studentLoanInterest: Math.min(mfjEffective * 12, loanBalance * interestRate),
+    itemizedDeductions,
+    qualifyingChildren,
+    year,
+  }).totalTax;
+  
+  // MFS scenario: community-property returns split the couple's income,
+  // and so does the IDR payment unless the borrower documents their own pay
+  const mfsPayment = calculateIDRPayment(
+    plan, borrowerAgi, familySize, spouseAgi, 'mfs', 0, communityProperty && !alternativeDocumentation, year
+  );
   const mfsEffective = getEffectiveIDRPayment(plan, mfsPayment, loanBalance, interestRate);
-  const mfsBorrowerTax = calculateFederalTax(borrowerAgi, 'mfs');
-  const mfsSpouseTax = calculateFederalTax(spouseAgi, 'mfs');
-  const mfsTotalTax = mfsBorrowerTax + mfsSpouseTax;
+  const mfsTotalTax = getSeparateReturnsTax(
+    borrowerAgi, spouseAgi, qualifyingChildren, itemizedDeductions, communityProperty, year
+  );
   
   const mfjNetCost = mfjEffective * 12 + mfjTax;
   const mfsNetCost = mfsEffective * 12 + mfsTotalTax;
@@ -283,6 +369,47 @@ export function compareFilingStatus(
   };
 }
 
+/**
+ * Combined federal tax on two separate returns. If either spouse itemizes
+ * both must, so they either both take the standard deduction or both
+ * itemize their share of the household's deductions (split by income).
+ * The children go to whichever spouse's return saves more. In a
+ * community-property state each return reports half the couple's income,
+ * while payroll tax stays on each spouse's own wages.
+ */
+function getSeparateReturnsTax(
+  borrowerAgi: number,
+  spouseAgi: number,
+  qualifyingChildren: number,
+  itemizedDeductions: number,
+  communityProperty: boolean,
+  year: number
+): number {
+  const reported = getSeparateReturnIncomes(borrowerAgi, spouseAgi, communityProperty);
+  const borrowerShare = borrowerAgi + spouseAgi > 0 ? reported.borrower / (borrowerAgi + spouseAgi) : 0.5;
+  const separateReturn = (wages: number, share: number, itemize: boolean, claimsChildren: boolean): number =>
+    calculateFederalTaxes({
+      filingStatus: 'mfs',
+      wages,
+      reportedWages: (borrowerAgi + spouseAgi) * share,
+      itemizedDeductions: itemize ? Math.round(itemizedDeductions * share) : 0,
+      spouseItemizes: itemize,
+      qualifyingChildren: claimsChildren ? qualifyingChildren : 0,
+      year,
+    }).totalTax;
+
+  const totals: number[] = [];
+  for (const itemize of itemizedDeductions > 0 ? [false, true] : [false]) {
+    for (const borrowerClaims of qualifyingChildren > 0 ? [true, false] : [true]) {
+      totals.push(
+        separateReturn(borrowerAgi, borrowerShare, itemize, borrowerClaims) +
+        separateReturn(spouseAgi, 1 - borrowerShare, itemize, !borrowerClaims)
+      );
+    }
+  }
+  return Math.min(...totals);
+}
+
 // ============================================
 // NPV Calculation
 // ============================================
@@ -365,6 +492,7 @@ export function calculatePSLFSalaryPremium(
     attendingSalary,
     filingStatus,
     state,
+    locality,
   } = params;
 
   const pslfNPVBenefit = bestNonPslfNPV - pslfNPV;
@@ -379,11 +507,11 @@ export function calculatePSLFSalaryPremium(
     };
   }
 
-  // Estimate marginal tax rate at attending salary level
-  const federalTaxBase = calculateFederalTax(attendingSalary, filingStatus);
-  const federalTaxPlus = calculateFederalTax(attendingSalary + 10000, filingStatus);
+  // Estimate marginal tax rate, including payroll tax, at attending salary level
+  const federalTaxBase = calculateFederalTaxes({ filingStatus, wages: attendingSalary }).totalTax;
+  const federalTaxPlus = calculateFederalTaxes({ filingStatus, wages: attendingSalary + 10000 }).totalTax;
   const marginalFederalRate = (federalTaxPlus - federalTaxBase) / 10000;
-  const marginalStateRate = STATE_TAX_RATES[state] || 0.05;
+  const marginalStateRate = getMarginalStateRate(attendingSalary, state, filingStatus, locality);
   const effectiveMarginalRate = marginalFederalRate + marginalStateRate;
 
   // Annuity factor: present value of $1/year for n years at discount rate r
@@ -463,124 +591,59 @@ export function calculateAggressivePayoff(params: AggressivePayoffParams): Aggre
   const monthlyInterestOnly = (loanBalance * interestRate) / 12;
   const monthlyTrainingPayment = monthlyInterestOnly;
   
+  const trainingMonths = trainingYearsRemaining * 12;
+  const aggressiveMonths = aggressiveYears * 12;
+  const remainingTermYears = 10; // standard 10-year term on remainder
+  let monthlyStandard: number | null = null;
+  
+  // Phase 1: training (interest-only), Phase 2: aggressive payoff,
+  // Phase 3: standard payments on any remaining balance
+  const ledger = runLedger(
+    [{ id: 'aggressive', type: 'private', balance: loanBalance, interestRate, outstandingInterest: 0 }],
+    trainingMonths + aggressiveMonths + remainingTermYears * 12,
+    ({ month, balance }) => {
+      if (month < trainingMonths) {
+        return { payment: monthlyTrainingPayment };
+      }
+      if (month < trainingMonths + aggressiveMonths) {
+        return { payment: monthlyAggressivePayment };
+      }
+      if (monthlyStandard === null) {
+        monthlyStandard = calculateAmortizationPayment(balance, interestRate, remainingTermYears);
+      }
+      return { payment: monthlyStandard };
+    }
+  );
+  
   const yearlyBreakdown: AggressivePayoffResult['yearlyBreakdown'] = [];
-  let balance = loanBalance;
-  let totalPayments = 0;
-  let totalInterest = 0;
-  let year = 0;
-  let months = 0;
   let postTrainingYears = 0;
   let postTrainingMonths = 0;
   
-  // Phase 1: Training years (interest-only payments)
-  for (let y = 0; y < trainingYearsRemaining && balance > 0; y++) {
-    year++;
-    let yearPayment = 0;
-    let yearInterest = 0;
-    let yearPrincipal = 0;
-    const startBalance = balance;
+  for (let start = 0; start < ledger.monthlySchedule.length; start += 12) {
+    const months = ledger.monthlySchedule.slice(start, start + 12);
+    const yearIndex = start / 12;
+    const phase = yearIndex < trainingYearsRemaining
+      ? 'training'
+      : yearIndex < trainingYearsRemaining + aggressiveYears ? 'aggressive' : 'standard';
     
-    for (let m = 0; m < 12 && balance > 0; m++) {
-      const monthInterest = balance * (interestRate / 12);
-      const payment = Math.min(monthlyTrainingPayment, balance + monthInterest);
-      const principal = Math.max(0, payment - monthInterest);
-      
-      balance = balance + monthInterest - payment;
-      yearPayment += payment;
-      yearInterest += monthInterest;
-      yearPrincipal += principal;
-      totalPayments += payment;
-      totalInterest += monthInterest;
-      months++;
+    if (phase !== 'training') {
+      postTrainingYears++;
+      postTrainingMonths += months.length;
     }
     
     yearlyBreakdown.push({
-      year,
-      payment: Math.round(yearPayment),
-      principal: Math.round(yearPrincipal),
-      interest: Math.round(yearInterest),
-      endingBalance: Math.round(Math.max(0, balance)),
-      phase: 'training',
+      year: yearIndex + 1,
+      payment: Math.round(months.reduce((sum, m) => sum + m.paymentMade, 0)),
+      principal: Math.round(months.reduce((sum, m) => sum + m.principalPaid, 0)),
+      interest: Math.round(months.reduce((sum, m) => sum + m.interestAccrued, 0)),
+      endingBalance: Math.round(months[months.length - 1].endingBalance),
+      phase,
     });
   }
   
-  // Phase 2: Aggressive payoff years
-  for (let y = 0; y < aggressiveYears && balance > 0; y++) {
-    year++;
-    postTrainingYears++;
-    let yearPayment = 0;
-    let yearInterest = 0;
-    let yearPrincipal = 0;
-    const startBalance = balance;
-
-    for (let m = 0; m < 12 && balance > 0; m++) {
-      const monthInterest = balance * (interestRate / 12);
-      const payment = Math.min(monthlyAggressivePayment, balance + monthInterest);
-      const principal = payment - monthInterest;
-
-      balance = Math.max(0, balance + monthInterest - payment);
-      yearPayment += payment;
-      yearInterest += monthInterest;
-      yearPrincipal += principal;
-      totalPayments += payment;
-      totalInterest += monthInterest;
-      months++;
-      postTrainingMonths++;
-
-      if (balance <= 0) break;
-    }
-
-    yearlyBreakdown.push({
-      year,
-      payment: Math.round(yearPayment),
-      principal: Math.round(yearPrincipal),
-      interest: Math.round(yearInterest),
-      endingBalance: Math.round(Math.max(0, balance)),
-      phase: 'aggressive',
-    });
-  }
-  
-  // Phase 3: Standard payments on remaining balance (if any)
-  if (balance > 0) {
-    const remainingTermYears = 10; // standard 10-year term on remainder
-    const monthlyStandard = calculateAmortizationPayment(balance, interestRate, remainingTermYears);
-    
-    for (let y = 0; y < remainingTermYears && balance > 0; y++) {
-      year++;
-      postTrainingYears++;
-      let yearPayment = 0;
-      let yearInterest = 0;
-      let yearPrincipal = 0;
-
-      for (let m = 0; m < 12 && balance > 0; m++) {
-        const monthInterest = balance * (interestRate / 12);
-        const payment = Math.min(monthlyStandard, balance + monthInterest);
-        const principal = payment - monthInterest;
-
-        balance = Math.max(0, balance + monthInterest - payment);
-        yearPayment += payment;
-        yearInterest += monthInterest;
-        yearPrincipal += principal;
-        totalPayments += payment;
-        totalInterest += monthInterest;
-        months++;
-        postTrainingMonths++;
-        
-        if (balance <= 0) break;
-      }
-      
-      yearlyBreakdown.push({
-        year,
-        payment: Math.round(yearPayment),
-        principal: Math.round(yearPrincipal),
-        interest: Math.round(yearInterest),
-        endingBalance: Math.round(Math.max(0, balance)),
-        phase: 'standard',
-      });
-      
-      if (balance <= 0) break;
-    }
-  }
+  const totalPayments = ledger.totalPayments;
+  const totalInterest = ledger.monthlySchedule.reduce((sum, m) => sum + m.interestAccrued, 0);
+  const year = yearlyBreakdown.length;
   
   // Calculate NPV
   const annualPayments = yearlyBreakdown.map(y => y.payment);
@@ -0,0 +1,158 @@
+import type {
+  UserInputs,
+  StrategyResult,
+  IncomeProjection,
+  Preferences,
+  AffordabilitySettings,
+  AffordabilityCheck,
+} from './types.js';
+
+import { AFFORDABILITY_DEFAULTS } from './constants.js';
+import {
+  calculateFederalTaxes,
+  getQualifyingChildren,
+  calculateStateTax,
+  getSeparateReturnIncomes,
+  isCommunityPropertyState,
+} from './tax.js';
+import { getAnnualPayments } from './ledger.js';
+import { getPreTaxContribution } from './retirement.js';
+import { getSpouseIncome, getFilingStatusForYear } from './calculations.js';
+import { indexToYear } from './inflation.js';
+
+// ============================================
+// Cash Flow and Affordability
+//
+// A strategy is only useful if the borrower can make its payments. Each
+// year's loan payments are checked against household take-home pay: they
+// may take no more than a set share of it, and must leave enough for the
+// living-expense budget. Taxes use each year's inflation-indexed brackets,
+// and the living-expense budget rises with inflation too.
+// ============================================
+
+/**
+ * Affordability settings with defaults filled in.
+ */
+export function getAffordabilitySettings(preferences: Preferences): Required<AffordabilitySettings> {
+  return { ...AFFORDABILITY_DEFAULTS, ...preferences.affordability };
+}
+
+/**
+ * Household take-home pay for a year in which the borrower earns `income`:
+ * income (plus a spouse's) less pre-tax retirement contributions, federal
+ * income and payroll tax, and state and local income tax. Married couples
+ * filing separately are each taxed on their own income (half the couple's
+ * in a community-property state) and itemize their share of the household's
+ * deductions if that beats both taking the standard deduction, with the
+ * borrower claiming any children.
+ * `year` is the 0-based projection year, which sets the spouse's projected
+ * income, the year's filing status and the indexed tax thresholds.
+ */
+export function calculateTakeHomePay(inputs: UserInputs, income: number, year: number = 0): number {
+  const { state, locality, familySize, itemizedDeductions = 0 } = inputs.personal;
+  const filingStatus = getFilingStatusForYear(inputs.personal, year);
+  const preTaxContributions = getPreTaxContribution(inputs, income, year);
+  const spouseIncome = filingStatus === 'single' ? 0 : getSpouseIncome(inputs.personal, year);
+  const qualifyingChildren = getQualifyingChildren(filingStatus, familySize);
+  const separate = getSeparateReturnIncomes(income, spouseIncome, isCommunityPropertyState(state));
+
+  // If either spouse itemizes both must, so separate returns both take the
+  // standard deduction or both itemize their share of the household's
+  const borrowerShare = income + spouseIncome > 0 ? separate.borrower / (income + spouseIncome) : 0.5;
+  const separateReturnsTax = (itemize: boolean): number =>
+    calculateFederalTaxes({
+      filingStatus,
+      wages: income,
+      reportedWages: separate.borrower,
+      preTaxContributions,
+      itemizedDeductions: itemize ? Math.round(itemizedDeductions * borrowerShare) : 0,
+      spouseItemizes: itemize,
+      qualifyingChildren,
+      year,
+    }).totalTax +
+    calculateFederalTaxes({
+      filingStatus,
+      wages: spouseIncome,
+      reportedWages: separate.spouse,
+      itemizedDeductions: itemize ? Math.round(itemizedDeductions * (1 - borrowerShare)) : 0,
+      spouseItemizes: itemize,
+      year,
+    }).totalTax;
+
+  const federalTax = filingStatus === 'mfs'
+    ? Math.min(separateReturnsTax(false), itemizedDeductions > 0 ? separateReturnsTax(true) : Infinity)
+    : calculateFederalTaxes({
+        filingStatus,
+        wages: income,
+        spouseWages: spouseIncome,
+        preTaxContributions,
+        itemizedDeductions,
+        qualifyingChildren,
+        year,
+      }).totalTax;
+  const stateTax = filingStatus === 'mfs'
+    ? calculateStateTax(Math.max(0, separate.borrower - preTaxContributions), state, filingStatus, locality, year) +
+      calculateStateTax(separate.spouse, state, filingStatus, locality, year)
+    : calculateStateTax(Math.max(0, income - preTaxContributions + spouseIncome), state, filingStatus, locality, year);
+
+  return Math.round(income - preTaxContributions + spouseIncome - federalTax - stateTax);
+}
+
+/**
+ * Compare a strategy's payments with take-home pay in each year it makes
+ * any. A year is unaffordable when its payments exceed the lesser of the
+ * allowed share of take-home pay and what's left after living expenses
+ * (today's budget, indexed to the year).
+ */
+export function checkAffordability(
+  inputs: UserInputs,
+  result: StrategyResult,
+  incomeProjection: IncomeProjection[]
+): AffordabilityCheck {
+  const settings = getAffordabilitySettings(inputs.preferences);
+  const payments = getAnnualPayments(result.monthlySchedule);
+  const unaffordableYears: number[] = [];
+  let peakShare = 0;
+  let peakShareYear = 0;
+
+  payments.forEach((payment, i) => {
+    if (payment <= 0) return;
+    const income = (incomeProjection[i] ?? incomeProjection[incomeProjection.length - 1]).income;
+    const takeHome = calculateTakeHomePay(inputs, income, i);
+    const budget = Math.min(takeHome * settings.maxPaymentShare, takeHome - indexToYear(settings.livingExpenses, i));
+    const share = takeHome > 0 ? payment / takeHome : Infinity;
+
+    if (share > peakShare) {
+      peakShare = share;
+      peakShareYear = i + 1;
+    }
+    if (payment > budget) unaffordableYears.push(i + 1);
+  });
+
+  return {
+    affordable: unaffordableYears.length === 0,
+    peakShare: Math.round(peakShare * 1000) / 1000,
+    peakShareYear,
+    unaffordableYears,
+  };
+}
+
+/**
+ * Copies of the results with their affordability check. When the borrower
+ * excludes unaffordable strategies, those over budget are dropped, unless
+ * that would leave nothing to compare.
+ */
+export function withAffordability(
+  inputs: UserInputs,
+  incomeProjection: IncomeProjection[],
+  results: StrategyResult[]
+): StrategyResult[] {
+  const checked = results.map(result => ({
+    ...result,
+    affordability: checkAffordability(inputs, result, incomeProjection),
+  }));
+
+  if (!getAffordabilitySettings(inputs.preferences).excludeUnaffordable) return checked;
+  const affordable = checked.filter(result => result.affordability.affordable);
+  return affordable.length > 0 ? affordable : checked;
+}
@@ -0,0 +1,263 @@
+import type {
+  Loan,
+  LoanType,
+  UserInputs,
+  ConsolidationResult,
+  ConsolidationScenario,
+  StrategyResult,
+} from './types.js';
+
+import { IDR_PLANS, PSLF, CAPITALIZATION_TRIGGERS } from './constants.js';
+import {
+  projectIncome,
+  advanceCareer,
+  calculateIDRPayment,
+  calculate10YearStandardPayment,
+  getEffectiveIDRPayment,
+  calculateNPV,
+} from './calculations.js';
+import { getPortfolioLoans, getFederalLoans, isFederalLoan, summarizeLoans, getLoanTotal, createLoanPortfolio } from './portfolio.js';
+import { runLedger, getAnnualPayments, mergeLedgers } from './ledger.js';
+import { getAnalysisDate } from './availability.js';
+import { checkPlanEligibility, getFirstBorrowedDate } from './eligibility.js';
+import { compareAllStrategies, runPrivateLoans } from './strategies.js';
+import { getPreRepaymentPhase, withPreRepayment } from './prerepayment.js';
+import { createRecertificationTracker } from './recertification.js';
+import { addMonthsToDate } from './utils.js';
+import { splitsCommunityIncome } from './tax.js';
+
+// ============================================
+// Direct Consolidation
+// ============================================
+
+// Plans tried (in order) for payments on the original loans before consolidating
+const PRE_CONSOLIDATION_PLANS = ['IBR_NEW', 'IBR_OLD', 'PAYE', 'RAP', 'ICR'];
+
+/**
+ * Consolidation rates are the weighted average rate rounded up to the
+ * next 1/8 of a percent.
+ */
+export function roundUpToEighthPercent(rate: number): number {
+  // Small tolerance so rates already on a 1/8% step aren't bumped by float error
+  return Math.ceil(rate * 800 - 1e-9) / 800;
+}
+
+/**
+ * Qualifying payment counts for a loan, falling back to the portfolio's
+ * counts. Only Direct loans earn PSLF credit before consolidation.
+ */
+function getLoanCounts(loan: Loan, inputs: UserInputs): { pslf: number; idr: number } {
+  const pslfDefault = PSLF.eligibleLoanTypes.includes(loan.type) ? inputs.loans.pslfQualifyingPayments : 0;
+  return {
+    pslf: loan.pslfQualifyingPayments ?? pslfDefault,
+    idr: loan.idrQualifyingPayments ?? inputs.loans.idrQualifyingPayments,
+  };
+}
+
+/**
+ * Combine loans into a Direct Consolidation loan. Outstanding interest is
+ * capitalized (unless the consolidation trigger is turned off), the rate
+ * is the weighted average rounded up to the next 1/8%, and PSLF/IDR
+ * credit is the balance-weighted average of the underlying loans' counts,
+ * rounded down. By default every federal loan is included.
+ */
+export function simulateConsolidation(
+  inputs: UserInputs,
+  consolidationDate: string = getAnalysisDate(inputs.preferences),
+  loanIds?: string[]
+): ConsolidationResult {
+  const loans = getPortfolioLoans(inputs.loans);
+  const included = loans.filter(loan =>
+    isFederalLoan(loan) && (!loanIds || loanIds.includes(loan.id))
+  );
+  const untouched = loans.filter(loan => !included.includes(loan));
+
+  const summary = summarizeLoans(included);
+  const totalBalance = summary.totalBalance;
+
+  let pslfWeighted = 0;
+  let idrWeighted = 0;
+  const consolidatedTypes: LoanType[] = [];
+
+  for (const loan of included) {
+    const counts = getLoanCounts(loan, inputs);
+    pslfWeighted += counts.pslf * getLoanTotal(loan);
+    idrWeighted += counts.idr * getLoanTotal(loan);
+
+    for (const type of loan.consolidatedTypes ?? [loan.type]) {
+      if (!consolidatedTypes.includes(type)) consolidatedTypes.push(type);
+    }
+  }
+
+  const pslfQualifyingPayments = totalBalance > 0 ? Math.floor(pslfWeighted / totalBalance) : 0;
+  const idrQualifyingPayments = totalBalance > 0 ? Math.floor(idrWeighted / totalBalance) : 0;
+  const interestRate = roundUpToEighthPercent(summary.weightedInterestRate);
+  const triggers = inputs.preferences.capitalizationTriggers ?? CAPITALIZATION_TRIGGERS;
+  const capitalizedInterest = triggers.includes('consolidation') ? summary.outstandingInterest : 0;
+
+  const consolidatedLoan: Loan = {
+    id: 'consolidation',
+    type: 'direct_consolidation',
+    balance: summary.principal + capitalizedInterest,
+    interestRate,
+    disbursementDate: consolidationDate,
+    outstandingInterest: summary.outstandingInterest - capitalizedInterest,
+    consolidatedTypes,
+    pslfQualifyingPayments,
+    idrQualifyingPayments,
+  };
+
+  return {
+    consolidatedLoan,
+    loans: [consolidatedLoan, ...untouched],
+    weightedAverageRate: summary.weightedInterestRate,
+    interestRate,
+    capitalizedInterest,
+    pslfQualifyingPayments,
+    idrQualifyingPayments,
+  };
+}
+
+/**
+ * Inputs describing the borrower after consolidating: the consolidated loan
+ * replaces the originals and carries the weighted-average payment counts.
+ */
+export function applyConsolidation(
+  inputs: UserInputs,
+  consolidation: ConsolidationResult,
+  consolidationDate: string
+): UserInputs {
+  return {
+    ...inputs,
+    loans: {
+      ...createLoanPortfolio(
+        consolidation.loans,
+        consolidation.pslfQualifyingPayments,
+        consolidation.idrQualifyingPayments
+      ),
+      firstBorrowedDate: getFirstBorrowedDate(inputs),
+    },
+    preferences: { ...inputs.preferences, asOfDate: consolidationDate },
+  };
+}
+
+// ============================================
+// Consolidation Timing Comparison
+// ============================================
+
+function bestOf(results: StrategyResult[]): StrategyResult {
+  return results.reduce((best, result) => (result.npv < best.npv ? result : best));
+}
+
+/**
+ * Compare never consolidating, consolidating now, and consolidating after
+ * `laterYears` years of payments on the original loans. Before a later
+ * consolidation the borrower pays under the first IDR plan the original
+ * loans qualify for (or the 10-year standard payment if none); only Direct
+ * loans at a qualifying employer earn PSLF credit during that time.
+ */
+export function compareConsolidationTiming(
+  inputs: UserInputs,
+  laterYears: number = 1
+): ConsolidationScenario[] {
+  const asOfDate = getAnalysisDate(inputs.preferences);
+  const discountRate = inputs.preferences.discountRate;
+
+  // Never
+  const neverResults = compareAllStrategies(inputs);
+  const neverBest = bestOf(neverResults);
+  const scenarios: ConsolidationScenario[] = [{
+    timing: 'never',
+    results: neverResults,
+    prePhasePayments: 0,
+    prePhaseNPV: 0,
+    bestStrategy: neverBest,
+    totalNPV: neverBest.npv,
+  }];
+
+  // Now
+  const nowConsolidation = simulateConsolidation(inputs, asOfDate);
+  const nowResults = compareAllStrategies(applyConsolidation(inputs, nowConsolidation, asOfDate));
+  const nowBest = bestOf(nowResults);
+  scenarios.push({
+    timing: 'now',
+    consolidationDate: asOfDate,
+    consolidation: nowConsolidation,
+    results: nowResults,
+    prePhasePayments: 0,
+    prePhaseNPV: 0,
+    bestStrategy: nowBest,
+    totalNPV: nowBest.npv,
+  });
+
+  // Later: pay on the original loans first, then consolidate what's left.
+  // Private loans are repaid on their own meanwhile.
+  const months = laterYears * 12;
+  const loans = getFederalLoans(inputs.loans);
+  const portfolio = summarizeLoans(loans);
+  const incomeProjection = projectIncome(inputs.career, laterYears);
+  const prePlanName = PRE_CONSOLIDATION_PLANS.find(name => checkPlanEligibility(inputs, name).eligible);
+  const prePlan = prePlanName ? IDR_PLANS[prePlanName] : undefined;
+  const standardPayment = calculate10YearStandardPayment(portfolio.totalBalance, portfolio.weightedInterestRate);
+
+  const preRepayment = getPreRepaymentPhase(inputs);
+  const recertify = createRecertificationTracker(inputs, incomeProjection, preRepayment.repaymentStartDate);
+
+  const federalLedger = runLedger(loans, months, withPreRepayment(preRepayment, ({ month, year }) => {
+    if (!prePlan) return { payment: standardPayment, qualifying: false };
+    const income = recertify(month, year);
+    const idrPayment = calculateIDRPayment(
+      prePlan,
+      income.agi,
+      inputs.personal.familySize,
+      inputs.personal.spouseAgi,
+      inputs.personal.filingStatus,
+      0,
+      splitsCommunityIncome(inputs.personal),
+      year
+    );
+    return {
+      payment: getEffectiveIDRPayment(prePlan, idrPayment, portfolio.totalBalance, portfolio.weightedInterestRate),
+      plan: prePlan,
+      agiTaxYear: income.agiTaxYear,
+    };
+  }), { capitalizationTriggers: inputs.preferences.capitalizationTriggers });
+  const privateLedger = runPrivateLoans(inputs, months);
+  const preLedger = privateLedger ? mergeLedgers(federalLedger, privateLedger) : federalLedger;
+
+  const creditedLoans: Loan[] = preLedger.finalLoans.map(loan => {
+    if (!isFederalLoan(loan)) return loan;
+    const counts = getLoanCounts(loan, inputs);
+    const earnsPSLF = inputs.personal.pslfEligibleEmployer && PSLF.eligibleLoanTypes.includes(loan.type);
+    return {
+      ...loan,
+      pslfQualifyingPayments: counts.pslf + (earnsPSLF ? preLedger.qualifyingPayments : 0),
+      idrQualifyingPayments: counts.idr + preLedger.qualifyingPayments,
+    };
+  });
+
+  const laterDate = addMonthsToDate(asOfDate, months);
+  const laterInputs: UserInputs = {
+    ...inputs,
+    loans: { ...inputs.loans, loans: creditedLoans, firstBorrowedDate: getFirstBorrowedDate(inputs) },
+    personal: { ...inputs.personal, agi: projectIncome(inputs.career, laterYears + 1)[laterYears].income },
+    career: advanceCareer(inputs.career, laterYears),
+  };
+  const laterConsolidation = simulateConsolidation(laterInputs, laterDate);
+  const laterResults = compareAllStrategies(applyConsolidation(laterInputs, laterConsolidation, laterDate));
+  const laterBest = bestOf(laterResults);
+  const prePhaseNPV = calculateNPV(getAnnualPayments(preLedger.monthlySchedule), 0, 0, discountRate);
+
+  scenarios.push({
+    timing: 'later',
+    consolidationDate: laterDate,
+    consolidation: laterConsolidation,
+    results: laterResults,
+    prePhasePayments: Math.round(preLedger.totalPayments),
+    prePhaseNPV,
+    bestStrategy: laterBest,
+    totalNPV: Math.round(prePhaseNPV + laterBest.npv / Math.pow(1 + discountRate, laterYears)),
+  });
+
+  return scenarios;
+}
@@ -1,4 +1,16 @@
-import type { IDRPlanParams, TaxBracket } from './types.js';
+import type {
+  IDRPlanParams,
+  TaxBracket,
+  LoanType,
+  CapitalizationEvent,
+  RiskTolerance,
+  SensitivityRanges,
+  InvestmentAccount,
+  PreTaxAccount,
+  FilingStatus,
+  StateTaxSchedule,
+  LocalTaxSchedule,
+} from './types.js';
 
 // ============================================
 // Federal Poverty Guidelines (2024)
@@ -14,8 +26,33 @@ export function getPovertyLine(familySize: number): number {
 
 // ============================================
 // IDR Plan Parameters
+// Availability dates follow the 2025 reconciliation law: loans made on or
+// after July 1, 2026 may only use RAP, and SAVE, PAYE and ICR end for
+// existing borrowers on July 1, 2028.
 // ============================================
 
+export const DIRECT_LOAN_TYPES: LoanType[] = [
+  'direct_unsub',
+  'direct_sub',
+  'direct_plus',
+  'direct_consolidation',
+];
+
+// RAP charges a percentage of total AGI, stepping up 1% per $10k of AGI
+export const RAP_INCOME_TIERS: TaxBracket[] = [
+  { threshold: 0, rate: 0 },          // $10/month minimum applies
+  { threshold: 10000, rate: 0.01 },
+  { threshold: 20000, rate: 0.02 },
+  { threshold: 30000, rate: 0.03 },
+  { threshold: 40000, rate: 0.04 },
+  { threshold: 50000, rate: 0.05 },
+  { threshold: 60000, rate: 0.06 },
+  { threshold: 70000, rate: 0.07 },
+  { threshold: 80000, rate: 0.08 },
+  { threshold: 90000, rate: 0.09 },
+  { threshold: 100000, rate: 0.10 },
+];
+
 export const IDR_PLANS: Record<string, IDRPlanParams> = {
   SAVE: {
     name: 'SAVE (Saving on a Valuable Education)',
@@ -25,6 +62,8 @@ export const IDR_PLANS: Record<string, IDRPlanParams> = {
     interestSubsidy: true,
     capsPaymentAt10YearStandard: false,
     undergraduateRate: 0.05,
+    availability: { closedToNewLoansOn: '2026-07-01', sunsetsOn: '2028-07-01' },
+    eligibility: { loanTypes: DIRECT_LOAN_TYPES },
   },
   PAYE: {
     name: 'PAYE (Pay As You Earn)',
@@ -33,6 +72,14 @@ export const IDR_PLANS: Record<string, IDRPlanParams> = {
     forgivenessYears: 20,
     interestSubsidy: false,
     capsPaymentAt10YearStandard: true,
+    capitalizationCap: 0.10,
+    availability: { closedToNewLoansOn: '2026-07-01', sunsetsOn: '2028-07-01' },
+    eligibility: {
+      loanTypes: DIRECT_LOAN_TYPES,
+      newBorrowerOn: '2007-10-01',
+      disbursementOnOrAfter: '2011-10-01',
+      partialFinancialHardship: true,
+    },
   },
   IBR_NEW: {
     name: 'IBR (New Borrowers after 2014)',
@@ -41,6 +88,14 @@ export const IDR_PLANS: Record<string, IDRPlanParams> = {
     forgivenessYears: 20,
     interestSubsidy: false,
     capsPaymentAt10YearStandard: true,
+    capitalizesOnExit: true,
+    availability: { closedToNewLoansOn: '2026-07-01' },
+    eligibility: {
+      loanTypes: [...DIRECT_LOAN_TYPES, 'ffel'],
+      newBorrowerOn: '2014-07-01',
+      partialFinancialHardship: true,
+      hardshipRequirementRepealedOn: '2025-07-04',
+    },
   },
   IBR_OLD: {
     name: 'IBR (Borrowers before 2014)',
@@ -49,6 +104,14 @@ export const IDR_PLANS: Record<string, IDRPlanParams> = {
     forgivenessYears: 25,
     interestSubsidy: false,
     capsPaymentAt10YearStandard: true,
+    capitalizesOnExit: true,
+    availability: { closedToNewLoansOn: '2026-07-01' },
+    eligibility: {
+      loanTypes: [...DIRECT_LOAN_TYPES, 'ffel'],
+      existingBorrowerOn: '2014-07-01',
+      partialFinancialHardship: true,
+      hardshipRequirementRepealedOn: '2025-07-04',
+    },
   },
   ICR: {
     name: 'ICR (Income-Contingent Repayment)',
@@ -57,9 +120,39 @@ export const IDR_PLANS: Record<string, IDRPlanParams> = {
     forgivenessYears: 25,
     interestSubsidy: false,
     capsPaymentAt10YearStandard: false,
+    availability: { closedToNewLoansOn: '2026-07-01', sunsetsOn: '2028-07-01' },
+    eligibility: { loanTypes: DIRECT_LOAN_TYPES, allowsConsolidatedParentPlus: true },
+  },
+  RAP: {
+    name: 'RAP (Repayment Assistance Plan)',
+    discretionaryIncomePercent: 0,
+    povertyLineMultiplier: 0,
+    forgivenessYears: 30,
+    interestSubsidy: true,          // unpaid interest is waived each month
+    capsPaymentAt10YearStandard: false,
+    paymentFormula: 'rap',
+    incomeTiers: RAP_INCOME_TIERS,
+    minimumMonthlyPayment: 10,
+    dependentReductionMonthly: 50,
+    principalMatchMonthly: 50,
+    availability: { opensOn: '2026-07-01' },
+    eligibility: { loanTypes: DIRECT_LOAN_TYPES },
   },
 };
 
+// Loans on which the government pays interest during school, grace and deferment
+export const SUBSIDIZED_LOAN_TYPES: LoanType[] = ['direct_sub', 'perkins'];
+
+export const GRACE_PERIOD_MONTHS = 6;
+
+// Events that capitalize outstanding interest unless the user turns them off
+export const CAPITALIZATION_TRIGGERS: CapitalizationEvent[] = [
+  'plan_exit',
+  'pfh_loss',
+  'grace_end',
+  'consolidation',
+];
+
 // ============================================
 // Resident/Fellow Salary Progression
 // National averages, update annually
@@ -112,21 +205,423 @@ export const FEDERAL_BRACKETS_MFS: TaxBracket[] = [
 ];
 
 // ============================================
-// State Tax Rates (simplified top marginal)
+// Federal Deductions, Credits and Payroll Taxes (2024)
+// ============================================
+
+export const STANDARD_DEDUCTION: Record<FilingStatus, number> = {
+  single: 14600,
+  mfj: 29200,
+  mfs: 14600,
+};
+
+// Not available to married couples filing separately
+export const STUDENT_LOAN_INTEREST_DEDUCTION = {
+  max: 2500,
+  phaseOut: {
+    single: { start: 80000, end: 95000 },
+    mfj: { start: 165000, end: 195000 },
+  },
+};
+
+export const CHILD_TAX_CREDIT = {
+  perChild: 2000,
+  refundablePerChild: 1700,       // additional child tax credit
+  refundableEarnedIncomeFloor: 2500,
+  refundableRate: 0.15,
+  phaseOutStart: { single: 200000, mfj: 400000, mfs: 200000 } as Record<FilingStatus, number>,
+  phaseOutPer1000: 50,
+};
+
+export const FICA = {
+  socialSecurityRate: 0.062,
+  socialSecurityWageBase: 168600,   // per earner
+  medicareRate: 0.0145,
+  additionalMedicareRate: 0.009,
+  additionalMedicareThreshold: { single: 200000, mfj: 250000, mfs: 125000 } as Record<FilingStatus, number>,
+};
+
+// ============================================
+// State and Local Income Tax Brackets (2024)
+// ============================================
+
+const flat = (rate: number): TaxBracket[] => [{ threshold: 0, rate }];
+
+// States whose joint brackets are twice as wide as the single brackets
+const doubled = (brackets: TaxBracket[]): TaxBracket[] =>
+  brackets.map(bracket => ({ threshold: bracket.threshold * 2, rate: bracket.rate }));
+
+const NO_TAX: StateTaxSchedule = { single: flat(0) };
+
+const CA_SINGLE: TaxBracket[] = [
+  { threshold: 0, rate: 0.01 },
+  { threshold: 10756, rate: 0.02 },
+  { threshold: 25499, rate: 0.04 },
+  { threshold: 40245, rate: 0.06 },
+  { threshold: 55866, rate: 0.08 },
+  { threshold: 70606, rate: 0.093 },
+  { threshold: 360659, rate: 0.103 },
+  { threshold: 432787, rate: 0.113 },
+  { threshold: 721314, rate: 0.123 },
+  { threshold: 1000000, rate: 0.133 },   // mental health services tax
+];
+
+const CT_SINGLE: TaxBracket[] = [
+  { threshold: 0, rate: 0.02 },
+  { threshold: 10000, rate: 0.045 },
+  { threshold: 50000, rate: 0.055 },
+  { threshold: 100000, rate: 0.06 },
+  { threshold: 200000, rate: 0.065 },
+  { threshold: 250000, rate: 0.069 },
+  { threshold: 500000, rate: 0.0699 },
+];
+
+const HI_SINGLE: TaxBracket[] = [
+  { threshold: 0, rate: 0.014 },
+  { threshold: 2400, rate: 0.032 },
+  { threshold: 4800, rate: 0.055 },
+  { threshold: 9600, rate: 0.064 },
+  { threshold: 14400, rate: 0.068 },
+  { threshold: 19200, rate: 0.072 },
+  { threshold: 24000, rate: 0.076 },
+  { threshold: 36000, rate: 0.079 },
+  { threshold: 48000, rate: 0.0825 },
+  { threshold: 150000, rate: 0.09 },
+  { threshold: 175000, rate: 0.10 },
+  { threshold: 200000, rate: 0.11 },
+];
+
+const OK_SINGLE: TaxBracket[] = [
+  { threshold: 0, rate: 0.0025 },
+  { threshold: 1000, rate: 0.0075 },
+  { threshold: 2500, rate: 0.0175 },
+  { threshold: 3750, rate: 0.0275 },
+  { threshold: 4900, rate: 0.0375 },
+  { threshold: 7200, rate: 0.0475 },
+];
+
+// Brackets apply to AGI; state deductions and exemptions aren't modeled.
+// Separate filers use the single brackets, and a missing joint schedule
+// means joint filers do too.
+export const STATE_TAX_BRACKETS: Record<string, StateTaxSchedule> = {
+  AL: {
+    single: [{ threshold: 0, rate: 0.02 }, { threshold: 500, rate: 0.04 }, { threshold: 3000, rate: 0.05 }],
+    mfj: [{ threshold: 0, rate: 0.02 }, { threshold: 1000, rate: 0.04 }, { threshold: 6000, rate: 0.05 }],
+  },
+  AK: NO_TAX,
+  AZ: { single: flat(0.025) },
+  AR: { single: [{ threshold: 0, rate: 0.02 }, { threshold: 4500, rate: 0.039 }] },
+  CA: {
+    single: CA_SINGLE,
+    mfj: [
+      ...doubled(CA_SINGLE.slice(0, -2)),
+      { threshold: 1000000, rate: 0.123 },
+      { threshold: 1442628, rate: 0.133 },
+    ],
+  },
+  CO: { single: flat(0.044) },
+  CT: { single: CT_SINGLE, mfj: doubled(CT_SINGLE) },
+  DE: {
+    single: [
+      { threshold: 0, rate: 0 },
+      { threshold: 2000, rate: 0.022 },
+      { threshold: 5000, rate: 0.039 },
+      { threshold: 10000, rate: 0.048 },
+      { threshold: 20000, rate: 0.052 },
+      { threshold: 25000, rate: 0.0555 },
+      { threshold: 60000, rate: 0.066 },
+    ],
+  },
+  FL: NO_TAX,
+  GA: { single: flat(0.0539) },
+  HI: { single: HI_SINGLE, mfj: doubled(HI_SINGLE) },
+  ID: { single: flat(0.05695) },
+  IL: { single: flat(0.0495) },
+  IN: { single: flat(0.0305) },
+  IA: {
+    single: [{ threshold: 0, rate: 0.044 }, { threshold: 6210, rate: 0.0482 }, { threshold: 31050, rate: 0.057 }],
+    mfj: [{ threshold: 0, rate: 0.044 }, { threshold: 12420, rate: 0.0482 }, { threshold: 62100, rate: 0.057 }],
+  },
+  KS: {
+    single: [{ threshold: 0, rate: 0.052 }, { threshold: 23000, rate: 0.0558 }],
+    mfj: [{ threshold: 0, rate: 0.052 }, { threshold: 46000, rate: 0.0558 }],
+  },
+  KY: { single: flat(0.04) },
+  LA: {
+    single: [{ threshold: 0, rate: 0.0185 }, { threshold: 12500, rate: 0.035 }, { threshold: 50000, rate: 0.0425 }],
+    mfj: [{ threshold: 0, rate: 0.0185 }, { threshold: 25000, rate: 0.035 }, { threshold: 100000, rate: 0.0425 }],
+  },
+  ME: {
+    single: [{ threshold: 0, rate: 0.058 }, { threshold: 26050, rate: 0.0675 }, { threshold: 61600, rate: 0.0715 }],
+    mfj: [{ threshold: 0, rate: 0.058 }, { threshold: 52100, rate: 0.0675 }, { threshold: 123250, rate: 0.0715 }],
+  },
+  MD: {
+    single: [
+      { threshold: 0, rate: 0.02 },
+      { threshold: 1000, rate: 0.03 },
+      { threshold: 2000, rate: 0.04 },
+      { threshold: 3000, rate: 0.0475 },
+      { threshold: 100000, rate: 0.05 },
+      { threshold: 125000, rate: 0.0525 },
+      { threshold: 150000, rate: 0.055 },
+      { threshold: 250000, rate: 0.0575 },
+    ],
+    mfj: [
+      { threshold: 0, rate: 0.02 },
+      { threshold: 1000, rate: 0.03 },
+      { threshold: 2000, rate: 0.04 },
+      { threshold: 3000, rate: 0.0475 },
+      { threshold: 150000, rate: 0.05 },
+      { threshold: 175000, rate: 0.0525 },
+      { threshold: 225000, rate: 0.055 },
+      { threshold: 300000, rate: 0.0575 },
+    ],
+  },
+  MA: { single: [{ threshold: 0, rate: 0.05 }, { threshold: 1053750, rate: 0.09 }] },
+  MI: { single: flat(0.0425) },
+  MN: {
+    single: [
+      { threshold: 0, rate: 0.0535 },
+      { threshold: 31690, rate: 0.068 },
+      { threshold: 104090, rate: 0.0785 },
+      { threshold: 193240, rate: 0.0985 },
+    ],
+    mfj: [
+      { threshold: 0, rate: 0.0535 },
+      { threshold: 46330, rate: 0.068 },
+      { threshold: 184040, rate: 0.0785 },
+      { threshold: 321450, rate: 0.0985 },
+    ],
+  },
+  MS: { single: [{ threshold: 0, rate: 0 }, { threshold: 10000, rate: 0.047 }] },
+  MO: {
+    single: [
+      { threshold: 0, rate: 0 },
+      { threshold: 1273, rate: 0.02 },
+      { threshold: 2546, rate: 0.025 },
+      { threshold: 3819, rate: 0.03 },
+      { threshold: 5092, rate: 0.035 },
+      { threshold: 6365, rate: 0.04 },
+      { threshold: 7638, rate: 0.045 },
+      { threshold: 8911, rate: 0.048 },
+    ],
+  },
+  MT: {
+    single: [{ threshold: 0, rate: 0.047 }, { threshold: 20500, rate: 0.059 }],
+    mfj: [{ threshold: 0, rate: 0.047 }, { threshold: 41000, rate: 0.059 }],
+  },
+  NE: {
+    single: [
+      { threshold: 0, rate: 0.0246 },
+      { threshold: 3880, rate: 0.0351 },
+      { threshold: 23370, rate: 0.0501 },
+      { threshold: 37670, rate: 0.0584 },
+    ],
+    mfj: [
+      { threshold: 0, rate: 0.0246 },
+      { threshold: 7760, rate: 0.0351 },
+      { threshold: 46750, rate: 0.0501 },
+      { threshold: 75340, rate: 0.0584 },
+    ],
+  },
+  NV: NO_TAX,
+  NH: NO_TAX,   // taxes only interest and dividends
+  NJ: {
+    single: [
+      { threshold: 0, rate: 0.014 },
+      { threshold: 20000, rate: 0.0175 },
+      { threshold: 35000, rate: 0.035 },
+      { threshold: 40000, rate: 0.05525 },
+      { threshold: 75000, rate: 0.0637 },
+      { threshold: 500000, rate: 0.0897 },
+      { threshold: 1000000, rate: 0.1075 },
+    ],
+    mfj: [
+      { threshold: 0, rate: 0.014 },
+      { threshold: 20000, rate: 0.0175 },
+      { threshold: 50000, rate: 0.0245 },
+      { threshold: 70000, rate: 0.035 },
+      { threshold: 80000, rate: 0.05525 },
+      { threshold: 150000, rate: 0.0637 },
+      { threshold: 500000, rate: 0.0897 },
+      { threshold: 1000000, rate: 0.1075 },
+    ],
+  },
+  NM: {
+    single: [
+      { threshold: 0, rate: 0.017 },
+      { threshold: 5500, rate: 0.032 },
+      { threshold: 11000, rate: 0.047 },
+      { threshold: 16000, rate: 0.049 },
+      { threshold: 210000, rate: 0.059 },
+    ],
+    mfj: [
+      { threshold: 0, rate: 0.017 },
+      { threshold: 8000, rate: 0.032 },
+      { threshold: 16000, rate: 0.047 },
+      { threshold: 24000, rate: 0.049 },
+      { threshold: 315000, rate: 0.059 },
+    ],
+  },
+  NY: {
+    single: [
+      { threshold: 0, rate: 0.04 },
+      { threshold: 8500, rate: 0.045 },
+      { threshold: 11700, rate: 0.0525 },
+      { threshold: 13900, rate: 0.055 },
+      { threshold: 80650, rate: 0.06 },
+      { threshold: 215400, rate: 0.0685 },
+      { threshold: 1077550, rate: 0.0965 },
+      { threshold: 5000000, rate: 0.103 },
+      { threshold: 25000000, rate: 0.109 },
+    ],
+    mfj: [
+      { threshold: 0, rate: 0.04 },
+      { threshold: 17150, rate: 0.045 },
+      { threshold: 23600, rate: 0.0525 },
+      { threshold: 27900, rate: 0.055 },
+      { threshold: 161550, rate: 0.06 },
+      { threshold: 323200, rate: 0.0685 },
+      { threshold: 2155350, rate: 0.0965 },
+      { threshold: 5000000, rate: 0.103 },
+      { threshold: 25000000, rate: 0.109 },
+    ],
+  },
+  NC: { single: flat(0.045) },
+  ND: {
+    single: [{ threshold: 0, rate: 0 }, { threshold: 47150, rate: 0.0195 }, { threshold: 238200, rate: 0.025 }],
+    mfj: [{ threshold: 0, rate: 0 }, { threshold: 78775, rate: 0.0195 }, { threshold: 289975, rate: 0.025 }],
+  },
+  OH: { single: [{ threshold: 0, rate: 0 }, { threshold: 26050, rate: 0.0275 }, { threshold: 100000, rate: 0.035 }] },
+  OK: { single: OK_SINGLE, mfj: doubled(OK_SINGLE) },
+  OR: {
+    single: [
+      { threshold: 0, rate: 0.0475 },
+      { threshold: 4300, rate: 0.0675 },
+      { threshold: 10750, rate: 0.0875 },
+      { threshold: 125000, rate: 0.099 },
+    ],
+    mfj: [
+      { threshold: 0, rate: 0.0475 },
+      { threshold: 8600, rate: 0.0675 },
+      { threshold: 21500, rate: 0.0875 },
+      { threshold: 250000, rate: 0.099 },
+    ],
+  },
+  PA: { single: flat(0.0307) },
+  RI: { single: [{ threshold: 0, rate: 0.0375 }, { threshold: 77450, rate: 0.0475 }, { threshold: 176050, rate: 0.0599 }] },
+  SC: { single: [{ threshold: 0, rate: 0 }, { threshold: 3460, rate: 0.03 }, { threshold: 17330, rate: 0.062 }] },
+  SD: NO_TAX,
+  TN: NO_TAX,
+  TX: NO_TAX,
+  UT: { single: flat(0.0455) },
+  VT: {
+    single: [
+      { threshold: 0, rate: 0.0335 },
+      { threshold: 45400, rate: 0.066 },
+      { threshold: 110050, rate: 0.076 },
+      { threshold: 229550, rate: 0.0875 },
+    ],
+    mfj: [
+      { threshold: 0, rate: 0.0335 },
+      { threshold: 75850, rate: 0.066 },
+      { threshold: 183400, rate: 0.076 },
+      { threshold: 279450, rate: 0.0875 },
+    ],
+  },
+  VA: {
+    single: [
+      { threshold: 0, rate: 0.02 },
+      { threshold: 3000, rate: 0.03 },
+      { threshold: 5000, rate: 0.05 },
+      { threshold: 17000, rate: 0.0575 },
+    ],
+  },
+  WA: NO_TAX,   // taxes only capital gains
+  WV: {
+    single: [
+      { threshold: 0, rate: 0.0236 },
+      { threshold: 10000, rate: 0.0315 },
+      { threshold: 25000, rate: 0.0354 },
+      { threshold: 40000, rate: 0.0472 },
+      { threshold: 60000, rate: 0.0512 },
+    ],
+  },
+  WI: {
+    single: [
+      { threshold: 0, rate: 0.035 },
+      { threshold: 14320, rate: 0.044 },
+      { threshold: 28640, rate: 0.053 },
+      { threshold: 315310, rate: 0.0765 },
+    ],
+    mfj: [
+      { threshold: 0, rate: 0.035 },
+      { threshold: 19090, rate: 0.044 },
+      { threshold: 38190, rate: 0.053 },
+      { threshold: 420420, rate: 0.0765 },
+    ],
+  },
+  WY: NO_TAX,
+  DC: {
+    single: [
+      { threshold: 0, rate: 0.04 },
+      { threshold: 10000, rate: 0.06 },
+      { threshold: 40000, rate: 0.065 },
+      { threshold: 60000, rate: 0.085 },
+      { threshold: 250000, rate: 0.0925 },
+      { threshold: 500000, rate: 0.0975 },
+      { threshold: 1000000, rate: 0.1075 },
+    ],
+  },
+};
+
+// Married couples filing separately each report half their community
+// income (most earnings during the marriage) on their returns
+export const COMMUNITY_PROPERTY_STATES = ['AZ', 'CA', 'ID', 'LA', 'NM', 'NV', 'TX', 'WA', 'WI'];
+
+// City income taxes, on top of the state's
+export const LOCAL_TAX_BRACKETS: Record<string, LocalTaxSchedule> = {
+  NYC: {
+    name: 'New York City',
+    state: 'NY',
+    single: [
+      { threshold: 0, rate: 0.03078 },
+      { threshold: 12000, rate: 0.03762 },
+      { threshold: 25000, rate: 0.03819 },
+      { threshold: 50000, rate: 0.03876 },
+    ],
+    mfj: [
+      { threshold: 0, rate: 0.03078 },
+      { threshold: 21600, rate: 0.03762 },
+      { threshold: 45000, rate: 0.03819 },
+      { threshold: 90000, rate: 0.03876 },
+    ],
+  },
+  PHL: {
+    name: 'Philadelphia',
+    state: 'PA',
+    single: flat(0.0375),   // resident wage tax
+  },
+};
+
+// ============================================
+// Pre-Tax Retirement Contributions (2024)
 // ============================================
 
-export const STATE_TAX_RATES: Record<string, number> = {
-  AL: 0.05, AK: 0, AZ: 0.025, AR: 0.047, CA: 0.133,
-  CO: 0.044, CT: 0.0699, DE: 0.066, FL: 0, GA: 0.0549,
-  HI: 0.11, ID: 0.058, IL: 0.0495, IN: 0.0315, IA: 0.06,
-  KS: 0.057, KY: 0.04, LA: 0.0425, ME: 0.0715, MD: 0.0575,
-  MA: 0.09, MI: 0.0425, MN: 0.0985, MS: 0.05, MO: 0.048,
-  MT: 0.059, NE: 0.0584, NV: 0, NH: 0.05, NJ: 0.1075,
-  NM: 0.059, NY: 0.109, NC: 0.0475, ND: 0.0225, OH: 0.035,
-  OK: 0.0475, OR: 0.099, PA: 0.0307, RI: 0.0599, SC: 0.064,
-  SD: 0, TN: 0, TX: 0, UT: 0.0465, VT: 0.0875,
-  VA: 0.0575, WA: 0, WV: 0.055, WI: 0.0765, WY: 0,
-  DC: 0.105,
+// Annual employee limits, before age-based catch-up contributions
+export const PRETAX_CONTRIBUTION_LIMITS: Record<PreTaxAccount, number> = {
+  '403b': 23000,
+  '457b': 23000,          // separate from the 403(b) limit
+  hsa: 4150,              // self-only coverage
+  traditional_ira: 7000,
+};
+
+export const HSA_FAMILY_LIMIT = 8300;
+
+// MAGI over which a 403(b) participant's traditional IRA deduction phases out
+export const IRA_DEDUCTION_PHASEOUT: Record<FilingStatus, { start: number; end: number }> = {
+  single: { start: 77000, end: 87000 },
+  mfj: { start: 123000, end: 143000 },
+  mfs: { start: 0, end: 10000 },
 };
 
 // ============================================
@@ -139,10 +634,85 @@ export const DEFAULTS = {
   inflationRate: 0.025,
   refiRate: 0.055,
   refiTermYears: 10,
+  privateLoanTermYears: 10,  // private loans are repaid over this term once repayment starts
   pslfConfidence: 0.85,
   savePlanAvailable: false,  // Currently enjoined
 };
 
+// Servicers use the most recent tax return, typically last year's
+export const RECERTIFICATION_DEFAULTS = {
+  taxYearLag: 1,
+  recertifyEarlyOnIncomeDrop: true,
+  lateMonths: 0,
+};
+
+// Investing cash a strategy frees up, for the net-worth projection
+export const INVESTMENT_DEFAULTS = {
+  annualReturn: 0.07,
+  account: 'taxable' as InvestmentAccount,
+  taxableReturnTaxRate: 0.15,
+};
+
+// Budget loan payments are checked against: the lesser of a share of
+// take-home pay and what's left after living expenses
+export const AFFORDABILITY_DEFAULTS = {
+  livingExpenses: 40000,
+  maxPaymentShare: 0.25,
+  excludeUnaffordable: false,
+};
+
+// Years at which net worth is reported
+export const NET_WORTH_YEARS = [10, 20, 30];
+
+// Penalty per dollar of NPV spread when ranking strategies, by risk tolerance
+export const RISK_AVERSION: Record<RiskTolerance, number> = {
+  low: 1.0,
+  medium: 0.5,
+  high: 0.1,
+};
+
+// Share of a future tax bomb treated as uncertain (tax law and income can change)
+export const TAX_BOMB_UNCERTAINTY = 0.5;
+
+// Monte Carlo sampling; attending salary is drawn from the specialty's P25-P75.
+// Each sample runs the ranked ledger strategies once (a few milliseconds), so
+// 1000 samples take a few seconds on one core
+export const MONTE_CARLO_DEFAULTS = {
+  samples: 1000,
+  seed: 1,
+  incomeGrowthStdDev: 0.01,
+  refiRateStdDev: 0.01,
+  annualJobChangeRate: 0.05,
+};
+
+// How far each input is moved, one at a time, in the sensitivity report.
+// The states compared depend on where the borrower lives.
+export const SENSITIVITY_RANGES: Omit<SensitivityRanges, 'state'> = {
+  debt: { low: -0.20, high: 0.20 },
+  interestRate: { low: -0.02, high: 0.02 },
+  salary: { low: -0.20, high: 0.20 },
+  discountRate: { low: -0.02, high: 0.02 },
+  trainingYears: { low: -1, high: 1 },
+  familySize: { low: -1, high: 1 },
+  refiRate: { low: -0.02, high: 0.02 },
+};
+
+// Fixed private refinance rates by term; shorter terms price lower
+export const REFI_TERM_RATES: Record<number, number> = {
+  5: 0.050,
+  7: 0.0525,
+  10: 0.055,
+  15: 0.060,
+  20: 0.065,
+};
+
+// Grid the optimizer searches for refinance and aggressive-payoff exits
+export const OPTIMIZER_DEFAULTS = {
+  exitYears: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10],
+  refiTerms: [5, 7, 10, 15, 20],
+  payoffYears: [2, 3, 5, 7],
+};
+
 // ============================================
 // PSLF Constants
 // ============================================
@@ -151,4 +721,5 @@ export const PSLF = {
   requiredPayments: 120,
   taxableForgiveness: false,
   requiresFullTime: true,  // 30+ hours/week
+  eligibleLoanTypes: DIRECT_LOAN_TYPES,
 };
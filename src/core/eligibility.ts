@@ -0,0 +1,189 @@
+import type { Loan, UserInputs, PlanEligibility } from './types.js';
+
+import { IDR_PLANS, PSLF } from './constants.js';
+import { calculateIDRPayment, calculate10YearStandardPayment } from './calculations.js';
+import { getFederalLoans, summarizeLoans } from './portfolio.js';
+import { checkPlanAvailability, getAnalysisDate } from './availability.js';
+import { splitsCommunityIncome } from './tax.js';
+
+// ============================================
+// Plan Eligibility
+// ============================================
+
+/**
+ * Date the borrower first took out a federal loan: the recorded date if
+ * known, otherwise the earliest disbursement in the portfolio.
+ */
+export function getFirstBorrowedDate(inputs: UserInputs): string | undefined {
+  if (inputs.loans.firstBorrowedDate) return inputs.loans.firstBorrowedDate;
+  
+  const dates = getFederalLoans(inputs.loans)
+    .map(loan => loan.disbursementDate)
+    .filter((date): date is string => Boolean(date))
+    .sort();
+  
+  return dates[0];
+}
+
+function isParentPlus(loan: Loan): boolean {
+  return loan.type === 'parent_plus' || (loan.consolidatedTypes ?? []).includes('parent_plus');
+}
+
+interface LoanSubject {
+  subject: string;
+  plural: boolean;
+}
+
+/**
+ * Sentence subject for a reason about one loan. A blended balance speaks
+ * for all of the borrower's loans.
+ */
+function describeLoan(loan: Loan, kind: string = ''): LoanSubject {
+  if (loan.id === 'blended') return { subject: `Your ${kind}loans`, plural: true };
+  const subject = `${kind}loan ${loan.id} (${loan.type})`;
+  return { subject: subject.charAt(0).toUpperCase() + subject.slice(1), plural: false };
+}
+
+function qualifies({ plural }: LoanSubject): string {
+  return plural ? 'qualify' : 'qualifies';
+}
+
+/**
+ * Reason a single loan can't be repaid under a plan, or null if it can.
+ */
+function getLoanIneligibility(loan: Loan, planName: string): string | null {
+  const rules = IDR_PLANS[planName]?.eligibility;
+  if (!rules) return null;
+  
+  if (loan.type === 'parent_plus') {
+    const described = describeLoan(loan, 'Parent PLUS ');
+    return `${described.subject} must be consolidated, and then only ${qualifies(described)} for ICR`;
+  }
+  
+  if (isParentPlus(loan) && !rules.allowsConsolidatedParentPlus) {
+    const described = describeLoan(loan, 'consolidated Parent PLUS ');
+    return `${described.subject} only ${qualifies(described)} for ICR`;
+  }
+  
+  if (!rules.loanTypes.includes(loan.type)) {
+    const described = describeLoan(loan);
+    return `${described.subject} ${described.plural ? 'are' : 'is'} not eligible for ${planName}` +
+      (loan.type === 'ffel' || loan.type === 'perkins' ? ' without Direct Consolidation' : '');
+  }
+  
+  return null;
+}
+
+/**
+ * Whether the borrower's calculated IDR payment is below the 10-year
+ * standard payment, which PAYE (and IBR, before the 2025 law) required
+ * at entry.
+ */
+export function hasPartialFinancialHardship(inputs: UserInputs, planName: string): boolean {
+  const plan = IDR_PLANS[planName];
+  const portfolio = summarizeLoans(getFederalLoans(inputs.loans));
+  
+  const idrPayment = calculateIDRPayment(
+    plan,
+    inputs.personal.agi,
+    inputs.personal.familySize,
+    inputs.personal.spouseAgi,
+    inputs.personal.filingStatus,
+    0,
+    splitsCommunityIncome(inputs.personal)
+  );
+  const standardPayment = calculate10YearStandardPayment(
+    portfolio.totalBalance,
+    portfolio.weightedInterestRate
+  );
+  
+  return idrPayment < standardPayment;
+}
+
+/**
+ * Decide whether the borrower can enroll in an IDR plan, based on the plan's
+ * effective dates, loan types, borrowing history and (where required)
+ * partial financial hardship. Borrowing-history rules are skipped when no
+ * dates are known. Only federal loans are checked; private loans are repaid
+ * outside the plan.
+ */
+export function checkPlanEligibility(inputs: UserInputs, planName: string): PlanEligibility {
+  const asOfDate = getAnalysisDate(inputs.preferences);
+  const loans = getFederalLoans(inputs.loans);
+  const reasons: string[] = [];
+  
+  if (loans.length === 0) {
+    reasons.push(`${planName} only repays federal loans, and all of yours are private`);
+    return { planName, eligible: false, reasons };
+  }
+  
+  const availability = checkPlanAvailability(planName, asOfDate, loans);
+  if (!availability.available) {
+    reasons.push(availability.reason!);
+  }
+  
+  const rules = IDR_PLANS[planName]?.eligibility;
+  if (availability.available && rules) {
+    for (const loan of loans) {
+      const reason = getLoanIneligibility(loan, planName);
+      if (reason) reasons.push(reason);
+    }
+    
+    const firstBorrowed = getFirstBorrowedDate(inputs);
+    if (firstBorrowed && rules.newBorrowerOn && firstBorrowed < rules.newBorrowerOn) {
+      reasons.push(`${planName} requires no outstanding federal loans before ${rules.newBorrowerOn}`);
+    }
+    if (rules.existingBorrowerOn && (!firstBorrowed || firstBorrowed >= rules.existingBorrowerOn)) {
+      reasons.push(`${planName} is only for borrowers with loans before ${rules.existingBorrowerOn}`);
+    }
+    
+    if (rules.disbursementOnOrAfter) {
+      const dated = loans.filter(loan => loan.disbursementDate);
+      if (dated.length > 0 && !dated.some(loan => loan.disbursementDate! >= rules.disbursementOnOrAfter!)) {
+        reasons.push(`${planName} requires a Direct Loan disbursed on or after ${rules.disbursementOnOrAfter}`);
+      }
+    }
+    
+    const hardshipRequired = rules.partialFinancialHardship &&
+      !(rules.hardshipRequirementRepealedOn && asOfDate >= rules.hardshipRequirementRepealedOn);
+    if (hardshipRequired && !hasPartialFinancialHardship(inputs, planName)) {
+      reasons.push(`${planName} entry requires a partial financial hardship (payment below the 10-year standard)`);
+    }
+  }
+  
+  return { planName, eligible: reasons.length === 0, reasons };
+}
+
+/**
+ * PSLF requires a qualifying employer and Direct Loans. FFEL and Perkins
+ * loans only qualify after Direct Consolidation. Private loans are never
+ * forgiven, but don't stop the federal loans from qualifying.
+ */
+export function checkPSLFEligibility(inputs: UserInputs): PlanEligibility {
+  const reasons: string[] = [];
+  const loans = getFederalLoans(inputs.loans);
+  
+  if (!inputs.personal.pslfEligibleEmployer) {
+    reasons.push('PSLF requires full-time employment at a qualifying employer');
+  }
+  
+  if (loans.length === 0) {
+    reasons.push('PSLF only forgives federal loans, and all of yours are private');
+  }
+  
+  for (const loan of loans) {
+    if (!PSLF.eligibleLoanTypes.includes(loan.type)) {
+      const described = describeLoan(loan);
+      reasons.push(`${described.subject} only ${qualifies(described)} for PSLF after Direct Consolidation`);
+    }
+  }
+  
+  return { planName: 'PSLF', eligible: reasons.length === 0, reasons };
+}
+
+/**
+ * Eligibility for each plan in the list.
+ */
+export function evaluatePlanEligibility(inputs: UserInputs, planNames: string[]): PlanEligibility[] {
+  return planNames.map(planName => checkPlanEligibility(inputs, planName));
+}
@@ -0,0 +1,144 @@
+import type {
+  UserInputs,
+  StrategyResult,
+  IncomeProjection,
+  FilingStatus,
+  FilingComparison,
+  FilingScheduleResult,
+} from './types.js';
+
+import { IDR_PLANS } from './constants.js';
+import { projectIncome, compareFilingStatus, getSpouseIncome } from './calculations.js';
+import { getFederalLoans, summarizeLoans } from './portfolio.js';
+import { getAnnualPayments } from './ledger.js';
+import { calculatePSLFStrategy, calculateIDRStrategy } from './strategies.js';
+import { isCommunityPropertyState } from './tax.js';
+import { getAnalysisDate } from './availability.js';
+
+// ============================================
+// Filing Status by Year
+//
+// Filing separately lowers IDR payments when the spouse earns well, at the
+// cost of more tax. Which side wins changes over the horizon: MFS often
+// pays during PSLF years, and MFJ once the loans are gone. Each year's
+// status is chosen to minimize the strategy's risk-adjusted NPV plus the
+// present value of the tax paid above filing jointly, with both spouses'
+// incomes projected forward. A return only changes the payments based on
+// it, which under the recertification lag come a year or more after the
+// tax is paid; returns no payment uses are filed for the least tax.
+// ============================================
+
+// Passes over the repayment years when improving the schedule one year at a time
+const MAX_PASSES = 3;
+
+/**
+ * MFJ vs MFS in each projection year under a plan, from both spouses'
+ * projected incomes.
+ */
+export function compareFilingStatusByYear(
+  inputs: UserInputs,
+  planName: string,
+  incomeProjection: IncomeProjection[]
+): FilingComparison[] {
+  const { familySize, state, itemizedDeductions, alternativeDocumentation } = inputs.personal;
+  const plan = IDR_PLANS[planName];
+  const portfolio = summarizeLoans(getFederalLoans(inputs.loans));
+
+  return incomeProjection.map((year, i) => compareFilingStatus(
+    year.income,
+    getSpouseIncome(inputs.personal, i),
+    familySize,
+    plan,
+    portfolio.totalBalance,
+    portfolio.weightedInterestRate,
+    itemizedDeductions,
+    isCommunityPropertyState(state),
+    alternativeDocumentation,
+    i
+  ));
+}
+
+function presentValue(amounts: number[], discountRate: number): number {
+  return amounts.reduce((total, amount, i) => total + amount / Math.pow(1 + discountRate, i + 1), 0);
+}
+
+/**
+ * Filing status for each projection year of a PSLF or IDR strategy. Starts
+ * from the better of filing jointly throughout, separately throughout, and
+ * each year's own cheaper status, then flips the status of single returns
+ * that payments are based on while that lowers the total. Returns no
+ * payment uses, such as those after the loans are gone, take the status
+ * with less tax. Undefined for borrowers who aren't married with a
+ * working spouse, and for strategies without an IDR plan.
+ */
+export function optimizeFilingStatus(
+  inputs: UserInputs,
+  strategy: StrategyResult
+): FilingScheduleResult | undefined {
+  const { filingStatus, spouseAgi } = inputs.personal;
+  const planName = strategy.planName;
+  if (filingStatus === 'single' || spouseAgi <= 0 || !planName) return undefined;
+
+  const pslf = strategy.strategyName === 'PSLF';
+  const firstTaxYear = Number(getAnalysisDate(inputs.preferences).slice(0, 4));
+  const discountRate = inputs.preferences.discountRate;
+  const incomeProjection = projectIncome(inputs.career, 30);
+  const comparisons = compareFilingStatusByYear(inputs, planName, incomeProjection);
+  const extraTax = (year: number, status: FilingStatus): number =>
+    status === 'mfs' ? comparisons[year].mfs.totalTax - comparisons[year].mfj.totalTax : 0;
+  // Returns no payment uses: less tax, with ties (to the rounded dollar) going to filing jointly
+  const taxPreferred = comparisons.map((c): FilingStatus => (c.mfs.totalTax < c.mfj.totalTax - 1 ? 'mfs' : 'mfj'));
+
+  const evaluate = (statuses: FilingStatus[]) => {
+    const personal = { ...inputs.personal, filingStatusByYear: statuses };
+    const result = pslf
+      ? calculatePSLFStrategy({ ...inputs, personal }, incomeProjection, planName)
+      : calculateIDRStrategy({ ...inputs, personal }, incomeProjection, planName);
+    // Projection years whose returns set at least one payment
+    const paymentReturns = [...new Set(result.monthlySchedule
+      .filter(month => month.agiTaxYear !== undefined)
+      .map(month => month.agiTaxYear! - firstTaxYear))]
+      .filter(year => year >= 0 && year < statuses.length)
+      .sort((a, b) => a - b);
+    const schedule = statuses.map((status, year) => (paymentReturns.includes(year) ? status : taxPreferred[year]));
+    const cost = result.riskAdjustedNpv + presentValue(schedule.map((status, year) => extraTax(year, status)), discountRate);
+    return { result, schedule, paymentReturns, cost };
+  };
+
+  const jointly = evaluate(comparisons.map(() => 'mfj'));
+  const separately = evaluate(comparisons.map(() => 'mfs'));
+  const yearByYear = evaluate(comparisons.map(c => c.recommendation));
+  let best = [jointly, separately, yearByYear].reduce((a, b) => (b.cost < a.cost ? b : a));
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    let improved = false;
+    for (const year of best.paymentReturns) {
+      const flipped = [...best.schedule];
+      flipped[year] = flipped[year] === 'mfs' ? 'mfj' : 'mfs';
+      const candidate = evaluate(flipped);
+      if (candidate.cost < best.cost - 1) {
+        best = candidate;
+        improved = true;
+      }
+    }
+    if (!improved) break;
+  }
+
+  const loanPayments = getAnnualPayments(best.result.monthlySchedule);
+  return {
+    strategyName: strategy.strategyName,
+    planName,
+    filingStatusByYear: best.schedule,
+    years: best.schedule.map((status, year) => ({
+      year: year + 1,
+      borrowerIncome: incomeProjection[year].income,
+      spouseIncome: getSpouseIncome(inputs.personal, year),
+      filingStatus: status,
+      loanPayments: loanPayments[year] ?? 0,
+      extraTax: extraTax(year, status),
+    })),
+    npv: Math.round(best.cost),
+    savingsVsJoint: Math.round(jointly.cost - best.cost),
+    savingsVsSeparate: Math.round(separately.cost - best.cost),
+  };
+}
@@ -0,0 +1,141 @@
+import type {
+  TaxBracket,
+  Preferences,
+  DollarMode,
+  StrategyResult,
+  MonthlyLedgerEntry,
+} from './types.js';
+
+import { DEFAULTS } from './constants.js';
+
+// ============================================
+// Inflation Indexing
+//
+// Tax brackets, deductions, the poverty line and contribution limits are
+// published each year and rise with inflation, as incomes do. The figures
+// in constants.ts are this year's; in each later projection year they are
+// indexed by DEFAULTS.inflationRate. Amounts fixed in law (the child tax
+// credit and its phase-out, the additional Medicare threshold, RAP's income
+// tiers) stay as they are.
+//
+// Results are reported in nominal dollars, as paid, or in today's dollars,
+// with each projection year's amounts deflated back to the first year.
+// ============================================
+
+/**
+ * Growth in prices from the first projection year to `year` (0-based).
+ */
+export function getInflationFactor(year: number): number {
+  return Math.pow(1 + DEFAULTS.inflationRate, Math.max(0, year));
+}
+
+/**
+ * This year's figure, indexed to a projection year.
+ */
+export function indexToYear(amount: number, year: number): number {
+  return amount * getInflationFactor(year);
+}
+
+/**
+ * Tax brackets with their thresholds indexed to a projection year.
+ */
+export function indexBrackets(brackets: TaxBracket[], year: number): TaxBracket[] {
+  if (year <= 0) return brackets;
+  const factor = getInflationFactor(year);
+  return brackets.map(bracket => ({ ...bracket, threshold: bracket.threshold * factor }));
+}
+
+/**
+ * An amount from a projection year in today's dollars.
+ */
+export function toTodaysDollars(amount: number, year: number): number {
+  return amount / getInflationFactor(year);
+}
+
+export function getDollarMode(preferences: Preferences): DollarMode {
+  return preferences.dollars ?? 'nominal';
+}
+
+// ============================================
+// Real-Dollar Reporting
+// ============================================
+
+function findPaymentYear(schedule: MonthlyLedgerEntry[], payment: number): number {
+  const entry = schedule.find(month => Math.round(month.scheduledPayment) === payment);
+  return entry ? entry.year - 1 : 0;
+}
+
+/**
+ * A result with its reported amounts in today's dollars: total payments,
+ * forgiveness and its tax, the payment range, the yearly breakdown, net
+ * worth and the sinking fund. NPVs are present values already and don't
+ * change, nor do the spread and utility cost results were ranked by; the
+ * monthly ledger stays in the nominal amounts billed.
+ */
+export function toRealDollars(result: StrategyResult): StrategyResult {
+  const real = (amount: number, year: number): number => Math.round(toTodaysDollars(amount, year));
+  // Forgiveness and its tax come when the strategy ends, the horizon they're discounted over
+  const endYear = result.totalMonths / 12;
+  const { min, max } = result.monthlyPaymentRange;
+
+  let cumulativePayments = 0;
+  const yearlyBreakdown = result.yearlyBreakdown.map(state => {
+    const year = state.year - 1;
+    cumulativePayments += toTodaysDollars(state.paymentsMade, year);
+    return {
+      ...state,
+      startingBalance: real(state.startingBalance, year),
+      interestAccrued: real(state.interestAccrued, year),
+      capitalizedInterest: real(state.capitalizedInterest, year),
+      paymentsMade: real(state.paymentsMade, year),
+      endingPrincipal: real(state.endingPrincipal, year),
+      endingInterest: real(state.endingInterest, year),
+      endingBalance: real(state.endingBalance, year),
+      interestSubsidized: real(state.interestSubsidized, year),
+      principalMatched: real(state.principalMatched, year),
+      cumulativePayments: Math.round(cumulativePayments),
+    };
+  });
+
+  const sinkingFund = result.sinkingFund && {
+    ...result.sinkingFund,
+    taxOnForgiveness: real(result.sinkingFund.taxOnForgiveness, endYear),
+    years: result.sinkingFund.years.map(year => ({
+      ...year,
+      loanPayments: real(year.loanPayments, year.year - 1),
+      contributions: real(year.contributions, year.year - 1),
+      cashOutflow: real(year.cashOutflow, year.year - 1),
+      fundBalance: real(year.fundBalance, year.year - 1),
+      liability: real(year.liability, endYear),
+    })),
+  };
+
+  return {
+    ...result,
+    totalPayments: Math.round(result.monthlySchedule.reduce(
+      (total, month) => total + toTodaysDollars(month.paymentMade, month.year - 1), 0
+    )),
+    forgivenessAmount: real(result.forgivenessAmount, endYear),
+    taxOnForgiveness: real(result.taxOnForgiveness, endYear),
+    monthlyPaymentRange: {
+      min: real(min, findPaymentYear(result.monthlySchedule, min)),
+      max: real(max, findPaymentYear(result.monthlySchedule, max)),
+    },
+    yearlyBreakdown,
+    netWorth: result.netWorth?.map(point => ({
+      year: point.year,
+      investments: real(point.investments, point.year - 1),
+      liabilities: real(point.liabilities, point.year - 1),
+      netWorth: real(point.netWorth, point.year - 1),
+    })),
+    ...(sinkingFund ? { sinkingFund } : {}),
+  };
+}
+
+/**
+ * Results in the borrower's reporting mode: unchanged for nominal dollars,
+ * deflated to today's dollars for real.
+ */
+export function withDollarMode(results: StrategyResult[], preferences: Preferences): StrategyResult[] {
+  return getDollarMode(preferences) === 'real' ? results.map(toRealDollars) : results;
+}
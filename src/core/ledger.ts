@@ -0,0 +1,341 @@
+import type {
+  Loan,
+  IDRPlanParams,
+  CapitalizationEvent,
+  YearlyLoanState,
+  MonthlyLedgerEntry,
+  LoanOutcome,
+  LedgerResult,
+} from './types.js';
+
+import { CAPITALIZATION_TRIGGERS, SUBSIDIZED_LOAN_TYPES } from './constants.js';
+import { allocatePayment, reducePrincipal, getLoanTotal, summarizeLoans } from './portfolio.js';
+
+// ============================================
+// Monthly Ledger Engine
+//
+// Every strategy runs on this engine. Each month is processed in the same
+// order everywhere:
+//   1. capitalize outstanding interest (if the month has a capitalization event)
+//   2. accrue simple interest on principal
+//   3. apply the payment (interest first, then highest-rate principal)
+//   4. apply plan interest subsidies to interest the payment didn't cover
+//   5. apply plan principal subsidies (RAP's matched principal)
+// ============================================
+
+export interface LedgerStep {
+  payment: number;              // scheduled payment for the month
+  plan?: IDRPlanParams;         // plan whose subsidy rules apply (omit for private loans)
+  capitalize?: CapitalizationEvent;  // event that capitalizes outstanding interest before accruing
+  qualifying?: boolean;         // counts toward PSLF/IDR forgiveness (default true)
+  deferment?: boolean;          // in school, grace or deferment: subsidized loans don't accrue
+  stop?: boolean;               // end the run before this month
+  agiTaxYear?: number;          // tax year the payment's income came from, for the timeline
+}
+
+export interface LedgerMonthContext {
+  month: number;                // 0-based month of the schedule
+  year: number;                 // 0-based projection year
+  loans: readonly Loan[];
+  balance: number;
+  qualifyingPayments: number;
+}
+
+export type LedgerScheduler = (context: LedgerMonthContext) => LedgerStep;
+
+export interface LedgerOptions {
+  capitalizationTriggers?: CapitalizationEvent[];  // defaults to CAPITALIZATION_TRIGGERS
+}
+
+const PAID_OFF_THRESHOLD = 0.005;
+
+/**
+ * Run the ledger for up to `months` months, stopping early once the loans
+ * are paid off or the schedule asks to stop. The input loans are not modified.
+ *
+ * Capitalization events only capitalize if they are in the trigger set.
+ * When the plan the borrower was in caps capitalization (PAYE), interest
+ * capitalized since entering that plan is limited to a share of the
+ * principal at entry; the rest stays as outstanding interest.
+ */
+export function runLedger(
+  loans: Loan[],
+  months: number,
+  schedule: LedgerScheduler,
+  options: LedgerOptions = {}
+): LedgerResult {
+  const triggers = options.capitalizationTriggers ?? CAPITALIZATION_TRIGGERS;
+  const working: Loan[] = loans.map(loan => ({ ...loan }));
+  const interestByLoan = working.map(() => 0);
+  const paidByLoan = working.map(() => 0);
+  const monthlySchedule: MonthlyLedgerEntry[] = [];
+  let qualifyingPayments = 0;
+  let totalPayments = 0;
+
+  // Plan the borrower is currently in, for capitalization caps
+  let currentPlan: IDRPlanParams | undefined;
+  let entryPrincipal = working.map(loan => loan.balance);
+  let capitalizedInPlan = working.map(() => 0);
+
+  for (let month = 0; month < months; month++) {
+    const startingBalance = summarizeLoans(working).totalBalance;
+    if (startingBalance <= PAID_OFF_THRESHOLD) break;
+
+    const step = schedule({
+      month,
+      year: Math.floor(month / 12),
+      loans: working,
+      balance: startingBalance,
+      qualifyingPayments,
+    });
+    if (step.stop) break;
+
+    // 1. Capitalization
+    let capitalizedInterest = 0;
+    if (step.capitalize && triggers.includes(step.capitalize)) {
+      const cap = currentPlan?.capitalizationCap;
+      working.forEach((loan, i) => {
+        const amount = cap === undefined
+          ? loan.outstandingInterest
+          : Math.min(loan.outstandingInterest, Math.max(0, cap * entryPrincipal[i] - capitalizedInPlan[i]));
+        capitalizedInPlan[i] += amount;
+        capitalizedInterest += amount;
+        loan.balance += amount;
+        loan.outstandingInterest -= amount;
+      });
+    }
+
+    if (step.plan !== currentPlan) {
+      currentPlan = step.plan;
+      entryPrincipal = working.map(loan => loan.balance);
+      capitalizedInPlan = working.map(() => 0);
+    }
+
+    // 2. Interest accrual (simple interest on principal)
+    const accrued = working.map(loan =>
+      step.deferment && SUBSIDIZED_LOAN_TYPES.includes(loan.type) ? 0 : loan.balance * (loan.interestRate / 12)
+    );
+    const interestAccrued = accrued.reduce((a, b) => a + b, 0);
+    working.forEach((loan, i) => {
+      loan.outstandingInterest += accrued[i];
+      interestByLoan[i] += accrued[i];
+    });
+
+    const principalBefore = working.reduce((sum, loan) => sum + loan.balance, 0);
+
+    // 3. Payment
+    const before = working.map(getLoanTotal);
+    const paymentMade = allocatePayment(working, Math.max(0, step.payment));
+    working.forEach((loan, i) => {
+      paidByLoan[i] += before[i] - getLoanTotal(loan);
+    });
+
+    // 4. Subsidy: interest this month's payment didn't cover is waived
+    let interestSubsidized = 0;
+    if (step.plan?.interestSubsidy) {
+      const unpaidInterest = working.reduce((sum, loan) => sum + loan.outstandingInterest, 0);
+      interestSubsidized = Math.min(unpaidInterest, Math.max(0, interestAccrued - paymentMade));
+      if (interestSubsidized > 0) {
+        const waivedShare = interestSubsidized / unpaidInterest;
+        for (const loan of working) {
+          loan.outstandingInterest -= loan.outstandingInterest * waivedShare;
+        }
+      }
+    }
+
+    const principalPaid = principalBefore - working.reduce((sum, loan) => sum + loan.balance, 0);
+
+    // 5. Principal match: top up principal reduction to the plan minimum
+    let principalMatched = 0;
+    const principalMatch = step.plan?.principalMatchMonthly ?? 0;
+    if (principalMatch > 0 && paymentMade > 0) {
+      const shortfall = Math.min(principalMatch, paymentMade) - principalPaid;
+      if (shortfall > 0) {
+        principalMatched = reducePrincipal(working, shortfall);
+      }
+    }
+
+    const qualifying = step.qualifying !== false;
+    if (qualifying) qualifyingPayments++;
+    totalPayments += paymentMade;
+
+    const summary = summarizeLoans(working);
+    monthlySchedule.push({
+      month: month + 1,
+      year: Math.floor(month / 12) + 1,
+      startingBalance: startingBalance,
+      capitalizedInterest,
+      interestAccrued,
+      interestSubsidized,
+      principalMatched,
+      scheduledPayment: step.payment,
+      paymentMade,
+      principalPaid,
+      endingPrincipal: summary.principal,
+      endingInterest: summary.outstandingInterest,
+      endingBalance: summary.totalBalance,
+      qualifying,
+      qualifyingPayments,
+      agiTaxYear: step.agiTaxYear,
+    });
+  }
+
+  const loanBreakdown: LoanOutcome[] = loans.map((loan, i) => ({
+    id: loan.id,
+    type: loan.type,
+    interestRate: loan.interestRate,
+    startingBalance: Math.round(getLoanTotal(loan)),
+    interestAccrued: Math.round(interestByLoan[i]),
+    paymentsApplied: Math.round(paidByLoan[i]),
+    endingBalance: Math.round(getLoanTotal(working[i])),
+  }));
+
+  const endingBalance = summarizeLoans(working).totalBalance;
+
+  return {
+    monthlySchedule,
+    yearlyBreakdown: summarizeByYear(monthlySchedule),
+    loanBreakdown,
+    finalLoans: working,
+    monthsElapsed: monthlySchedule.length,
+    qualifyingPayments,
+    totalPayments,
+    endingBalance: endingBalance <= PAID_OFF_THRESHOLD ? 0 : endingBalance,
+  };
+}
+
+/**
+ * Roll a monthly schedule up into yearly states. A final partial year is
+ * reported as its own entry covering only the months that were run.
+ */
+export function summarizeByYear(monthlySchedule: MonthlyLedgerEntry[]): YearlyLoanState[] {
+  const states: YearlyLoanState[] = [];
+  let cumulativePayments = 0;
+
+  for (let start = 0; start < monthlySchedule.length; start += 12) {
+    const months = monthlySchedule.slice(start, start + 12);
+    const paymentsMade = months.reduce((sum, m) => sum + m.paymentMade, 0);
+    const lastMonth = months[months.length - 1];
+    cumulativePayments += paymentsMade;
+
+    states.push({
+      year: months[0].year,
+      startingBalance: Math.round(months[0].startingBalance),
+      interestAccrued: Math.round(months.reduce((sum, m) => sum + m.interestAccrued, 0)),
+      capitalizedInterest: Math.round(months.reduce((sum, m) => sum + m.capitalizedInterest, 0)),
+      paymentsMade: Math.round(paymentsMade),
+      endingPrincipal: Math.round(lastMonth.endingPrincipal),
+      endingInterest: Math.round(lastMonth.endingInterest),
+      endingBalance: Math.round(lastMonth.endingBalance),
+      interestSubsidized: Math.round(months.reduce((sum, m) => sum + m.interestSubsidized, 0)),
+      principalMatched: Math.round(months.reduce((sum, m) => sum + m.principalMatched, 0)),
+      cumulativePayments: Math.round(cumulativePayments),
+    });
+  }
+
+  return states;
+}
+
+/**
+ * Annual cash flows from a monthly schedule, for NPV calculations.
+ */
+export function getAnnualPayments(monthlySchedule: MonthlyLedgerEntry[]): number[] {
+  const annual: number[] = [];
+  for (const entry of monthlySchedule) {
+    annual[entry.year - 1] = (annual[entry.year - 1] || 0) + entry.paymentMade;
+  }
+  return annual.map(amount => Math.round(amount || 0));
+}
+
+/**
+ * Join a ledger run onto the end of an earlier one, as when a borrower
+ * refinances after a deferment phase. Months, years and qualifying-payment
+ * counts of the second run continue from the first; loans that appear in
+ * both runs are merged in the loan breakdown.
+ */
+export function combineLedgers(first: LedgerResult, second: LedgerResult): LedgerResult {
+  const monthlySchedule = [
+    ...first.monthlySchedule,
+    ...second.monthlySchedule.map(entry => {
+      const month = entry.month + first.monthsElapsed;
+      return {
+        ...entry,
+        month,
+        year: Math.floor((month - 1) / 12) + 1,
+        qualifyingPayments: entry.qualifyingPayments + first.qualifyingPayments,
+      };
+    }),
+  ];
+
+  const loanBreakdown: LoanOutcome[] = first.loanBreakdown.map(outcome => {
+    const later = second.loanBreakdown.find(o => o.id === outcome.id);
+    if (!later) return outcome;
+    return {
+      ...outcome,
+      interestAccrued: outcome.interestAccrued + later.interestAccrued,
+      paymentsApplied: outcome.paymentsApplied + later.paymentsApplied,
+      endingBalance: later.endingBalance,
+    };
+  });
+  for (const outcome of second.loanBreakdown) {
+    if (!loanBreakdown.some(o => o.id === outcome.id)) loanBreakdown.push(outcome);
+  }
+
+  return {
+    monthlySchedule,
+    yearlyBreakdown: summarizeByYear(monthlySchedule),
+    loanBreakdown,
+    finalLoans: second.finalLoans,
+    monthsElapsed: first.monthsElapsed + second.monthsElapsed,
+    qualifyingPayments: first.qualifyingPayments + second.qualifyingPayments,
+    totalPayments: first.totalPayments + second.totalPayments,
+    endingBalance: second.endingBalance,
+  };
+}
+
+/**
+ * Put two ledger runs side by side, as when private loans are repaid
+ * alongside the federal ones. Each month's amounts are added together;
+ * qualifying payments and tax years come from the first run, and a run
+ * that has ended owes nothing in the months after.
+ */
+export function mergeLedgers(first: LedgerResult, second: LedgerResult): LedgerResult {
+  const months = Math.max(first.monthsElapsed, second.monthsElapsed);
+  const monthlySchedule: MonthlyLedgerEntry[] = [];
+
+  for (let i = 0; i < months; i++) {
+    const a = first.monthlySchedule[i];
+    const b = second.monthlySchedule[i];
+    if (!b) {
+      monthlySchedule.push(a);
+    } else if (!a) {
+      monthlySchedule.push({ ...b, qualifying: false, qualifyingPayments: first.qualifyingPayments, agiTaxYear: undefined });
+    } else {
+      monthlySchedule.push({
+        ...a,
+        startingBalance: a.startingBalance + b.startingBalance,
+        capitalizedInterest: a.capitalizedInterest + b.capitalizedInterest,
+        interestAccrued: a.interestAccrued + b.interestAccrued,
+        interestSubsidized: a.interestSubsidized + b.interestSubsidized,
+        principalMatched: a.principalMatched + b.principalMatched,
+        scheduledPayment: a.scheduledPayment + b.scheduledPayment,
+        paymentMade: a.paymentMade + b.paymentMade,
+        principalPaid: a.principalPaid + b.principalPaid,
+        endingPrincipal: a.endingPrincipal + b.endingPrincipal,
+        endingInterest: a.endingInterest + b.endingInterest,
+        endingBalance: a.endingBalance + b.endingBalance,
+      });
+    }
+  }
+
+  return {
+    monthlySchedule,
+    yearlyBreakdown: summarizeByYear(monthlySchedule),
+    loanBreakdown: [...first.loanBreakdown, ...second.loanBreakdown],
+    finalLoans: [...first.finalLoans, ...second.finalLoans],
+    monthsElapsed: months,
+    qualifyingPayments: first.qualifyingPayments,
+    totalPayments: first.totalPayments + second.totalPayments,
+    endingBalance: first.endingBalance + second.endingBalance,
+  };
+}
@@ -0,0 +1,203 @@
+import type {
+  UserInputs,
+  StrategyResult,
+  MonteCarloOptions,
+  MonteCarloResult,
+  MonteCarloStrategyOutcome,
+  NPVPercentiles,
+} from './types.js';
+
+import { DEFAULTS, MONTE_CARLO_DEFAULTS, PSLF } from './constants.js';
+import { getSpecialty } from './specialties.js';
+import { projectIncome } from './calculations.js';
+import { calculateStrategies } from './strategies.js';
+
+// ============================================
+// Monte Carlo Simulation
+//
+// Each path draws an attending salary, an income growth rate, a refinance
+// rate environment, whether PSLF survives and whether the borrower leaves
+// PSLF-eligible employment, then runs each strategy on the ledger. Paths
+// skip the reports the full comparison adds (affordability, net worth, the
+// sinking fund, retirement impact), which ranking by NPV doesn't need. If PSLF
+// ends or the borrower changes jobs before forgiveness, the PSLF strategy
+// costs what its fallback path costs from that year on.
+// ============================================
+
+export type RandomSource = () => number;
+
+/**
+ * Seeded uniform random numbers in [0, 1) (mulberry32), so simulations can
+ * be reproduced.
+ */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal draw (Box-Muller).
+ */
+function sampleNormal(random: RandomSource): number {
+  const u = 1 - random();  // (0, 1], keeps log finite
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+/**
+ * Triangular draw between `min` and `max`, peaking at `mode`.
+ */
+function sampleTriangular(random: RandomSource, min: number, mode: number, max: number): number {
+  if (max <= min) return mode;
+  const u = random();
+  const split = (mode - min) / (max - min);
+  return u < split
+    ? min + Math.sqrt(u * (max - min) * (mode - min))
+    : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+}
+
+/**
+ * Attending salary for one path, between the specialty's 25th and 75th
+ * percentiles and peaking at the median. An expected salary the user entered
+ * moves the whole range proportionally.
+ */
+function sampleAttendingSalary(inputs: UserInputs, random: RandomSource): number {
+  const specialty = getSpecialty(inputs.career.specialty);
+  const scale = inputs.career.expectedAttendingSalary
+    ? inputs.career.expectedAttendingSalary / specialty.medianAttendingSalary
+    : 1;
+
+  return Math.round(scale * sampleTriangular(
+    random,
+    specialty.salaryP25,
+    specialty.medianAttendingSalary,
+    specialty.salaryP75
+  ));
+}
+
+/**
+ * First year PSLF stops working for this path: the program ends (with
+ * probability 1 - pslfConfidence, in a uniformly drawn year) or the borrower
+ * leaves eligible employment. Undefined if neither happens.
+ */
+function samplePSLFEndYear(
+  inputs: UserInputs,
+  random: RandomSource,
+  annualJobChangeRate: number
+): number | undefined {
+  const years = PSLF.requiredPayments / 12;
+  let endYear: number | undefined;
+
+  if (random() >= inputs.preferences.pslfConfidence) {
+    endYear = 1 + Math.floor(random() * (years - 1));
+  }
+  for (let year = 1; year < (endYear ?? years); year++) {
+    if (random() < annualJobChangeRate) return year;
+  }
+
+  return endYear;
+}
+
+/**
+ * Stable label for a strategy across paths. Refinance names include the
+ * rate, which varies by path, so they're labeled by term instead.
+ */
+function getStrategyKey(result: StrategyResult): string {
+  return result.refinance ? `Refinance (${result.refinance.termYears}yr)` : result.strategyName;
+}
+
+/**
+ * NPV a strategy costs on one path. PSLF costs its fallback once PSLF ends.
+ */
+function getPathNPV(result: StrategyResult): number {
+  return result.pslfFallback ? result.pslfFallback.npv : result.npv;
+}
+
+/**
+ * Run strategies across sampled paths and summarize each one's NPV
+ * distribution and how often it comes out best. Runs synchronously, one
+ * ledger run of each strategy per sample.
+ */
+export function runMonteCarlo(inputs: UserInputs, options: MonteCarloOptions = {}): MonteCarloResult {
+  const settings = { ...MONTE_CARLO_DEFAULTS, ...options };
+  const random = createRandom(settings.seed);
+  const npvs = new Map<string, number[]>();
+  const wins = new Map<string, number>();
+
+  for (let i = 0; i < settings.samples; i++) {
+    const pslfEndYear = samplePSLFEndYear(inputs, random, settings.annualJobChangeRate);
+    const pathInputs: UserInputs = {
+      ...inputs,
+      career: { ...inputs.career, expectedAttendingSalary: sampleAttendingSalary(inputs, random) },
+      preferences: {
+        ...inputs.preferences,
+        // PSLF only gets a fallback on paths where it ends
+        pslfFailureYear: pslfEndYear ?? Number.POSITIVE_INFINITY,
+      },
+    };
+
+    const incomeGrowthRate = DEFAULTS.incomeGrowthRate + settings.incomeGrowthStdDev * sampleNormal(random);
+    const results = calculateStrategies(pathInputs, projectIncome(pathInputs.career, 30, incomeGrowthRate), {
+      refiRateOffset: Math.max(
+        settings.refiRateStdDev * sampleNormal(random),
+        0.02 - DEFAULTS.refiRate  // rates stay above 2%
+      ),
+    });
+
+    let best: { key: string; npv: number } | undefined;
+    for (const result of results) {
+      const key = getStrategyKey(result);
+      const npv = getPathNPV(result);
+      if (!npvs.has(key)) npvs.set(key, []);
+      npvs.get(key)!.push(npv);
+      if (!best || npv < best.npv) best = { key, npv };
+    }
+    if (best) wins.set(best.key, (wins.get(best.key) ?? 0) + 1);
+  }
+
+  const strategies: MonteCarloStrategyOutcome[] = [...npvs.entries()].map(([strategyName, values]) => {
+    const sorted = values.sort((a, b) => a - b);
+    return {
+      strategyName,
+      samples: sorted.length,
+      meanNPV: Math.round(sorted.reduce((sum, npv) => sum + npv, 0) / sorted.length),
+      percentiles: getPercentiles(sorted),
+      probabilityBest: (wins.get(strategyName) ?? 0) / settings.samples,
+    };
+  });
+
+  return {
+    samples: settings.samples,
+    seed: settings.seed,
+    strategies: strategies.sort((a, b) => a.percentiles.p50 - b.percentiles.p50),
+  };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function getPercentiles(sorted: number[]): NPVPercentiles {
+  return {
+    p10: getPercentile(sorted, 0.10),
+    p25: getPercentile(sorted, 0.25),
+    p50: getPercentile(sorted, 0.50),
+    p75: getPercentile(sorted, 0.75),
+    p90: getPercentile(sorted, 0.90),
+  };
+}
+
+/**
+ * Percentile of sorted values, interpolating between neighbors.
+ */
+function getPercentile(sorted: number[], p: number): number {
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return Math.round(sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower));
+}
@@ -0,0 +1,74 @@
+import type { StrategyResult, Preferences, NetWorthPoint } from './types.js';
+
+import { INVESTMENT_DEFAULTS, NET_WORTH_YEARS } from './constants.js';
+import { getAnnualPayments } from './ledger.js';
+
+// ============================================
+// Net-Worth Projection
+//
+// Strategies that pay less leave cash to invest. Each year the household
+// budgets what the costliest of the compared strategies pays that year;
+// every strategy invests whatever it doesn't spend on its loans, and pays
+// any tax bomb out of those savings when it comes due.
+// ============================================
+
+/**
+ * After-tax annual return on invested cash.
+ */
+export function getInvestmentReturn(preferences: Preferences): number {
+  const settings = { ...INVESTMENT_DEFAULTS, ...preferences.investment };
+  return settings.account === 'retirement'
+    ? settings.annualReturn
+    : settings.annualReturn * (1 - settings.taxableReturnTaxRate);
+}
+
+/**
+ * Net worth at the end of each of `years` for every strategy, investing the
+ * difference between its payments and the year's budget. Loans headed for
+ * forgiveness count only the tax due on forgiveness as a liability, not the
+ * balance that will be forgiven.
+ */
+export function projectNetWorth(
+  results: StrategyResult[],
+  preferences: Preferences,
+  years: number[] = NET_WORTH_YEARS
+): NetWorthPoint[][] {
+  const growth = getInvestmentReturn(preferences);
+  const horizon = Math.max(...years);
+  const payments = results.map(result => getAnnualPayments(result.monthlySchedule));
+  const budget = Array.from({ length: horizon }, (_, i) => Math.max(0, ...payments.map(annual => annual[i] ?? 0)));
+
+  return results.map((result, index) => {
+    const forgiven = result.forgivenessAmount > 0;
+    const forgivenessYear = Math.ceil(result.totalMonths / 12);
+    const points: NetWorthPoint[] = [];
+    let investments = 0;
+
+    for (let year = 1; year <= horizon; year++) {
+      investments = investments * (1 + growth) + budget[year - 1] - (payments[index][year - 1] ?? 0);
+      if (forgiven && year === forgivenessYear) investments -= result.taxOnForgiveness;
+
+      if (years.includes(year)) {
+        const liabilities = forgiven
+          ? (year < forgivenessYear ? result.taxOnForgiveness : 0)
+          : result.yearlyBreakdown[year - 1]?.endingBalance ?? 0;
+        points.push({
+          year,
+          investments: Math.round(investments),
+          liabilities: Math.round(liabilities),
+          netWorth: Math.round(investments - liabilities),
+        });
+      }
+    }
+
+    return points;
+  });
+}
+
+/**
+ * Copies of the results with their net worth at NET_WORTH_YEARS.
+ */
+export function withNetWorth(results: StrategyResult[], preferences: Preferences): StrategyResult[] {
+  const projections = projectNetWorth(results, preferences);
+  return results.map((result, i) => ({ ...result, netWorth: projections[i] }));
+}
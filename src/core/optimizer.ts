@@ -0,0 +1,260 @@
+import type {
+  UserInputs,
+  StrategyResult,
+  IncomeProjection,
+  FilingStatus,
+  OptimizerExit,
+  OptimizerOptions,
+  OptimizedStrategy,
+  OptimizerResult,
+} from './types.js';
+
+import { DEFAULTS, REFI_TERM_RATES, OPTIMIZER_DEFAULTS } from './constants.js';
+import { projectIncome, calculateAmortizationPayment } from './calculations.js';
+import { getPortfolioLoans, summarizeLoans } from './portfolio.js';
+import { getAnnualPayments } from './ledger.js';
+import { checkPlanEligibility, checkPSLFEligibility } from './eligibility.js';
+import { getPreRepaymentPhase, runPreRepayment } from './prerepayment.js';
+import { calculatePSLFStrategy, calculateIDRStrategy, getCandidatePlans } from './strategies.js';
+import { getOutcomeSpread } from './utility.js';
+import { compareFilingStatusByYear } from './filing.js';
+
+// ============================================
+// Strategy Optimizer
+//
+// Search IDR plan x filing status by year x exit (PSLF, IDR forgiveness, or
+// a refinance or aggressive federal payoff after some years on the plan) for
+// the options no other option beats on NPV, peak monthly payment and risk at
+// once. The search stays small enough for the browser because:
+//   - each plan's IDR ledger runs once, and every exit is priced off its
+//     prefix by amortizing the balance left at the start of the exit year
+//   - filing status is chosen year by year, since each year's choice only
+//     trades that year's IDR payment against that year's tax
+//   - an exit is skipped before it's built when an option already found,
+//     with no risk, costs no more and pays no more at its peak
+// ============================================
+
+interface FilingSchedule {
+  statuses: FilingStatus[];
+  extraTax: number[];             // tax paid above filing jointly, by year
+}
+
+interface ExitStart {
+  planName?: string;              // IDR plan repaid under until the exit; none at the start of repayment
+  exitYear: number;
+  balance: number;                // owed when the exit starts
+  prefixNpv: number;              // present value of IDR payments and extra tax before it
+  prefixPeak: number;             // largest monthly IDR payment before it
+  filingStatusByYear: FilingStatus[];
+}
+
+/**
+ * Filing status for each projection year under a plan. Married borrowers
+ * whose spouse has income file separately in the years the lower IDR
+ * payment outweighs the extra tax; everyone else keeps their filing status.
+ */
+function chooseFilingStatuses(
+  inputs: UserInputs,
+  planName: string,
+  incomeProjection: IncomeProjection[]
+): FilingSchedule {
+  const { filingStatus, spouseAgi } = inputs.personal;
+  if (filingStatus === 'single' || spouseAgi <= 0) {
+    return {
+      statuses: incomeProjection.map(() => filingStatus),
+      extraTax: incomeProjection.map(() => 0),
+    };
+  }
+
+  const comparisons = compareFilingStatusByYear(inputs, planName, incomeProjection);
+
+  return {
+    statuses: comparisons.map(c => c.recommendation),
+    extraTax: comparisons.map(c => (c.recommendation === 'mfs' ? c.mfs.totalTax - c.mfj.totalTax : 0)),
+  };
+}
+
+/**
+ * Present value of yearly amounts from year `start`, discounted as in
+ * calculateNPV (end of each year).
+ */
+function presentValue(amounts: number[], discountRate: number, start: number = 0): number {
+  return amounts.reduce((total, amount, i) => total + amount / Math.pow(1 + discountRate, start + i + 1), 0);
+}
+
+/**
+ * Present value of a fixed monthly payment for `years` from year `start`,
+ * as presentValue prices it, in closed form.
+ */
+function annuityValue(monthlyPayment: number, years: number, discountRate: number, start: number): number {
+  const annuity = discountRate === 0 ? years : (1 - Math.pow(1 + discountRate, -years)) / discountRate;
+  return monthlyPayment * 12 * annuity / Math.pow(1 + discountRate, start);
+}
+
+/**
+ * Whether an option already found carries no risk and is at least as good
+ * on NPV and peak payment, so any option with these measures is beaten.
+ */
+function isBeatenWithoutRisk(found: OptimizedStrategy[], npv: number, peakMonthlyPayment: number): boolean {
+  return found.some(option => option.risk === 0 && option.npv <= npv && option.peakMonthlyPayment <= peakMonthlyPayment);
+}
+
+/**
+ * An option that ends in PSLF or IDR forgiveness, from its strategy result.
+ */
+function fromStrategy(
+  inputs: UserInputs,
+  result: StrategyResult,
+  planName: string,
+  exit: OptimizerExit,
+  filing: FilingSchedule
+): OptimizedStrategy {
+  const years = Math.ceil(result.totalMonths / 12);
+  let name = `PSLF (${planName})`;
+  if (exit === 'forgiveness') {
+    name = result.forgivenessAmount > 0 ? `${planName} to forgiveness` : `${planName} until paid off`;
+  }
+
+  return {
+    name,
+    planName,
+    exit,
+    filingStatusByYear: filing.statuses.slice(0, years),
+    npv: Math.round(result.riskAdjustedNpv + presentValue(filing.extraTax.slice(0, years), inputs.preferences.discountRate)),
+    peakMonthlyPayment: result.monthlyPaymentRange.max,
+    risk: getOutcomeSpread(result, inputs.preferences),
+  };
+}
+
+/**
+ * Whether `a` is at least as good as `b` on NPV, peak payment and risk.
+ */
+function isAtLeastAsGood(a: OptimizedStrategy, b: OptimizedStrategy): boolean {
+  return a.npv <= b.npv && a.peakMonthlyPayment <= b.peakMonthlyPayment && a.risk <= b.risk;
+}
+
+/**
+ * Options not dominated by any other, lowest NPV first. Of options tied on
+ * every measure, only the first is kept.
+ */
+export function getParetoFront(options: OptimizedStrategy[]): OptimizedStrategy[] {
+  const sorted = [...options].sort((a, b) =>
+    a.npv - b.npv || a.peakMonthlyPayment - b.peakMonthlyPayment || a.risk - b.risk
+  );
+  const front: OptimizedStrategy[] = [];
+
+  for (const option of sorted) {
+    // Sorted order puts any option that dominates this one ahead of it
+    if (!front.some(kept => isAtLeastAsGood(kept, option))) front.push(option);
+  }
+
+  return front;
+}
+
+/**
+ * Search plans, filing status and exits (grid in OPTIMIZER_DEFAULTS) and
+ * return the Pareto-best options by NPV, peak monthly payment and risk.
+ */
+export function optimizeStrategies(inputs: UserInputs, options: OptimizerOptions = {}): OptimizerResult {
+  const grid = { ...OPTIMIZER_DEFAULTS, ...options };
+  const discountRate = inputs.preferences.discountRate;
+  const incomeProjection = projectIncome(inputs.career, 30);
+  const preRepaymentMonths = getPreRepaymentPhase(inputs).months;
+  const pslfEligible = checkPSLFEligibility(inputs).eligible;
+  const federalRate = summarizeLoans(getPortfolioLoans(inputs.loans)).weightedInterestRate;
+  const plans = (options.plans ?? getCandidatePlans(inputs)).filter(name => checkPlanEligibility(inputs, name).eligible);
+  const exitYears = [...grid.exitYears].sort((a, b) => a - b);
+
+  const found: OptimizedStrategy[] = [];
+  let pruned = 0;
+
+  /**
+   * Refinance and payoff exits from the balance left at the start of
+   * `start.exitYear`, after `start.prefixNpv` and `start.prefixPeak` of IDR
+   * payments. Exits a riskless option already found beats are counted as
+   * pruned instead.
+   */
+  const addExits = (start: ExitStart): void => {
+    const exitOption = (label: string, rate: number, years: number) => {
+      const payment = calculateAmortizationPayment(start.balance, rate, years);
+      const npv = Math.round(start.prefixNpv + annuityValue(payment, years, discountRate, start.exitYear));
+      const peakMonthlyPayment = Math.max(start.prefixPeak, payment);
+      if (isBeatenWithoutRisk(found, npv, peakMonthlyPayment)) {
+        pruned++;
+        return undefined;
+      }
+      return {
+        name: start.planName
+          ? `${start.planName} for ${start.exitYear} year${start.exitYear === 1 ? '' : 's'}, then ${label.charAt(0).toLowerCase()}${label.slice(1)}`
+          : label,
+        planName: start.planName,
+        exitYear: start.exitYear,
+        filingStatusByYear: start.filingStatusByYear,
+        npv,
+        peakMonthlyPayment,
+        risk: 0,
+      };
+    };
+
+    for (const termYears of grid.refiTerms) {
+      const rate = REFI_TERM_RATES[termYears] ?? DEFAULTS.refiRate;
+      const option = exitOption(`Refinance (${termYears}yr @ ${(rate * 100).toFixed(1)}%)`, rate, termYears);
+      if (option) found.push({ ...option, exit: 'refinance', refinance: { rate, termYears } });
+    }
+
+    for (const payoffYears of grid.payoffYears) {
+      const option = exitOption(`Pay off over ${payoffYears} years`, federalRate, payoffYears);
+      if (option) found.push({ ...option, exit: 'payoff', payoffYears });
+    }
+  };
+
+  // Exits at the start of repayment don't depend on any plan, so borrowers
+  // with no IDR plan open to them can still refinance or pay off
+  if (exitYears.some(year => year * 12 <= preRepaymentMonths)) {
+    const loans = runPreRepayment(getPreRepaymentPhase(inputs), getPortfolioLoans(inputs.loans)).finalLoans;
+    const balance = summarizeLoans(loans).totalBalance;
+    if (balance > 0) {
+      addExits({ exitYear: preRepaymentMonths / 12, balance, prefixNpv: 0, prefixPeak: 0, filingStatusByYear: [] });
+    }
+  }
+
+  for (const planName of plans) {
+    const filing = chooseFilingStatuses(inputs, planName, incomeProjection);
+    const planInputs: UserInputs = { ...inputs, personal: { ...inputs.personal, filingStatusByYear: filing.statuses } };
+
+    const idr = calculateIDRStrategy(planInputs, incomeProjection, planName);
+    found.push(fromStrategy(inputs, idr, planName, 'forgiveness', filing));
+
+    if (pslfEligible) {
+      const pslf = calculatePSLFStrategy(planInputs, incomeProjection, planName);
+      found.push(fromStrategy(inputs, pslf, planName, 'pslf', filing));
+    }
+
+    // Refinance or pay off aggressively after some years on the plan
+    const schedule = idr.monthlySchedule;
+    const annualPayments = getAnnualPayments(schedule);
+
+    for (const exitYear of exitYears) {
+      const startMonth = exitYear * 12;
+      if (startMonth <= preRepaymentMonths) continue;
+      if (startMonth >= schedule.length || schedule[startMonth].startingBalance <= 0) break;
+
+      const prefix = schedule.slice(preRepaymentMonths, startMonth);
+      addExits({
+        planName,
+        exitYear,
+        balance: schedule[startMonth].startingBalance,
+        prefixNpv: presentValue(annualPayments.slice(0, exitYear), discountRate) +
+          presentValue(filing.extraTax.slice(0, exitYear), discountRate),
+        prefixPeak: Math.round(Math.max(0, ...prefix.map(entry => entry.scheduledPayment))),
+        filingStatusByYear: filing.statuses.slice(0, exitYear),
+      });
+    }
+  }
+
+  return {
+    evaluated: found.length,
+    pruned,
+    options: getParetoFront(found),
+  };
+}
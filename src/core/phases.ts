@@ -0,0 +1,128 @@
+import type {
+  TrainingStage,
+  PhaseTrigger,
+  StrategyPhase,
+  MultiPhaseStrategy,
+  PhaseOutcome,
+  MonthlyLedgerEntry,
+} from './types.js';
+
+import { IDR_PLANS } from './constants.js';
+import { addMonthsToDate } from './utils.js';
+
+// ============================================
+// Multi-Phase Strategy Helpers
+//
+// A multi-phase strategy is an ordered list of phases, each repaying under
+// one IDR plan or refinancing into a private loan. Each phase after the
+// first starts once its trigger fires; phases are never skipped.
+// ============================================
+
+const STAGE_ORDER: (TrainingStage | 'attending')[] = [
+  'ms4', 'pgy1', 'pgy2', 'pgy3', 'pgy4', 'pgy5', 'pgy6', 'pgy7', 'fellow', 'attending',
+];
+
+export interface PhaseTriggerContext {
+  month: number;                       // 0-based month since the analysis date
+  balance: number;
+  stage: TrainingStage | 'attending';  // career stage in the current projection year
+  asOfDate: string;
+}
+
+/**
+ * Whether a phase trigger has fired. Stage triggers fire at the given stage
+ * or any later one, so a phase can't be missed by skipping a stage.
+ */
+export function isPhaseTriggered(trigger: PhaseTrigger, context: PhaseTriggerContext): boolean {
+  switch (trigger.type) {
+    case 'year':
+      return context.month >= trigger.year * 12;
+    case 'stage':
+      return STAGE_ORDER.indexOf(context.stage) >= STAGE_ORDER.indexOf(trigger.stage);
+    case 'balance':
+      return context.balance <= trigger.atOrBelow;
+    case 'date':
+      return addMonthsToDate(context.asOfDate, context.month) >= trigger.date;
+  }
+}
+
+/**
+ * Display name for a phase: its own name, the plan, or the refinance terms.
+ */
+export function getPhaseName(phase: StrategyPhase): string {
+  if (phase.name) return phase.name;
+  if (phase.refinance) {
+    return `Refinance (${phase.refinance.termYears}yr @ ${(phase.refinance.rate * 100).toFixed(1)}%)`;
+  }
+  return phase.plan ?? 'Unnamed phase';
+}
+
+/**
+ * Check that a strategy can be simulated: at least one phase, every phase
+ * has exactly one of a known plan or refinance terms, every later phase has
+ * a trigger, and nothing follows a refinance (refinanced loans can't return
+ * to federal plans).
+ */
+export function validateStrategyPhases(strategy: MultiPhaseStrategy): void {
+  if (strategy.phases.length === 0) {
+    throw new Error(`Strategy "${strategy.name}" has no phases`);
+  }
+
+  strategy.phases.forEach((phase, i) => {
+    const name = getPhaseName(phase);
+    if (Boolean(phase.plan) === Boolean(phase.refinance)) {
+      throw new Error(`Phase "${name}" needs either a plan or refinance terms`);
+    }
+    if (phase.plan && !IDR_PLANS[phase.plan]) {
+      throw new Error(`Phase "${name}" uses unknown plan ${phase.plan}`);
+    }
+    if (i > 0 && !phase.startsWhen) {
+      throw new Error(`Phase "${name}" needs a trigger to start`);
+    }
+    if (phase.refinance && i < strategy.phases.length - 1) {
+      throw new Error(`Phase "${name}" refinances, so it must be the last phase`);
+    }
+  });
+}
+
+/**
+ * Split a combined monthly schedule into per-phase totals. `startMonths`
+ * holds the 0-based schedule month each phase started in; phases that never
+ * started are left out. Months before the first phase (school and grace)
+ * are reported as their own leading entry.
+ */
+export function summarizePhases(
+  schedule: MonthlyLedgerEntry[],
+  phases: StrategyPhase[],
+  startMonths: number[]
+): PhaseOutcome[] {
+  const outcomes: PhaseOutcome[] = [];
+  const boundaries = startMonths.filter(start => start < schedule.length);
+
+  const summarize = (name: string, start: number, end: number, phase?: StrategyPhase): void => {
+    const months = schedule.slice(start, end);
+    if (months.length === 0) return;
+    outcomes.push({
+      name,
+      planName: phase?.plan,
+      refinance: phase?.refinance,
+      startMonth: start + 1,
+      months: months.length,
+      startingBalance: Math.round(months[0].startingBalance),
+      interestAccrued: Math.round(months.reduce((sum, m) => sum + m.interestAccrued, 0)),
+      capitalizedInterest: Math.round(months.reduce((sum, m) => sum + m.capitalizedInterest, 0)),
+      totalPayments: Math.round(months.reduce((sum, m) => sum + m.paymentMade, 0)),
+      endingBalance: Math.round(months[months.length - 1].endingBalance),
+    });
+  };
+
+  if (boundaries.length > 0) {
+    summarize('School and grace period', 0, boundaries[0]);
+  }
+  boundaries.forEach((start, i) => {
+    const end = boundaries[i + 1] ?? schedule.length;
+    summarize(getPhaseName(phases[i]), start, end, phases[i]);
+  });
+
+  return outcomes;
+}
@@ -0,0 +1,181 @@
+import type { Loan, LoanPortfolio, LoanType } from './types.js';
+
+// ============================================
+// Loan-Level Portfolio Helpers
+// ============================================
+
+export interface PortfolioSummary {
+  totalBalance: number;          // principal + outstanding interest
+  principal: number;
+  outstandingInterest: number;
+  weightedInterestRate: number;
+  loanTypes: LoanType[];
+  loanCount: number;
+}
+
+/**
+ * Total amount owed on a single loan (principal plus unpaid interest).
+ */
+export function getLoanTotal(loan: Loan): number {
+  return loan.balance + loan.outstandingInterest;
+}
+
+/**
+ * Returns the individual loans in a portfolio. Portfolios entered as a single
+ * blended balance are represented as one synthetic loan so every calculation
+ * can work loan-by-loan.
+ */
+export function getPortfolioLoans(portfolio: LoanPortfolio): Loan[] {
+  if (portfolio.loans && portfolio.loans.length > 0) {
+    return portfolio.loans;
+  }
+
+  return [{
+    id: 'blended',
+    type: portfolio.loanTypes[0] ?? 'direct_unsub',
+    balance: portfolio.totalBalance,
+    interestRate: portfolio.weightedInterestRate,
+    outstandingInterest: 0,
+  }];
+}
+
+/**
+ * Whether a loan is a federal student loan. Private loans are repaid on
+ * their own terms, outside every federal plan.
+ */
+export function isFederalLoan(loan: Loan): boolean {
+  return loan.type !== 'private';
+}
+
+/**
+ * The portfolio's federal loans, which repayment plans, PSLF and
+ * forgiveness apply to.
+ */
+export function getFederalLoans(portfolio: LoanPortfolio): Loan[] {
+  return getPortfolioLoans(portfolio).filter(isFederalLoan);
+}
+
+/**
+ * The portfolio's private loans.
+ */
+export function getPrivateLoans(portfolio: LoanPortfolio): Loan[] {
+  return getPortfolioLoans(portfolio).filter(loan => !isFederalLoan(loan));
+}
+
+/**
+ * Roll individual loans up into portfolio-level totals.
+ * The weighted rate is weighted by total amount owed on each loan.
+ */
+export function summarizeLoans(loans: Loan[]): PortfolioSummary {
+  let principal = 0;
+  let outstandingInterest = 0;
+  let weightedRateSum = 0;
+  const loanTypes: LoanType[] = [];
+
+  for (const loan of loans) {
+    principal += loan.balance;
+    outstandingInterest += loan.outstandingInterest;
+    weightedRateSum += getLoanTotal(loan) * loan.interestRate;
+    if (!loanTypes.includes(loan.type)) loanTypes.push(loan.type);
+  }
+
+  const totalBalance = principal + outstandingInterest;
+
+  return {
+    totalBalance,
+    principal,
+    outstandingInterest,
+    weightedInterestRate: totalBalance > 0 ? weightedRateSum / totalBalance : 0,
+    loanTypes,
+    loanCount: loans.length,
+  };
+}
+
+/**
+ * Build a LoanPortfolio from individual loans, deriving the blended totals
+ * used by the rest of the tool.
+ */
+export function createLoanPortfolio(
+  loans: Loan[],
+  pslfQualifyingPayments: number = 0,
+  idrQualifyingPayments: number = 0
+): LoanPortfolio {
+  const summary = summarizeLoans(loans);
+
+  return {
+    totalBalance: Math.round(summary.totalBalance),
+    weightedInterestRate: summary.weightedInterestRate,
+    loanTypes: summary.loanTypes,
+    pslfQualifyingPayments,
+    idrQualifyingPayments,
+    loans,
+  };
+}
+
+/**
+ * Portfolio with every loan passed through `update`, keeping the blended
+ * totals in step. Blended portfolios stay blended.
+ */
+export function mapPortfolioLoans(portfolio: LoanPortfolio, update: (loan: Loan) => Loan): LoanPortfolio {
+  const loans = getPortfolioLoans(portfolio).map(update);
+  const summary = summarizeLoans(loans);
+
+  return {
+    ...portfolio,
+    ...(portfolio.loans ? { loans } : {}),
+    totalBalance: summary.totalBalance,
+    weightedInterestRate: summary.weightedInterestRate,
+  };
+}
+
+/**
+ * Total amount owed across the portfolio, using per-loan data when available.
+ */
+export function getPortfolioBalance(portfolio: LoanPortfolio): number {
+  return summarizeLoans(getPortfolioLoans(portfolio)).totalBalance;
+}
+
+// ============================================
+// Payment Allocation
+// ============================================
+
+/**
+ * Apply a payment across loans the way federal servicers do: outstanding
+ * interest first (pro rata), then principal on the highest-rate loan first.
+ * Mutates the loans in place and returns the amount actually applied.
+ */
+export function allocatePayment(loans: Loan[], amount: number): number {
+  let remaining = amount;
+
+  const interestDue = loans.reduce((sum, loan) => sum + loan.outstandingInterest, 0);
+  if (interestDue > 0 && remaining > 0) {
+    const interestPaid = Math.min(remaining, interestDue);
+    for (const loan of loans) {
+      loan.outstandingInterest -= interestPaid * (loan.outstandingInterest / interestDue);
+    }
+    remaining -= interestPaid;
+  }
+
+  remaining -= reducePrincipal(loans, remaining);
+
+  return amount - remaining;
+}
+
+/**
+ * Reduce principal on the highest-rate loans first. Used for the principal
+ * portion of payments and for plan principal subsidies (RAP's $50 match).
+ * Mutates the loans in place and returns the amount actually applied.
+ */
+export function reducePrincipal(loans: Loan[], amount: number): number {
+  let remaining = amount;
+
+  const byRate = [...loans].sort((a, b) => b.interestRate - a.interestRate || b.balance - a.balance);
+  for (const loan of byRate) {
+    if (remaining <= 0) break;
+    const principalPaid = Math.min(remaining, loan.balance);
+    loan.balance -= principalPaid;
+    remaining -= principalPaid;
+  }
+
+  return amount - remaining;
+}
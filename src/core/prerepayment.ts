@@ -0,0 +1,93 @@
+import type { Loan, UserInputs, LedgerResult } from './types.js';
+
+import { GRACE_PERIOD_MONTHS } from './constants.js';
+import { runLedger } from './ledger.js';
+import type { LedgerScheduler } from './ledger.js';
+import { getAnalysisDate } from './availability.js';
+import { addMonthsToDate, monthsBetweenDates } from './utils.js';
+
+// ============================================
+// Pre-Repayment Phase
+//
+// Medical students don't owe payments until six months after graduation.
+// Until then loans sit in in-school deferment and then the grace period:
+// unsubsidized interest accrues, subsidized loans don't, and nothing counts
+// toward PSLF or IDR forgiveness. Outstanding interest capitalizes when
+// repayment starts (the 'grace_end' trigger).
+// ============================================
+
+export interface PreRepaymentPhase {
+  inSchoolMonths: number;
+  graceMonths: number;
+  months: number;               // total months before the first payment
+  graduationDate?: string;
+  repaymentStartDate: string;
+}
+
+/**
+ * Graduation date for a student: the date they entered, or May 31 of the
+ * current school year. Residents and attendings have already graduated.
+ */
+export function getGraduationDate(inputs: UserInputs): string | undefined {
+  if (inputs.career.currentStage !== 'ms4') return undefined;
+  if (inputs.career.graduationDate) return inputs.career.graduationDate;
+
+  const asOfDate = getAnalysisDate(inputs.preferences);
+  const year = Number(asOfDate.slice(0, 4));
+  const graduation = `${year}-05-31`;
+  return asOfDate <= graduation ? graduation : `${year + 1}-05-31`;
+}
+
+/**
+ * Months of in-school deferment and grace remaining before repayment starts.
+ * Zero for anyone already out of school.
+ */
+export function getPreRepaymentPhase(inputs: UserInputs): PreRepaymentPhase {
+  const asOfDate = getAnalysisDate(inputs.preferences);
+  const graduationDate = getGraduationDate(inputs);
+
+  if (!graduationDate) {
+    return { inSchoolMonths: 0, graceMonths: 0, months: 0, repaymentStartDate: asOfDate };
+  }
+
+  const inSchoolMonths = monthsBetweenDates(asOfDate, graduationDate);
+  const graceEnd = addMonthsToDate(graduationDate, GRACE_PERIOD_MONTHS);
+  const graceMonths = Math.min(GRACE_PERIOD_MONTHS, monthsBetweenDates(asOfDate, graceEnd));
+  const months = inSchoolMonths + graceMonths;
+
+  return {
+    inSchoolMonths,
+    graceMonths,
+    months,
+    graduationDate,
+    repaymentStartDate: addMonthsToDate(asOfDate, months),
+  };
+}
+
+/**
+ * Prefix a repayment schedule with the pre-repayment phase. The repayment
+ * schedule sees months counted from its first payment, while years stay on
+ * the projection calendar so income lines up. Its first month capitalizes
+ * interest from school and grace unless it schedules another event.
+ */
+export function withPreRepayment(phase: PreRepaymentPhase, schedule: LedgerScheduler): LedgerScheduler {
+  return (context) => {
+    if (context.month < phase.months) {
+      return { payment: 0, qualifying: false, deferment: true };
+    }
+
+    const step = schedule({ ...context, month: context.month - phase.months });
+    if (context.month === phase.months && phase.months > 0 && !step.capitalize) {
+      return { ...step, capitalize: 'grace_end' };
+    }
+    return step;
+  };
+}
+
+/**
+ * Run only the pre-repayment phase, for strategies that replace the loans
+ * when repayment starts (refinancing).
+ */
+export function runPreRepayment(phase: PreRepaymentPhase, loans: Loan[]): LedgerResult {
+  return runLedger(loans, phase.months, () => ({ payment: 0, qualifying: false, deferment: true }));
+}
@@ -0,0 +1,126 @@
+import type { UserInputs, IncomeProjection, RecertificationSettings, FilingStatus } from './types.js';
+
+import { RECERTIFICATION_DEFAULTS } from './constants.js';
+import { getAnalysisDate } from './availability.js';
+import { getSpouseIncome, getFilingStatusForYear } from './calculations.js';
+
+// ============================================
+// IDR Recertification
+//
+// IDR payments are set from the most recent tax return at enrollment and
+// reset once a year at recertification. Because the return is a year old,
+// income lags payments: a final-year resident's first attending months are
+// still billed on resident income. Borrowers can recertify early on current
+// income when it falls, and may recertify late when it rises.
+// ============================================
+
+export interface RecertifiedIncome {
+  agi: number;
+  agiTaxYear: number;
+  recertified: boolean;          // payment was reset this month
+}
+
+export type RecertificationTracker = (month: number, year: number) => RecertifiedIncome;
+
+/**
+ * Recertification settings with defaults filled in.
+ */
+export function getRecertificationSettings(inputs: UserInputs): RecertificationSettings & typeof RECERTIFICATION_DEFAULTS {
+  return { ...RECERTIFICATION_DEFAULTS, ...inputs.preferences.recertification };
+}
+
+/**
+ * Projection year (0 = the analysis year) of the return for a calendar tax
+ * year; negative for returns filed before the analysis year.
+ */
+export function getProjectionYearForTaxYear(inputs: UserInputs, taxYear: number): number {
+  return taxYear - Number(getAnalysisDate(inputs.preferences).slice(0, 4));
+}
+
+/**
+ * AGI reported on the return for a calendar tax year. Years before the
+ * analysis date use the AGI the borrower entered; later years come from the
+ * income projection, whose first year starts on the analysis date.
+ */
+export function getIncomeForTaxYear(
+  inputs: UserInputs,
+  incomeProjection: IncomeProjection[],
+  taxYear: number
+): number {
+  const index = getProjectionYearForTaxYear(inputs, taxYear);
+
+  if (index < 0) return inputs.personal.agi;
+  return (incomeProjection[index] ?? incomeProjection[incomeProjection.length - 1]).income;
+}
+
+/**
+ * Spouse AGI on the return for a calendar tax year, projected the same way.
+ */
+export function getSpouseIncomeForTaxYear(inputs: UserInputs, taxYear: number): number {
+  return getSpouseIncome(inputs.personal, getProjectionYearForTaxYear(inputs, taxYear));
+}
+
+/**
+ * Filing status on the return for a calendar tax year. Returns filed before
+ * the analysis date keep the borrower's current status; later ones follow
+ * `filingStatusByYear`, indexed from the analysis year.
+ */
+export function getFilingStatusForTaxYear(inputs: UserInputs, taxYear: number): FilingStatus {
+  const index = getProjectionYearForTaxYear(inputs, taxYear);
+  return index < 0 ? inputs.personal.filingStatus : getFilingStatusForYear(inputs.personal, index);
+}
+
+/**
+ * Track the income an IDR payment is based on, month by month from
+ * enrollment. `month` counts months since enrollment; `year` is the
+ * projection year, used for the borrower's current income.
+ */
+export function createRecertificationTracker(
+  inputs: UserInputs,
+  incomeProjection: IncomeProjection[],
+  enrolledOn: string
+): RecertificationTracker {
+  const settings = getRecertificationSettings(inputs);
+  const recertMonth = settings.month ?? Number(enrolledOn.slice(5, 7));
+  const enrolledYear = Number(enrolledOn.slice(0, 4));
+  const enrolledMonthIndex = Number(enrolledOn.slice(5, 7)) - 1;
+  let current: RecertifiedIncome | undefined;
+  let delayedUntil: number | undefined;
+
+  const certify = (agi: number, agiTaxYear: number): RecertifiedIncome => {
+    current = { agi, agiTaxYear, recertified: true };
+    delayedUntil = undefined;
+    return current;
+  };
+
+  return (month, year) => {
+    // Calendar month of this payment, counted without building a date every month
+    const monthIndex = enrolledMonthIndex + month;
+    const calendarYear = enrolledYear + Math.floor(monthIndex / 12);
+    const calendarMonth = (monthIndex % 12) + 1;
+    const taxYear = calendarYear - settings.taxYearLag;
+    const returnIncome = (): number => getIncomeForTaxYear(inputs, incomeProjection, taxYear);
+
+    if (!current) return certify(returnIncome(), taxYear);
+
+    // Alternative documentation of current income when it drops
+    const currentIncome = (incomeProjection[year] ?? incomeProjection[incomeProjection.length - 1]).income;
+    if (settings.recertifyEarlyOnIncomeDrop && currentIncome < current.agi) {
+      return certify(currentIncome, calendarYear);
+    }
+
+    const due = calendarMonth === recertMonth || (delayedUntil !== undefined && month >= delayedUntil);
+    if (due) {
+      const income = returnIncome();
+      if (delayedUntil === undefined && settings.lateMonths > 0 && income > current.agi) {
+        delayedUntil = month + settings.lateMonths;
+      } else {
+        return certify(income, taxYear);
+      }
+    }
+
+    // The same income is returned until the next recertification
+    if (current.recertified) current = { ...current, recertified: false };
+    return current;
+  };
+}
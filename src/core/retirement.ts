@@ -0,0 +1,78 @@
+import type { UserInputs, IncomeProjection, Preferences, PreTaxAccount } from './types.js';
+
+import {
+  PRETAX_CONTRIBUTION_LIMITS,
+  HSA_FAMILY_LIMIT,
+  IRA_DEDUCTION_PHASEOUT,
+  INVESTMENT_DEFAULTS,
+} from './constants.js';
+import { indexToYear } from './inflation.js';
+import { getSpouseIncome, getFilingStatusForYear } from './calculations.js';
+
+// ============================================
+// Pre-Tax Retirement Contributions
+//
+// 403(b), 457(b), HSA and deductible traditional IRA contributions come out
+// of AGI, and so out of the income IDR payments are based on. Each year's
+// contributions are capped at the account limits and at what the borrower
+// earns that year. Limits and the IRA phase-out are indexed to inflation.
+// ============================================
+
+/**
+ * Annual limit for an account in a projection year. HSA limits are higher
+ * for family coverage.
+ */
+export function getContributionLimit(account: PreTaxAccount, familySize: number, year: number = 0): number {
+  const limit = account === 'hsa' && familySize > 1 ? HSA_FAMILY_LIMIT : PRETAX_CONTRIBUTION_LIMITS[account];
+  return Math.round(indexToYear(limit, year));
+}
+
+/**
+ * Pre-tax contributions that reduce AGI in a year with the given income.
+ * A borrower who also contributes to a 403(b) can deduct a traditional IRA
+ * contribution only in part, or not at all, above the phase-out range.
+ * `year` is the 0-based projection year of the tax return, which sets the
+ * limits, the filing status and the spouse's income.
+ */
+export function getPreTaxContribution(inputs: UserInputs, income: number, year: number = 0): number {
+  const planned = inputs.personal.retirementContributions;
+  if (!planned || income <= 0) return 0;
+
+  const { familySize } = inputs.personal;
+  const filingStatus = getFilingStatusForYear(inputs.personal, year);
+  const spouseAgi = getSpouseIncome(inputs.personal, year);
+  const capped = (account: PreTaxAccount): number =>
+    Math.max(0, Math.min(planned[account] ?? 0, getContributionLimit(account, familySize, year)));
+
+  const payroll = Math.min(income, capped('403b') + capped('457b') + capped('hsa'));
+  let ira = capped('traditional_ira');
+
+  if (ira > 0 && capped('403b') > 0) {
+    const phaseOut = IRA_DEDUCTION_PHASEOUT[filingStatus];
+    const magi = income - payroll + (filingStatus === 'mfj' ? spouseAgi : 0);
+    const start = indexToYear(phaseOut.start, year);
+    const end = indexToYear(phaseOut.end, year);
+    ira *= Math.min(1, Math.max(0, (end - magi) / (end - start)));
+  }
+
+  return Math.round(Math.min(income, payroll + ira));
+}
+
+/**
+ * Pre-tax contributions in each year of the income projection.
+ */
+export function projectRetirementContributions(
+  inputs: UserInputs,
+  incomeProjection: IncomeProjection[]
+): number[] {
+  return incomeProjection.map((year, i) => getPreTaxContribution(inputs, year.income, i));
+}
+
+/**
+ * Value of yearly contributions, each made at the end of its year, growing
+ * tax-deferred at the investment return.
+ */
+export function getRetirementBalance(contributions: number[], preferences: Preferences): number {
+  const growth = { ...INVESTMENT_DEFAULTS, ...preferences.investment }.annualReturn;
+  return Math.round(contributions.reduce((balance, amount) => balance * (1 + growth) + amount, 0));
+}
@@ -0,0 +1,183 @@
+import type {
+  UserInputs,
+  StrategyScenario,
+  SensitivityInput,
+  SensitivityRange,
+  SensitivityRanges,
+  SensitivityPoint,
+  SensitivityResult,
+  SensitivityReport,
+} from './types.js';
+
+import { SENSITIVITY_RANGES, STATE_TAX_BRACKETS } from './constants.js';
+import { getSpecialty } from './specialties.js';
+import { calculateStateTax } from './tax.js';
+import { mapPortfolioLoans } from './portfolio.js';
+import { compareAllStrategies, isSameStrategy } from './strategies.js';
+
+// ============================================
+// Sensitivity Analysis
+//
+// Move one input at a time to the low and high ends of its range, rerun the
+// comparison and record how the winning strategy and its risk-adjusted NPV
+// change. Sorted by swing, the results draw a tornado chart.
+// ============================================
+
+const INPUT_NAMES: Record<SensitivityInput, string> = {
+  debt: 'Total debt',
+  interestRate: 'Loan interest rate',
+  salary: 'Attending salary',
+  discountRate: 'Discount rate',
+  trainingYears: 'Training years',
+  familySize: 'Family size',
+  state: 'State',
+  refiRate: 'Refinance rate',
+};
+
+interface Variation {
+  inputs: UserInputs;
+  scenario: StrategyScenario;
+}
+
+/**
+ * Inputs (and market scenario) with one input moved by `change`.
+ */
+function applyChange(inputs: UserInputs, input: SensitivityInput, change: number | string): Variation {
+  const variation: Variation = { inputs, scenario: {} };
+  const delta = typeof change === 'number' ? change : 0;
+
+  switch (input) {
+    case 'debt':
+      variation.inputs = {
+        ...inputs,
+        loans: mapPortfolioLoans(inputs.loans, loan => ({
+          ...loan,
+          balance: loan.balance * (1 + delta),
+          outstandingInterest: loan.outstandingInterest * (1 + delta),
+        })),
+      };
+      break;
+    case 'interestRate':
+      variation.inputs = {
+        ...inputs,
+        loans: mapPortfolioLoans(inputs.loans, loan => ({ ...loan, interestRate: Math.max(0, loan.interestRate + delta) })),
+      };
+      break;
+    case 'salary': {
+      const salary = inputs.career.expectedAttendingSalary || getSpecialty(inputs.career.specialty).medianAttendingSalary;
+      variation.inputs = {
+        ...inputs,
+        career: { ...inputs.career, expectedAttendingSalary: Math.round(salary * (1 + delta)) },
+      };
+      break;
+    }
+    case 'discountRate':
+      variation.inputs = {
+        ...inputs,
+        preferences: { ...inputs.preferences, discountRate: Math.max(0, inputs.preferences.discountRate + delta) },
+      };
+      break;
+    case 'trainingYears':
+      variation.inputs = {
+        ...inputs,
+        career: { ...inputs.career, trainingYearsRemaining: Math.max(0, inputs.career.trainingYearsRemaining + delta) },
+      };
+      break;
+    case 'familySize':
+      variation.inputs = {
+        ...inputs,
+        personal: { ...inputs.personal, familySize: Math.max(1, inputs.personal.familySize + delta) },
+      };
+      break;
+    case 'state':
+      variation.inputs = { ...inputs, personal: { ...inputs.personal, state: String(change) } };
+      break;
+    case 'refiRate':
+      variation.scenario = { refiRateOffset: delta };
+      break;
+  }
+
+  return variation;
+}
+
+/**
+ * States to compare the borrower's against: the ones, other than their own,
+ * that tax their attending salary least and most.
+ */
+function getComparisonStates(inputs: UserInputs): SensitivityRange<string> {
+  const salary = inputs.career.expectedAttendingSalary || getSpecialty(inputs.career.specialty).medianAttendingSalary;
+  const ranked = Object.keys(STATE_TAX_BRACKETS)
+    .filter(state => state !== inputs.personal.state)
+    .map(state => ({ state, tax: calculateStateTax(salary, state, inputs.personal.filingStatus) }))
+    .sort((a, b) => a.tax - b.tax);
+
+  return { low: ranked[0].state, high: ranked[ranked.length - 1].state };
+}
+
+/**
+ * Short label for a change, e.g. "-20%", "+2.0 pts", "+1 yr" or "TX".
+ */
+function formatChange(input: SensitivityInput, change: number | string): string {
+  if (typeof change === 'string') return change;
+  const sign = change >= 0 ? '+' : '-';
+  const size = Math.abs(change);
+
+  switch (input) {
+    case 'debt':
+    case 'salary':
+      return `${sign}${Math.round(size * 100)}%`;
+    case 'interestRate':
+    case 'discountRate':
+    case 'refiRate':
+      return `${sign}${(size * 100).toFixed(1)} pts`;
+    case 'trainingYears':
+      return `${sign}${size} yr`;
+    default:
+      return `${sign}${size}`;
+  }
+}
+
+/**
+ * Vary each input one at a time across its range (defaults in
+ * SENSITIVITY_RANGES, and the least- and most-taxing other states) and
+ * report the effect on the winning strategy.
+ */
+export function runSensitivityAnalysis(
+  inputs: UserInputs,
+  ranges: Partial<SensitivityRanges> = {}
+): SensitivityReport {
+  const settings: SensitivityRanges = { ...SENSITIVITY_RANGES, state: getComparisonStates(inputs), ...ranges };
+  const baselineBest = compareAllStrategies(inputs)[0];
+  const baseline = { strategyName: baselineBest.strategyName, npv: baselineBest.riskAdjustedNpv };
+
+  const evaluate = (input: SensitivityInput, change: number | string): SensitivityPoint => {
+    const variation = applyChange(inputs, input, change);
+    const best = compareAllStrategies(variation.inputs, variation.scenario)[0];
+    return {
+      change,
+      label: formatChange(input, change),
+      strategyName: best.strategyName,
+      npv: best.riskAdjustedNpv,
+      npvChange: best.riskAdjustedNpv - baseline.npv,
+      winnerChanged: !isSameStrategy(best, baselineBest),
+    };
+  };
+
+  const results: SensitivityResult[] = (Object.keys(INPUT_NAMES) as SensitivityInput[]).map(input => {
+    const range = settings[input];
+    const low = evaluate(input, range.low);
+    const high = evaluate(input, range.high);
+    return {
+      input,
+      name: INPUT_NAMES[input],
+      low,
+      high,
+      swing: Math.abs(high.npv - low.npv),
+    };
+  });
+
+  return {
+    baseline,
+    results: results.sort((a, b) => b.swing - a.swing),
+  };
+}
@@ -0,0 +1,74 @@
+import type { StrategyResult, Preferences, SinkingFundPlan, SinkingFundYear } from './types.js';
+
+import { getAnnualPayments } from './ledger.js';
+import { getInvestmentReturn } from './networth.js';
+
+// ============================================
+// Tax-Bomb Sinking Fund
+//
+// IDR forgiveness is taxed as income in the year it happens. A sinking fund
+// sets aside the same amount each month, from the start of the strategy,
+// so that with growth it covers the projected tax in the forgiveness month.
+// ============================================
+
+/**
+ * Monthly contribution that grows to `target` after `months` at an annual
+ * return, rounded up to the next dollar.
+ */
+export function getSinkingFundContribution(target: number, months: number, annualReturn: number): number {
+  if (target <= 0 || months <= 0) return 0;
+  const monthlyRate = Math.pow(1 + annualReturn, 1 / 12) - 1;
+  if (monthlyRate === 0) return Math.ceil(target / months);
+  return Math.ceil(target * monthlyRate / (Math.pow(1 + monthlyRate, months) - 1));
+}
+
+/**
+ * Sinking fund for a strategy's tax on forgiveness, with loan payments,
+ * contributions and the fund balance against the liability year by year.
+ * Undefined when the strategy has no tax to save for.
+ */
+export function planSinkingFund(
+  result: StrategyResult,
+  preferences: Preferences,
+  afterTaxReturn: number = getInvestmentReturn(preferences)
+): SinkingFundPlan | undefined {
+  const liability = result.taxOnForgiveness;
+  if (liability <= 0) return undefined;
+
+  const months = result.totalMonths;
+  const monthlyContribution = getSinkingFundContribution(liability, months, afterTaxReturn);
+  const monthlyRate = Math.pow(1 + afterTaxReturn, 1 / 12) - 1;
+  const loanPayments = getAnnualPayments(result.monthlySchedule);
+  const years: SinkingFundYear[] = [];
+  let fundBalance = 0;
+
+  for (let year = 0; year * 12 < months; year++) {
+    const monthsInYear = Math.min(12, months - year * 12);
+    for (let month = 0; month < monthsInYear; month++) {
+      fundBalance = fundBalance * (1 + monthlyRate) + monthlyContribution;
+    }
+
+    const contributions = monthlyContribution * monthsInYear;
+    years.push({
+      year: year + 1,
+      loanPayments: loanPayments[year] ?? 0,
+      contributions,
+      cashOutflow: (loanPayments[year] ?? 0) + contributions,
+      fundBalance: Math.round(fundBalance),
+      liability,
+    });
+  }
+
+  return { taxOnForgiveness: liability, afterTaxReturn, monthlyContribution, years };
+}
+
+/**
+ * Copies of the results with a sinking fund for each one that has a tax on
+ * forgiveness.
+ */
+export function withSinkingFunds(results: StrategyResult[], preferences: Preferences): StrategyResult[] {
+  return results.map(result => {
+    const sinkingFund = planSinkingFund(result, preferences);
+    return sinkingFund ? { ...result, sinkingFund } : result;
+  });
+}
@@ -5,13 +5,22 @@ import type {
   IncomeProjection,
   QuickStartInputs,
   PSLFSalaryPremiumResult,
+  IDRPlanParams,
+  MonthlyLedgerEntry,
+  PlanEligibility,
+  MultiPhaseStrategy,
+  RefinanceTerms,
+  LedgerResult,
+  PlanEnrollment,
+  PSLFFallback,
+  StrategyScenario,
 } from './types.js';
 
 import {
   projectIncome,
   calculateIDRPayment,
   getEffectiveIDRPayment,
-  projectLoanBalance,
+  createPlanEnrollment,
   estimateTaxOnForgiveness,
   calculateNPV,
   calculateAmortizationPayment,
@@ -21,6 +30,28 @@ import {
 
 import { IDR_PLANS, DEFAULTS, PSLF, TRAINING_SALARIES } from './constants.js';
 import { getSpecialty } from './specialties.js';
+import { getPortfolioLoans, getFederalLoans, getPrivateLoans, summarizeLoans, getLoanTotal } from './portfolio.js';
+import { runLedger, getAnnualPayments, combineLedgers, mergeLedgers } from './ledger.js';
+import type { LedgerScheduler, LedgerStep } from './ledger.js';
+import { checkPlanEligibility, checkPSLFEligibility, evaluatePlanEligibility } from './eligibility.js';
+import { getPreRepaymentPhase, withPreRepayment, runPreRepayment } from './prerepayment.js';
+import { isPhaseTriggered, getPhaseName, validateStrategyPhases, summarizePhases } from './phases.js';
+import { getAnalysisDate } from './availability.js';
+import {
+  createRecertificationTracker,
+  getSpouseIncomeForTaxYear,
+  getFilingStatusForTaxYear,
+  getProjectionYearForTaxYear,
+} from './recertification.js';
+import type { RecertifiedIncome } from './recertification.js';
+import { getOutcomeSpread, getUtilityCost, rankByUtility } from './utility.js';
+import { withNetWorth } from './networth.js';
+import { withSinkingFunds } from './sinkingfund.js';
+import { withAffordability } from './cashflow.js';
+import { withDollarMode, getDollarMode, toTodaysDollars } from './inflation.js';
+import { splitsCommunityIncome } from './tax.js';
+import { getPreTaxContribution, projectRetirementContributions, getRetirementBalance } from './retirement.js';
+import { addMonthsToDate } from './utils.js';
 
 // ============================================
 // Strategy Calculators
@@ -29,50 +60,30 @@ import { getSpecialty } from './specialties.js';
 function calculatePSLFStrategy(
   inputs: UserInputs,
   incomeProjection: IncomeProjection[],
-  underlyingPlan: string = 'PAYE'
+  underlyingPlan: string = 'IBR_NEW'
 ): StrategyResult {
   const plan = IDR_PLANS[underlyingPlan];
-  const paymentsRemaining = PSLF.requiredPayments - inputs.loans.pslfQualifyingPayments;
-  const yearsRemaining = Math.ceil(paymentsRemaining / 12);
-  
-  const annualPayments: number[] = [];
-  const monthlyPayments: number[] = [];
-  
-  for (let year = 0; year < yearsRemaining; year++) {
-    const income = incomeProjection[year]?.income || incomeProjection[incomeProjection.length - 1].income;
-    
-    const monthlyPayment = calculateIDRPayment(
-      plan,
-      income,
-      inputs.personal.familySize,
-      inputs.personal.spouseAgi,
-      inputs.personal.filingStatus
-    );
-    
-    const effectivePayment = getEffectiveIDRPayment(
-      plan,
-      monthlyPayment,
-      inputs.loans.totalBalance,
-      inputs.loans.weightedInterestRate
-    );
-    
-    annualPayments.push(effectivePayment * 12);
-    for (let m = 0; m < 12; m++) {
-      monthlyPayments.push(effectivePayment);
-    }
-  }
+  const loans = getFederalLoans(inputs.loans);
+  const paymentsRemaining = Math.max(0, PSLF.requiredPayments - inputs.loans.pslfQualifyingPayments);
+  const preRepayment = getPreRepaymentPhase(inputs);
+  const totalMonths = preRepayment.months + paymentsRemaining;
+  const enrollments: PlanEnrollment[] = [];
   
-  const totalPayments = annualPayments.reduce((a, b) => a + b, 0);
-  const yearlyBreakdown = projectLoanBalance(
-    inputs.loans.totalBalance,
-    inputs.loans.weightedInterestRate,
-    annualPayments,
-    plan
+  const federal = runLedger(
+    loans,
+    totalMonths,
+    withPreRepayment(preRepayment, createIDRScheduler(
+      inputs, underlyingPlan, incomeProjection, preRepayment.repaymentStartDate, enrollments
+    )),
+    { capitalizationTriggers: inputs.preferences.capitalizationTriggers }
   );
+  const ledger = withPrivateLoans(inputs, federal);
   
-  const finalBalance = yearlyBreakdown[yearlyBreakdown.length - 1]?.endingBalance || 0;
+  const annualPayments = getAnnualPayments(ledger.monthlySchedule);
+  const totalPayments = Math.round(ledger.totalPayments);
+  const finalBalance = Math.round(federal.endingBalance);
+  const yearsRemaining = totalMonths / 12;
   
-  // Weight by PSLF confidence
   const adjustedNPV = calculateNPV(
     annualPayments,
     yearsRemaining,
@@ -80,19 +91,35 @@ function calculatePSLFStrategy(
     inputs.preferences.discountRate
   );
   
+  // Payments projected past the plan's sunset would need another plan
+  const sunsetsOn = plan.availability?.sunsetsOn;
+  const outlivesPlan = sunsetsOn && addMonthsToDate(getAnalysisDate(inputs.preferences), totalMonths) > sunsetsOn;
+  
+  // Weigh PSLF against the path taken if the program ends before forgiveness
+  const confidence = inputs.preferences.pslfConfidence;
+  const fallback = calculatePSLFFallback(inputs, incomeProjection, underlyingPlan, totalMonths);
+  const riskAdjustedNpv = fallback
+    ? Math.round(confidence * adjustedNPV + (1 - confidence) * fallback.npv)
+    : adjustedNPV;
+  
   return {
     strategyName: 'PSLF',
     description: `Public Service Loan Forgiveness using ${plan.name} payments`,
+    planName: underlyingPlan,
     totalPayments,
     forgivenessAmount: finalBalance,
     taxOnForgiveness: 0,
     npv: adjustedNPV,
-    totalYears: yearsRemaining,
-    monthlyPaymentRange: {
-      min: Math.min(...monthlyPayments),
-      max: Math.max(...monthlyPayments),
-    },
-    yearlyBreakdown,
+    riskAdjustedNpv,
+    pslfFallback: fallback,
+    // The loans may be paid off (or owe nothing) before forgiveness
+    totalYears: toDisplayYears(ledger.monthsElapsed),
+    totalMonths: ledger.monthsElapsed,
+    monthlyPaymentRange: getPaymentRange(ledger.monthlySchedule.slice(preRepayment.months)),
+    yearlyBreakdown: ledger.yearlyBreakdown,
+    monthlySchedule: ledger.monthlySchedule,
+    loanBreakdown: ledger.loanBreakdown,
+    enrollments,
     risks: [
       'Requires continuous employment at PSLF-eligible employer',
       'Must recertify employment annually',
@@ -100,6 +127,10 @@ function calculatePSLFStrategy(
       inputs.preferences.pslfConfidence < 0.8 
         ? `Your confidence level (${Math.round(inputs.preferences.pslfConfidence * 100)}%) suggests hedging` 
         : '',
+      fallback
+        ? `If PSLF ends in year ${fallback.failureYear}, the fallback (${fallback.strategyName}) costs ${formatMoney(fallback.npv)} (NPV)`
+        : '',
+      outlivesPlan ? `${underlyingPlan} ends on ${sunsetsOn} - you will need to switch plans before forgiveness` : '',
     ].filter(Boolean),
     benefits: [
       'Forgiveness is completely tax-free',
@@ -116,54 +147,37 @@ function calculateIDRStrategy(
   planName: string
 ): StrategyResult {
   const plan = IDR_PLANS[planName];
-  const years = plan.forgivenessYears - Math.floor(inputs.loans.idrQualifyingPayments / 12);
-  
-  const annualPayments: number[] = [];
-  const monthlyPayments: number[] = [];
-  
-  for (let year = 0; year < years; year++) {
-    const income = incomeProjection[year]?.income || incomeProjection[incomeProjection.length - 1].income;
-    
-    const monthlyPayment = calculateIDRPayment(
-      plan,
-      income,
-      inputs.personal.familySize,
-      inputs.personal.spouseAgi,
-      inputs.personal.filingStatus
-    );
-    
-    const effectivePayment = getEffectiveIDRPayment(
-      plan,
-      monthlyPayment,
-      inputs.loans.totalBalance,
-      inputs.loans.weightedInterestRate
-    );
-    
-    annualPayments.push(effectivePayment * 12);
-    for (let m = 0; m < 12; m++) {
-      monthlyPayments.push(effectivePayment);
-    }
-  }
+  const loans = getFederalLoans(inputs.loans);
+  const preRepayment = getPreRepaymentPhase(inputs);
+  const months = preRepayment.months + Math.max(0, plan.forgivenessYears * 12 - inputs.loans.idrQualifyingPayments);
+  const years = months / 12;
+  const enrollments: PlanEnrollment[] = [];
   
-  const totalPayments = annualPayments.reduce((a, b) => a + b, 0);
-  const yearlyBreakdown = projectLoanBalance(
-    inputs.loans.totalBalance,
-    inputs.loans.weightedInterestRate,
-    annualPayments,
-    plan
+  const federal = runLedger(
+    loans,
+    months,
+    withPreRepayment(preRepayment, createIDRScheduler(
+      inputs, planName, incomeProjection, preRepayment.repaymentStartDate, enrollments
+    )),
+    { capitalizationTriggers: inputs.preferences.capitalizationTriggers }
   );
+  const ledger = withPrivateLoans(inputs, federal);
   
-  const finalBalance = yearlyBreakdown[yearlyBreakdown.length - 1]?.endingBalance || 0;
+  const annualPayments = getAnnualPayments(ledger.monthlySchedule);
+  const totalPayments = Math.round(ledger.totalPayments);
+  const finalBalance = Math.round(federal.endingBalance);
   
   // Estimate income at forgiveness year for tax calculation
-  const forgivenessYearIncome = incomeProjection[years - 1]?.income || 
+  const forgivenessYearIncome = incomeProjection[Math.ceil(years) - 1]?.income || 
     incomeProjection[incomeProjection.length - 1].income;
   
   const taxOnForgiveness = estimateTaxOnForgiveness(
     finalBalance,
     forgivenessYearIncome,
     inputs.personal.state,
-    inputs.personal.filingStatus
+    inputs.personal.filingStatus,
+    inputs.personal.locality,
+    Math.max(0, Math.ceil(years) - 1)
   );
   
   const npv = calculateNPV(
@@ -175,32 +189,40 @@ function calculateIDRStrategy(
   
   const risks = [
     'Forgiveness is taxed as ordinary income (could be $50k-$150k+ tax bill)',
-    'Long repayment period (20-25 years)',
-    'Balance may grow significantly during training years',
-  ];
+    `Long repayment period (${plan.forgivenessYears} years)`,
+    plan.interestSubsidy ? '' : 'Balance may grow significantly during training years',
+  ].filter(Boolean);
   
   if (planName === 'SAVE') {
     risks.push('SAVE plan currently enjoined by litigation - may not be available');
   }
   
+  if (plan.availability?.sunsetsOn) {
+    risks.push(`${planName} ends on ${plan.availability.sunsetsOn} - you will need to switch plans`);
+  }
+  
   return {
     strategyName: planName,
     description: plan.name,
+    planName,
     totalPayments,
     forgivenessAmount: finalBalance,
     taxOnForgiveness,
     npv,
-    totalYears: years,
-    monthlyPaymentRange: {
-      min: Math.min(...monthlyPayments),
-      max: Math.max(...monthlyPayments),
-    },
-    yearlyBreakdown,
+    riskAdjustedNpv: npv,
+    totalYears: toDisplayYears(months),
+    totalMonths: months,
+    monthlyPaymentRange: getPaymentRange(ledger.monthlySchedule.slice(preRepayment.months)),
+    yearlyBreakdown: ledger.yearlyBreakdown,
+    monthlySchedule: ledger.monthlySchedule,
+    loanBreakdown: ledger.loanBreakdown,
+    enrollments,
     risks,
     benefits: [
       'Payments based on income, not debt amount',
       'No employer restrictions',
       planName === 'SAVE' ? 'Government covers unpaid interest (if available)' : '',
+      planName === 'RAP' ? 'Unpaid interest is waived and principal falls at least $50 each month' : '',
       'Can switch to PSLF if employment situation changes',
     ].filter(Boolean),
   };
@@ -212,38 +234,34 @@ function calculateRefiStrategy(
   refiRate: number = DEFAULTS.refiRate,
   termYears: number = DEFAULTS.refiTermYears
 ): StrategyResult {
+  // Students refinance when repayment starts; until then their federal loans accrue
+  const loans = getPortfolioLoans(inputs.loans);
+  const preRepayment = runPreRepayment(getPreRepaymentPhase(inputs), loans);
+  
+  // All federal loans (including unpaid interest) are paid off by one private loan
+  const principal = summarizeLoans(preRepayment.finalLoans).totalBalance;
+  
   const monthlyPayment = calculateAmortizationPayment(
-    inputs.loans.totalBalance,
+    principal,
     refiRate,
     termYears
   );
   
-  const annualPayment = monthlyPayment * 12;
-  const annualPayments = Array(termYears).fill(annualPayment);
-  const totalPayments = annualPayment * termYears;
-  
-  // Simple amortization breakdown
-  const yearlyBreakdown = [];
-  let balance = inputs.loans.totalBalance;
-  let cumulative = 0;
-  
-  for (let year = 1; year <= termYears; year++) {
-    const startBalance = balance;
-    const interestAccrued = balance * refiRate;
-    const principalPaid = annualPayment - interestAccrued;
-    balance = Math.max(0, balance - principalPaid);
-    cumulative += annualPayment;
-    
-    yearlyBreakdown.push({
-      year,
-      startingBalance: Math.round(startBalance),
-      interestAccrued: Math.round(interestAccrued),
-      paymentsMade: Math.round(annualPayment),
-      endingBalance: Math.round(balance),
-      interestSubsidized: 0,
-      cumulativePayments: Math.round(cumulative),
-    });
-  }
+  const ledger = combineLedgers(preRepayment, runRefinance(principal, { rate: refiRate, termYears }));
+  
+  const annualPayments = getAnnualPayments(ledger.monthlySchedule);
+  const totalPayments = Math.round(ledger.totalPayments);
+  
+  // Federal loans are paid off in full by the refinance
+  const loanBreakdown = loans.map((loan, i) => ({
+    id: loan.id,
+    type: loan.type,
+    interestRate: loan.interestRate,
+    startingBalance: Math.round(getLoanTotal(loan)),
+    interestAccrued: preRepayment.loanBreakdown[i].interestAccrued,
+    paymentsApplied: Math.round(getLoanTotal(preRepayment.finalLoans[i])),
+    endingBalance: 0,
+  }));
   
   const npv = calculateNPV(annualPayments, 0, 0, inputs.preferences.discountRate);
   
@@ -254,12 +272,17 @@ function calculateRefiStrategy(
     forgivenessAmount: 0,
     taxOnForgiveness: 0,
     npv,
-    totalYears: termYears,
+    riskAdjustedNpv: npv,
+    refinance: { rate: refiRate, termYears },
+    totalYears: toDisplayYears(ledger.monthsElapsed),
+    totalMonths: ledger.monthsElapsed,
     monthlyPaymentRange: {
       min: monthlyPayment,
       max: monthlyPayment,
     },
-    yearlyBreakdown,
+    yearlyBreakdown: ledger.yearlyBreakdown,
+    monthlySchedule: ledger.monthlySchedule,
+    loanBreakdown,
     risks: [
       'Permanently lose all federal protections',
       'Cannot return to IDR or PSLF after refinancing',
@@ -275,36 +298,296 @@ function calculateRefiStrategy(
   };
 }
 
+// Longest horizon a multi-phase strategy is simulated for
+const MAX_STRATEGY_MONTHS = 30 * 12;
+
+/**
+ * Simulate a strategy made of ordered phases on one continuous schedule.
+ * Federal phases share a single ledger, so leaving IBR capitalizes interest
+ * and qualifying payments carry across plans.
+ * The run ends at forgiveness (PSLF if pursued, else the current plan's IDR
+ * term), or when a refinance phase starts and pays off the federal loans.
+ */
+function calculateMultiPhaseStrategy(
+  inputs: UserInputs,
+  incomeProjection: IncomeProjection[],
+  strategy: MultiPhaseStrategy
+): StrategyResult {
+  validateStrategyPhases(strategy);
+  
+  const phases = strategy.phases;
+  const loans = getFederalLoans(inputs.loans);
+  const asOfDate = getAnalysisDate(inputs.preferences);
+  const preRepayment = getPreRepaymentPhase(inputs);
+  const pslfCheck = checkPSLFEligibility(inputs);
+  const pslfPaymentsNeeded = strategy.pursuePSLF && pslfCheck.eligible
+    ? Math.max(0, PSLF.requiredPayments - inputs.loans.pslfQualifyingPayments)
+    : Infinity;
+  
+  const startMonths = [preRepayment.months];
+  const enrollments: PlanEnrollment[] = [];
+  let current = 0;
+  let phaseStart = 0;
+  let scheduler: LedgerScheduler | undefined;
+  let forgiveness: 'pslf' | 'idr' | undefined;
+  
+  const federal = runLedger(
+    loans,
+    preRepayment.months + MAX_STRATEGY_MONTHS,
+    withPreRepayment(preRepayment, (context) => {
+      const scheduleMonth = preRepayment.months + context.month;
+      const triggerContext = {
+        month: scheduleMonth,
+        balance: context.balance,
+        stage: incomeProjection[context.year]?.stage ?? 'attending',
+        asOfDate,
+      };
+      
+      const leaving = phases[current].plan;
+      let switched = false;
+      while (current < phases.length - 1 && isPhaseTriggered(phases[current + 1].startsWhen!, triggerContext)) {
+        current++;
+        switched = true;
+        startMonths.push(scheduleMonth);
+      }
+      
+      const phase = phases[current];
+      if (!phase.plan) return { payment: 0, stop: true };
+      
+      const plan = IDR_PLANS[phase.plan];
+      if (context.qualifyingPayments >= pslfPaymentsNeeded) {
+        forgiveness = 'pslf';
+        return { payment: 0, stop: true };
+      }
+      if (inputs.loans.idrQualifyingPayments + context.qualifyingPayments >= plan.forgivenessYears * 12) {
+        forgiveness = 'idr';
+        return { payment: 0, stop: true };
+      }
+      
+      if (switched || !scheduler) {
+        scheduler = createIDRScheduler(
+          inputs, phase.plan, incomeProjection, addMonthsToDate(asOfDate, scheduleMonth), enrollments
+        );
+        phaseStart = context.month;
+      }
+      
+      // Only plans that still capitalize on exit (IBR) do so when left
+      const step = scheduler({ ...context, month: context.month - phaseStart });
+      const capitalizes = switched && context.month > 0 && leaving && IDR_PLANS[leaving].capitalizesOnExit;
+      return capitalizes ? { ...step, capitalize: 'plan_exit' } : step;
+    }),
+    { capitalizationTriggers: inputs.preferences.capitalizationTriggers }
+  );
+  
+  // A refinance pays off whatever is left on the federal loans
+  const refinance = phases[current].refinance;
+  const repaid = refinance && federal.endingBalance > 0
+    ? combineLedgers(federal, runRefinance(federal.endingBalance, refinance))
+    : federal;
+  const ledger = withPrivateLoans(inputs, repaid);
+  
+  const phaseBreakdown = summarizePhases(ledger.monthlySchedule, phases, startMonths);
+  const annualPayments = getAnnualPayments(ledger.monthlySchedule);
+  const years = repaid.monthsElapsed / 12;
+  const forgivenessAmount = forgiveness ? Math.round(federal.endingBalance) : 0;
+  
+  const forgivenessYearIncome = incomeProjection[Math.ceil(years) - 1]?.income ||
+    incomeProjection[incomeProjection.length - 1].income;
+  const taxOnForgiveness = forgiveness === 'idr'
+    ? estimateTaxOnForgiveness(
+        forgivenessAmount,
+        forgivenessYearIncome,
+        inputs.personal.state,
+        inputs.personal.filingStatus,
+        inputs.personal.locality,
+        Math.max(0, Math.ceil(years) - 1)
+      )
+    : 0;
+  
+  const npv = calculateNPV(annualPayments, years, taxOnForgiveness, inputs.preferences.discountRate);
+  
+  const risks: string[] = [];
+  for (const phase of phaseBreakdown) {
+    if (!phase.planName) continue;
+    const eligibility = checkPlanEligibility(inputs, phase.planName);
+    if (!eligibility.eligible) {
+      risks.push(`Not currently eligible for ${phase.planName}: ${eligibility.reasons.join('; ')}`);
+    }
+    const sunsetsOn = IDR_PLANS[phase.planName].availability?.sunsetsOn;
+    if (sunsetsOn && addMonthsToDate(asOfDate, phase.startMonth - 1 + phase.months) > sunsetsOn) {
+      risks.push(`${phase.planName} ends on ${sunsetsOn}, before this phase does`);
+    }
+  }
+  if (strategy.pursuePSLF && !pslfCheck.eligible) {
+    risks.push(`Not PSLF-eligible: ${pslfCheck.reasons.join('; ')}`);
+  }
+  if (refinance) {
+    risks.push('Permanently lose all federal protections once you refinance');
+  }
+  if (forgiveness === 'idr') {
+    risks.push('Forgiveness is taxed as ordinary income');
+  }
+  
+  return {
+    strategyName: strategy.name,
+    description: strategy.description ?? phases.map(getPhaseName).join(' → '),
+    totalPayments: Math.round(ledger.totalPayments),
+    forgivenessAmount,
+    taxOnForgiveness,
+    npv,
+    riskAdjustedNpv: npv,
+    totalYears: toDisplayYears(ledger.monthsElapsed),
+    totalMonths: ledger.monthsElapsed,
+    monthlyPaymentRange: getPaymentRange(ledger.monthlySchedule.slice(preRepayment.months)),
+    yearlyBreakdown: ledger.yearlyBreakdown,
+    monthlySchedule: ledger.monthlySchedule,
+    loanBreakdown: ledger.loanBreakdown,
+    phaseBreakdown,
+    enrollments,
+    risks,
+    benefits: [
+      phases[0].plan ? 'Income-driven payments while income is low' : '',
+      refinance ? 'Refinancing once income rises locks in a lower rate' : '',
+      forgiveness === 'pslf' ? 'PSLF forgiveness is completely tax-free' : '',
+    ].filter(Boolean),
+  };
+}
+
 // ============================================
 // Main Comparison Function
 // ============================================
 
-export function compareAllStrategies(inputs: UserInputs): StrategyResult[] {
-  const results: StrategyResult[] = [];
-  const incomeProjection = projectIncome(inputs.career, 30);
+// Preferred underlying plans for PSLF, in order. Plans that stay open for
+// the whole 10 years come first, so payments aren't projected past a sunset.
+const PSLF_UNDERLYING_PLANS = ['IBR_NEW', 'IBR_OLD', 'RAP', 'PAYE', 'ICR'];
+
+function getCandidatePlans(inputs: UserInputs): string[] {
+  const candidatePlans = ['PAYE', 'IBR_NEW', 'IBR_OLD', 'ICR', 'RAP'];
   
-  // 1. PSLF (if eligible)
-  if (inputs.personal.pslfEligibleEmployer) {
-    results.push(calculatePSLFStrategy(inputs, incomeProjection, 'PAYE'));
+  if (inputs.preferences.savePlanAvailable) {
+    candidatePlans.unshift('SAVE');
   }
   
-  // 2. IDR plans
-  const plansToCompare = ['PAYE', 'IBR_NEW'];
+  return candidatePlans;
+}
+
+/**
+ * Every strategy the borrower can use, run on the ledger, in no particular
+ * order and without the reports compareAllStrategies adds.
+ */
+export function calculateStrategies(
+  inputs: UserInputs,
+  incomeProjection: IncomeProjection[],
+  scenario: StrategyScenario = {}
+): StrategyResult[] {
+  const results: StrategyResult[] = [];
+  const refiRateOffset = scenario.refiRateOffset ?? 0;
   
-  if (inputs.preferences.savePlanAvailable) {
-    plansToCompare.unshift('SAVE');
+  // 1. PSLF (if eligible), using the best plan the borrower can enroll in
+  if (checkPSLFEligibility(inputs).eligible) {
+    const pslfPlan = PSLF_UNDERLYING_PLANS.find(name => checkPlanEligibility(inputs, name).eligible);
+    if (pslfPlan) {
+      results.push(calculatePSLFStrategy(inputs, incomeProjection, pslfPlan));
+    }
   }
   
-  for (const planName of plansToCompare) {
-    results.push(calculateIDRStrategy(inputs, incomeProjection, planName));
+  // 2. IDR plans the borrower is eligible for
+  for (const planName of getCandidatePlans(inputs)) {
+    if (checkPlanEligibility(inputs, planName).eligible) {
+      results.push(calculateIDRStrategy(inputs, incomeProjection, planName));
+    }
   }
   
   // 3. Refinance options
-  results.push(calculateRefiStrategy(inputs, incomeProjection, 0.055, 10));
-  results.push(calculateRefiStrategy(inputs, incomeProjection, 0.06, 7));
+  results.push(calculateRefiStrategy(inputs, incomeProjection, DEFAULTS.refiRate + refiRateOffset, DEFAULTS.refiTermYears));
+  results.push(calculateRefiStrategy(inputs, incomeProjection, 0.06 + refiRateOffset, 7));
   
-  // Sort by NPV (lowest = best)
-  return results.sort((a, b) => a.npv - b.npv);
+  return results;
+}
+
+export function compareAllStrategies(inputs: UserInputs, scenario: StrategyScenario = {}): StrategyResult[] {
+  const incomeProjection = projectIncome(inputs.career, 30, scenario.incomeGrowthRate);
+  const results = calculateStrategies(inputs, incomeProjection, scenario);
+  
+  // Check payments against take-home pay, then rank by risk-adjusted NPV plus
+  // a penalty for spread, per risk tolerance (lowest = best), and report in
+  // nominal or today's dollars
+  const affordable = withAffordability(inputs, incomeProjection, results);
+  const ranked = withDollarMode(
+    withSinkingFunds(withNetWorth(rankByUtility(affordable, inputs.preferences), inputs.preferences), inputs.preferences),
+    inputs.preferences
+  );
+  return inputs.personal.retirementContributions
+    ? withRetirementImpact(inputs, scenario, incomeProjection, ranked)
+    : ranked;
+}
+
+/**
+ * Copies of the results with what the borrower's pre-tax contributions do
+ * over each strategy's repayment years: how much lower the loan payments
+ * are than without contributing, and how much retirement money builds up,
+ * in the dollars results are reported in.
+ */
+function withRetirementImpact(
+  inputs: UserInputs,
+  scenario: StrategyScenario,
+  incomeProjection: IncomeProjection[],
+  results: StrategyResult[]
+): StrategyResult[] {
+  const { retirementContributions, ...personal } = inputs.personal;
+  // Keep every strategy in the baseline, even ones over budget without contributing
+  const preferences = { ...inputs.preferences, affordability: { ...inputs.preferences.affordability, excludeUnaffordable: false } };
+  const withoutContributions = compareAllStrategies({ ...inputs, personal, preferences }, scenario);
+  const contributions = projectRetirementContributions(inputs, incomeProjection);
+  const real = getDollarMode(inputs.preferences) === 'real';
+  
+  return results.map(result => {
+    const made = contributions.slice(0, Math.ceil(result.totalMonths / 12));
+    const baseline = withoutContributions.find(other => isSameStrategy(other, result));
+    const reported = real ? made.map((amount, year) => toTodaysDollars(amount, year)) : made;
+    const retirementBalance = getRetirementBalance(made, inputs.preferences);
+    return {
+      ...result,
+      retirement: {
+        contributions: Math.round(reported.reduce((total, amount) => total + amount, 0)),
+        retirementBalance: real ? Math.round(toTodaysDollars(retirementBalance, made.length - 1)) : retirementBalance,
+        paymentReduction: baseline ? baseline.totalPayments - result.totalPayments : 0,
+      },
+    };
+  });
+}
+
+/**
+ * Whether two results are the same strategy. Refinance names include the
+ * rate, so a refinance is matched by its term.
+ */
+export function isSameStrategy(a: StrategyResult, b: StrategyResult): boolean {
+  if (a.refinance && b.refinance) return a.refinance.termYears === b.refinance.termYears;
+  return a.strategyName === b.strategyName;
+}
+
+/**
+ * Strategies the borrower can't use, with the reasons, so they can be shown
+ * alongside the ranked results instead of being recommended.
+ */
+export function getIneligibleStrategies(inputs: UserInputs): PlanEligibility[] {
+  const ineligible: PlanEligibility[] = [];
+  
+  if (inputs.personal.pslfEligibleEmployer) {
+    const pslf = checkPSLFEligibility(inputs);
+    if (!pslf.eligible) ineligible.push(pslf);
+  }
+  
+  const checks = evaluatePlanEligibility(inputs, getCandidatePlans(inputs));
+  const ibrEligible = checks.some(c => c.planName.startsWith('IBR') && c.eligible);
+  
+  for (const check of checks) {
+    // Old and new IBR are mutually exclusive; only the applicable one matters
+    if (check.eligible || (ibrEligible && check.planName.startsWith('IBR'))) continue;
+    ineligible.push(check);
+  }
+  
+  return ineligible;
 }
 
 // ============================================
@@ -316,17 +599,21 @@ export function generateRecommendation(
   results: StrategyResult[]
 ): Recommendation {
   const specialty = getSpecialty(inputs.career.specialty);
+  const loans = getPortfolioLoans(inputs.loans);
+  const portfolio = summarizeLoans(loans);
   const dti = getDebtToIncomeRatio(
-    inputs.loans.totalBalance,
+    portfolio.totalBalance,
     inputs.career.expectedAttendingSalary || specialty.medianAttendingSalary
   );
   
   const best = results[0];
   const secondBest = results[1];
-  const npvDifference = secondBest ? secondBest.npv - best.npv : 0;
+  // Ranked results carry their nominal utility cost, whatever dollars they're reported in
+  const utilityCost = (result: StrategyResult): number => result.utilityCost ?? getUtilityCost(result, inputs.preferences);
+  const npvDifference = secondBest ? utilityCost(secondBest) - utilityCost(best) : 0;
   
   const refiResult = results.find(r => r.strategyName.includes('Refinance'));
-  const savingsVsRefi = refiResult ? refiResult.npv - best.npv : 0;
+  const savingsVsRefi = refiResult ? refiResult.riskAdjustedNpv - best.riskAdjustedNpv : 0;
   
   const reasoning: string[] = [];
   let confidence: 'high' | 'medium' | 'low' = 'high';
@@ -340,6 +627,27 @@ export function generateRecommendation(
     reasoning.push(`Moderate debt-to-income ratio (${dti}) - outcome depends on employment and preferences`);
   }
   
+  // Loan-level guidance: high-rate loans are the ones refinancing helps most
+  if (loans.length > 1) {
+    const aboveRefiRate = loans.filter(loan => loan.interestRate > DEFAULTS.refiRate);
+    if (aboveRefiRate.length > 0 && aboveRefiRate.length < loans.length) {
+      const highRateBalance = summarizeLoans(aboveRefiRate).totalBalance;
+      reasoning.push(
+        `${aboveRefiRate.length} of your ${loans.length} loans (${formatMoney(highRateBalance)}) carry rates above ${(DEFAULTS.refiRate * 100).toFixed(1)}%`
+      );
+    }
+  }
+  
+  // Risk tolerance: explain when avoiding spread beat the lowest expected cost
+  const npvBest = results.reduce((lowest, r) => (r.riskAdjustedNpv < lowest.riskAdjustedNpv ? r : lowest), best);
+  if (npvBest !== best) {
+    reasoning.push(
+      `Your ${inputs.preferences.riskTolerance} risk tolerance favors ${best.strategyName} over ${npvBest.strategyName}, ` +
+      `which costs ${formatMoney(best.riskAdjustedNpv - npvBest.riskAdjustedNpv)} less on average (NPV) ` +
+      `but could swing by ±${formatMoney(npvBest.outcomeSpread ?? getOutcomeSpread(npvBest, inputs.preferences))}`
+    );
+  }
+  
   // PSLF-specific reasoning
   if (best.strategyName === 'PSLF') {
     if (inputs.preferences.pslfConfidence < 0.7) {
@@ -347,12 +655,34 @@ export function generateRecommendation(
       reasoning.push('PSLF is optimal but your confidence in the program affects certainty');
     }
     
+    if (best.pslfFallback && best.riskAdjustedNpv !== best.npv) {
+      reasoning.push(
+        `At ${Math.round(inputs.preferences.pslfConfidence * 100)}% confidence, PSLF's expected cost is ${formatMoney(best.riskAdjustedNpv)} (NPV), ` +
+        `weighing ${formatMoney(best.npv)} if it holds against ${formatMoney(best.pslfFallback.npv)} if it ends in year ${best.pslfFallback.failureYear}`
+      );
+    }
+    
     const highIncomeSpecialties = ['orthopedic_surgery', 'cardiology', 'gastroenterology', 'neurosurgery', 'dermatology'];
     if (highIncomeSpecialties.includes(inputs.career.specialty)) {
       reasoning.push('High-income specialty - verify PSLF-eligible employment is achievable and sustainable');
     }
     
-    reasoning.push(`PSLF saves ~${formatMoney(savingsVsRefi)} vs refinancing (NPV)`);
+    reasoning.push(`PSLF saves ~${formatMoney(savingsVsRefi)} vs refinancing (risk-adjusted NPV)`);
+  }
+  
+  // Affordability: payments over budget make the recommendation harder to follow
+  if (best.affordability && !best.affordability.affordable) {
+    if (confidence === 'high') confidence = 'medium';
+    reasoning.push(
+      `Warning: ${best.strategyName} payments take ${Math.round(best.affordability.peakShare * 100)}% of take-home pay ` +
+      `in year ${best.affordability.peakShareYear}, more than your budget allows`
+    );
+  }
+  const overBudget = results.slice(1).filter(r => r.affordability && !r.affordability.affordable);
+  if (overBudget.length > 0) {
+    reasoning.push(`Over budget: ${overBudget.map(r => r.strategyName).join(', ')}`);
+  } else if (inputs.preferences.affordability?.excludeUnaffordable && best.affordability?.affordable) {
+    reasoning.push('Only strategies whose payments fit your budget were compared');
   }
   
   // Close call detection
@@ -363,13 +693,24 @@ export function generateRecommendation(
     );
   }
   
-  // Tax bomb warning
+  // Tax bomb warning, with the monthly savings that would cover it
   if (best.taxOnForgiveness > 50000) {
+    const fund = best.sinkingFund;
+    reasoning.push(fund
+      ? `Warning: ${formatMoney(best.taxOnForgiveness)} tax liability at forgiveness - set aside ` +
+        `${formatMoney(fund.monthlyContribution)}/month (at ${(fund.afterTaxReturn * 100).toFixed(1)}% after tax) to cover it`
+      : `Warning: ${formatMoney(best.taxOnForgiveness)} tax liability at forgiveness - start saving now`
+    );
+  }
+
+  // Pre-tax retirement contributions lower the AGI IDR payments are based on
+  if (best.retirement && best.retirement.paymentReduction > 0) {
     reasoning.push(
-      `Warning: ${formatMoney(best.taxOnForgiveness)} tax liability at forgiveness - start saving now`
+      `Pre-tax retirement contributions lower your ${best.strategyName} payments by ${formatMoney(best.retirement.paymentReduction)} ` +
+      `and build ${formatMoney(best.retirement.retirementBalance)} for retirement over ${best.totalYears} years`
     );
   }
-  
+
   // PSLF Salary Premium calculation
   const pslfResult = results.find(r => r.strategyName === 'PSLF');
   const bestNonPslfResult = results.find(r => r.strategyName !== 'PSLF');
@@ -384,6 +725,7 @@ export function generateRecommendation(
       attendingSalary: inputs.career.expectedAttendingSalary || specialty.medianAttendingSalary,
       filingStatus: inputs.personal.filingStatus,
       state: inputs.personal.state,
+      locality: inputs.personal.locality,
     });
   }
 
@@ -438,7 +780,7 @@ export function runQuickAnalysis(quick: QuickStartInputs): {
       discountRate: DEFAULTS.discountRate,
       pslfConfidence: DEFAULTS.pslfConfidence,
       savePlanAvailable: DEFAULTS.savePlanAvailable,
-      riskTolerance: 'medium',
+      riskTolerance: quick.riskTolerance ?? 'medium',
     },
   };
   
@@ -452,6 +794,218 @@ export function runQuickAnalysis(quick: QuickStartInputs): {
 // Helpers
 // ============================================
 
+/**
+ * Monthly IDR payment on the AGI from the `taxYear` return, less the
+ * borrower's pre-tax retirement contributions that year (split with the
+ * spouse under MFS in a community-property state), capped (for PAYE/IBR) at
+ * the standard payment fixed when the borrower enrolled. Filing status,
+ * spouse income and contribution limits are the return's; the poverty line
+ * is that of the 0-based projection `year` the payment is made in.
+ */
+function getIDRMonthlyPayment(
+  inputs: UserInputs,
+  plan: IDRPlanParams,
+  income: number,
+  enrollment: PlanEnrollment,
+  taxYear: number,
+  year: number
+): number {
+  const monthlyPayment = calculateIDRPayment(
+    plan,
+    income,
+    inputs.personal.familySize,
+    getSpouseIncomeForTaxYear(inputs, taxYear),
+    getFilingStatusForTaxYear(inputs, taxYear),
+    getPreTaxContribution(inputs, income, getProjectionYearForTaxYear(inputs, taxYear)),
+    splitsCommunityIncome(inputs.personal),
+    year
+  );
+  
+  return getEffectiveIDRPayment(
+    plan,
+    monthlyPayment,
+    enrollment.entryBalance,
+    enrollment.entryInterestRate
+  );
+}
+
+/**
+ * Monthly ledger schedule for an IDR plan. The borrower enrolls in the
+ * first month the schedule runs (recorded in `enrollments`), unless they're
+ * already in this plan, and payments follow the income on their most
+ * recent recertification, under the filing status of the return that
+ * income came from.
+ * Under plans that cap payments at the 10-year standard amount, a
+ * recertification at which the income-based payment reaches the cap is a
+ * loss of partial financial hardship, which capitalizes outstanding interest.
+ */
+function createIDRScheduler(
+  inputs: UserInputs,
+  planName: string,
+  incomeProjection: IncomeProjection[],
+  enrolledOn: string,
+  enrollments: PlanEnrollment[]
+): LedgerScheduler {
+  const plan = IDR_PLANS[planName];
+  const recertify = createRecertificationTracker(inputs, incomeProjection, enrolledOn);
+  let enrollment: PlanEnrollment | undefined;
+  let hadHardship = true;
+  // The payment only changes with the recertified income or the year's indexing
+  let priced: { income: RecertifiedIncome; year: number; payment: number } | undefined;
+  
+  return ({ month, year, loans }) => {
+    if (!enrollment) {
+      const existing = inputs.loans.currentEnrollment;
+      enrollment = enrollments.length === 0 && existing?.planName === planName
+        ? existing
+        : createPlanEnrollment(planName, [...loans], enrolledOn);
+      enrollments.push(enrollment);
+    }
+    
+    const income = recertify(month, year);
+    if (priced?.income !== income || priced.year !== year) {
+      priced = {
+        income,
+        year,
+        payment: getIDRMonthlyPayment(inputs, plan, income.agi, enrollment, income.agiTaxYear, year),
+      };
+    }
+    const step: LedgerStep = {
+      payment: priced.payment,
+      plan,
+      agiTaxYear: income.agiTaxYear,
+    };
+    
+    if (plan.capsPaymentAt10YearStandard && income.recertified) {
+      const hasHardship = step.payment < enrollment.standardPaymentCap;
+      if (month > 0 && hadHardship && !hasHardship) {
+        step.capitalize = 'pfh_loss';
+      }
+      hadHardship = hasHardship;
+    }
+    
+    return step;
+  };
+}
+
+// Plans a borrower falls back to if PSLF ends, in order
+const PSLF_FALLBACK_PLANS = ['IBR_NEW', 'IBR_OLD', 'RAP'];
+
+/**
+ * The cheaper way out if PSLF ends in the borrower's failure year, before
+ * forgiveness: keep repaying under IBR toward IDR forgiveness, or refinance
+ * the balance left at that point. Undefined if PSLF would already be done.
+ */
+function calculatePSLFFallback(
+  inputs: UserInputs,
+  incomeProjection: IncomeProjection[],
+  underlyingPlan: string,
+  pslfMonths: number
+): PSLFFallback | undefined {
+  const failureYear = inputs.preferences.pslfFailureYear ?? Math.max(1, Math.floor(pslfMonths / 24));
+  if (failureYear * 12 >= pslfMonths) return undefined;
+  
+  const startsWhen = { type: 'year', year: failureYear } as const;
+  const idrPlan = PSLF_FALLBACK_PLANS.find(name => checkPlanEligibility(inputs, name).eligible) ?? underlyingPlan;
+  const options: MultiPhaseStrategy[] = [
+    {
+      name: `${idrPlan} after PSLF ends`,
+      phases: idrPlan === underlyingPlan
+        ? [{ plan: underlyingPlan }]
+        : [{ plan: underlyingPlan }, { plan: idrPlan, startsWhen }],
+    },
+    {
+      name: 'Refinance after PSLF ends',
+      phases: [
+        { plan: underlyingPlan },
+        { refinance: { rate: DEFAULTS.refiRate, termYears: DEFAULTS.refiTermYears }, startsWhen },
+      ],
+    },
+  ];
+  
+  const best = options
+    .map(option => calculateMultiPhaseStrategy(inputs, incomeProjection, option))
+    .reduce((cheapest, result) => (result.npv < cheapest.npv ? result : cheapest));
+  
+  return { failureYear, strategyName: best.strategyName, npv: best.npv };
+}
+
+/**
+ * Amortize a refinanced balance on the ledger as one private loan.
+ */
+function runRefinance(principal: number, terms: RefinanceTerms): LedgerResult {
+  const monthlyPayment = calculateAmortizationPayment(principal, terms.rate, terms.termYears);
+  const termMonths = terms.termYears * 12;
+  
+  return runLedger(
+    [{ id: 'refinance', type: 'private', balance: principal, interestRate: terms.rate, outstandingInterest: 0 }],
+    termMonths,
+    ({ month, balance }) => ({
+      // Final payment clears any rounding residue from the whole-dollar payment
+      payment: month === termMonths - 1
+        ? Math.max(monthlyPayment, balance * (1 + terms.rate / 12))
+        : monthlyPayment,
+      qualifying: false,
+    })
+  );
+}
+
+/**
+ * Repay the borrower's private loans on their own: deferred alongside the
+ * federal loans until repayment starts, then a level payment that clears
+ * each one over DEFAULTS.privateLoanTermYears. Runs for up to `months`
+ * months (the whole term by default); undefined without private loans.
+ */
+export function runPrivateLoans(inputs: UserInputs, months?: number): LedgerResult | undefined {
+  const privateLoans = getPrivateLoans(inputs.loans);
+  if (privateLoans.length === 0) return undefined;
+  
+  const preRepayment = getPreRepaymentPhase(inputs);
+  const termYears = DEFAULTS.privateLoanTermYears;
+  const termMonths = termYears * 12;
+  const topRate = Math.max(...privateLoans.map(loan => loan.interestRate));
+  let monthlyPayment: number | undefined;
+  
+  return runLedger(
+    privateLoans,
+    months ?? preRepayment.months + termMonths,
+    withPreRepayment(preRepayment, ({ month, loans, balance }) => {
+      // Interest from school and grace is owed too, so it's amortized with the principal
+      monthlyPayment ??= loans.reduce(
+        (total, loan) => total + calculateAmortizationPayment(getLoanTotal(loan), loan.interestRate, termYears),
+        0
+      );
+      return {
+        // Final payment clears any rounding residue from the whole-dollar payment
+        payment: month === termMonths - 1 ? Math.max(monthlyPayment, balance * (1 + topRate / 12)) : monthlyPayment,
+        qualifying: false,
+      };
+    }),
+    { capitalizationTriggers: inputs.preferences.capitalizationTriggers }
+  );
+}
+
+/**
+ * A federal ledger run with the borrower's private loans repaid alongside.
+ */
+function withPrivateLoans(inputs: UserInputs, federal: LedgerResult): LedgerResult {
+  const privateLoans = runPrivateLoans(inputs);
+  return privateLoans ? mergeLedgers(federal, privateLoans) : federal;
+}
+
+function getPaymentRange(schedule: MonthlyLedgerEntry[]): { min: number; max: number } {
+  if (schedule.length === 0) return { min: 0, max: 0 };
+  const payments = schedule.map(entry => entry.scheduledPayment);
+  return {
+    min: Math.round(Math.min(...payments)),
+    max: Math.round(Math.max(...payments)),
+  };
+}
+
+function toDisplayYears(months: number): number {
+  return Math.round((months / 12) * 10) / 10;
+}
+
 function calculateTrainingRemaining(currentStage: string, typicalYears: number): number {
   const stageYears: Record<string, number> = {
     ms4: typicalYears,
@@ -468,13 +1022,16 @@ function calculateTrainingRemaining(currentStage: string, typicalYears: number):
   return stageYears[currentStage] ?? typicalYears;
 }
 
+// Built once: strategies are priced many times over in simulations
+const MONEY_FORMAT = new Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: 'USD',
+  minimumFractionDigits: 0,
+  maximumFractionDigits: 0,
+});
+
 function formatMoney(amount: number): string {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(amount);
+  return MONEY_FORMAT.format(amount);
 }
 
 // ============================================
@@ -485,4 +1042,6 @@ export {
   calculatePSLFStrategy,
   calculateIDRStrategy,
   calculateRefiStrategy,
+  calculateMultiPhaseStrategy,
+  getCandidatePlans,
 };
@@ -0,0 +1,264 @@
+import type {
+  FilingStatus,
+  TaxBracket,
+  TaxReturn,
+  FederalTaxBreakdown,
+  StateTaxSchedule,
+  PersonalInfo,
+} from './types.js';
+
+import {
+  FEDERAL_BRACKETS_SINGLE,
+  FEDERAL_BRACKETS_MFJ,
+  FEDERAL_BRACKETS_MFS,
+  STANDARD_DEDUCTION,
+  STUDENT_LOAN_INTEREST_DEDUCTION,
+  CHILD_TAX_CREDIT,
+  FICA,
+  STATE_TAX_BRACKETS,
+  LOCAL_TAX_BRACKETS,
+  COMMUNITY_PROPERTY_STATES,
+} from './constants.js';
+import { indexToYear, indexBrackets } from './inflation.js';
+
+// ============================================
+// Federal Tax Engine
+//
+// A federal return from wages and other income: AGI after pre-tax
+// contributions and the student loan interest deduction, the standard or
+// itemized deduction, bracket tax, the child tax credit, and FICA on wages.
+// Married couples filing separately lose the student loan interest
+// deduction, and must itemize if the other spouse does. Brackets, the
+// standard deduction, the interest deduction's phase-out, the refundable
+// part of the child credit and the Social Security wage base are indexed to
+// inflation in later projection years.
+// ============================================
+
+function getBrackets(filingStatus: FilingStatus): TaxBracket[] {
+  switch (filingStatus) {
+    case 'mfj': return FEDERAL_BRACKETS_MFJ;
+    case 'mfs': return FEDERAL_BRACKETS_MFS;
+    default: return FEDERAL_BRACKETS_SINGLE;
+  }
+}
+
+function calculateBracketTax(taxableIncome: number, brackets: TaxBracket[]): number {
+  let tax = 0;
+  let remainingIncome = taxableIncome;
+
+  for (let i = brackets.length - 1; i >= 0; i--) {
+    const bracket = brackets[i];
+    if (remainingIncome > bracket.threshold) {
+      const taxableInBracket = remainingIncome - bracket.threshold;
+      tax += taxableInBracket * bracket.rate;
+      remainingIncome = bracket.threshold;
+    }
+  }
+
+  return Math.round(tax);
+}
+
+/**
+ * Bracket tax on taxable income (after deductions), before credits.
+ */
+export function calculateFederalTax(
+  taxableIncome: number,
+  filingStatus: FilingStatus,
+  year: number = 0
+): number {
+  return calculateBracketTax(taxableIncome, indexBrackets(getBrackets(filingStatus), year));
+}
+
+/**
+ * Children the household can claim for the child tax credit: everyone in
+ * the family besides the borrower and, if married, the spouse.
+ */
+export function getQualifyingChildren(filingStatus: FilingStatus, familySize: number): number {
+  return Math.max(0, familySize - (filingStatus === 'single' ? 1 : 2));
+}
+
+/**
+ * Deductible student loan interest, phased out over a MAGI range. Not
+ * available when married filing separately.
+ */
+export function getStudentLoanInterestDeduction(
+  interestPaid: number,
+  magi: number,
+  filingStatus: FilingStatus,
+  year: number = 0
+): number {
+  if (filingStatus === 'mfs' || interestPaid <= 0) return 0;
+  const phaseOut = STUDENT_LOAN_INTEREST_DEDUCTION.phaseOut[filingStatus];
+  const start = indexToYear(phaseOut.start, year);
+  const end = indexToYear(phaseOut.end, year);
+  const allowed = Math.min(1, Math.max(0, (end - magi) / (end - start)));
+  return Math.round(Math.min(interestPaid, STUDENT_LOAN_INTEREST_DEDUCTION.max) * allowed);
+}
+
+/**
+ * Child tax credit after the income phase-out. The part income tax doesn't
+ * absorb is refundable up to a per-child cap and a share of earned income.
+ */
+export function getChildTaxCredit(
+  qualifyingChildren: number,
+  agi: number,
+  earnedIncome: number,
+  incomeTax: number,
+  filingStatus: FilingStatus,
+  year: number = 0
+): number {
+  if (qualifyingChildren <= 0) return 0;
+  const overThreshold = Math.max(0, agi - CHILD_TAX_CREDIT.phaseOutStart[filingStatus]);
+  const reduction = Math.ceil(overThreshold / 1000) * CHILD_TAX_CREDIT.phaseOutPer1000;
+  const credit = Math.max(0, qualifyingChildren * CHILD_TAX_CREDIT.perChild - reduction);
+
+  const nonrefundable = Math.min(credit, incomeTax);
+  const refundable = Math.min(
+    credit - nonrefundable,
+    qualifyingChildren * indexToYear(CHILD_TAX_CREDIT.refundablePerChild, year),
+    Math.max(0, (earnedIncome - CHILD_TAX_CREDIT.refundableEarnedIncomeFloor) * CHILD_TAX_CREDIT.refundableRate)
+  );
+  return Math.round(nonrefundable + refundable);
+}
+
+/**
+ * Employee Social Security and Medicare tax. The Social Security wage base
+ * applies to each earner; the additional Medicare threshold to the return.
+ */
+export function calculateFICA(
+  wages: number,
+  filingStatus: FilingStatus,
+  spouseWages: number = 0,
+  year: number = 0
+): number {
+  const wageBase = indexToYear(FICA.socialSecurityWageBase, year);
+  const socialSecurity = (Math.min(wages, wageBase) + Math.min(spouseWages, wageBase)) * FICA.socialSecurityRate;
+  const totalWages = wages + spouseWages;
+  const medicare = totalWages * FICA.medicareRate +
+    Math.max(0, totalWages - FICA.additionalMedicareThreshold[filingStatus]) * FICA.additionalMedicareRate;
+  return Math.round(socialSecurity + medicare);
+}
+
+/**
+ * Federal income and payroll tax on one return.
+ */
+export function calculateFederalTaxes(taxReturn: TaxReturn): FederalTaxBreakdown {
+  const {
+    filingStatus,
+    wages,
+    reportedWages = wages,
+    spouseWages = 0,
+    otherIncome = 0,
+    preTaxContributions = 0,
+    studentLoanInterest = 0,
+    itemizedDeductions = 0,
+    spouseItemizes = false,
+    qualifyingChildren = 0,
+    year = 0,
+  } = taxReturn;
+
+  const earnedIncome = reportedWages + spouseWages;
+  const magi = Math.max(0, earnedIncome + otherIncome - preTaxContributions);
+  const studentLoanInterestDeduction = getStudentLoanInterestDeduction(studentLoanInterest, magi, filingStatus, year);
+  const agi = magi - studentLoanInterestDeduction;
+
+  const standardDeduction = filingStatus === 'mfs' && spouseItemizes ? 0 : indexToYear(STANDARD_DEDUCTION[filingStatus], year);
+  const deduction = Math.max(standardDeduction, itemizedDeductions);
+  const taxableIncome = Math.max(0, agi - deduction);
+
+  const incomeTax = calculateFederalTax(taxableIncome, filingStatus, year);
+  const childTaxCredit = getChildTaxCredit(qualifyingChildren, agi, earnedIncome, incomeTax, filingStatus, year);
+  const fica = calculateFICA(wages, filingStatus, spouseWages, year);
+
+  return {
+    agi,
+    studentLoanInterestDeduction,
+    deduction,
+    taxableIncome,
+    incomeTax,
+    childTaxCredit,
+    fica,
+    totalTax: incomeTax - childTaxCredit + fica,
+  };
+}
+
+// ============================================
+// State and Local Income Tax
+// ============================================
+
+function getScheduleBrackets(schedule: StateTaxSchedule, filingStatus: FilingStatus): TaxBracket[] {
+  return filingStatus === 'mfj' && schedule.mfj ? schedule.mfj : schedule.single;
+}
+
+/**
+ * State income tax, plus city tax for a borrower living in a locality
+ * with its own, with brackets indexed to the projection year. Throws on a
+ * state or locality code it doesn't know.
+ */
+export function calculateStateTax(
+  income: number,
+  state: string,
+  filingStatus: FilingStatus,
+  locality?: string,
+  year: number = 0
+): number {
+  const schedule = STATE_TAX_BRACKETS[state];
+  if (!schedule) {
+    throw new Error(`Unknown state code ${state}`);
+  }
+  let tax = calculateBracketTax(income, indexBrackets(getScheduleBrackets(schedule, filingStatus), year));
+
+  if (locality) {
+    const local = LOCAL_TAX_BRACKETS[locality];
+    if (!local || local.state !== state) {
+      throw new Error(`Unknown locality ${locality} in ${state}`);
+    }
+    tax += calculateBracketTax(income, indexBrackets(getScheduleBrackets(local, filingStatus), year));
+  }
+
+  return tax;
+}
+
+/**
+ * State and local tax on the next $10,000 of income, as a rate.
+ */
+export function getMarginalStateRate(
+  income: number,
+  state: string,
+  filingStatus: FilingStatus,
+  locality?: string
+): number {
+  const base = calculateStateTax(income, state, filingStatus, locality);
+  return (calculateStateTax(income + 10000, state, filingStatus, locality) - base) / 10000;
+}
+
+// ============================================
+// Community Property
+// ============================================
+
+export function isCommunityPropertyState(state: string): boolean {
+  return COMMUNITY_PROPERTY_STATES.includes(state);
+}
+
+/**
+ * Income each spouse reports on a separate return: their own, or in a
+ * community-property state half of the couple's combined income.
+ */
+export function getSeparateReturnIncomes(
+  borrowerIncome: number,
+  spouseIncome: number,
+  communityProperty: boolean
+): { borrower: number; spouse: number } {
+  if (!communityProperty) return { borrower: borrowerIncome, spouse: spouseIncome };
+  const half = (borrowerIncome + spouseIncome) / 2;
+  return { borrower: half, spouse: half };
+}
+
+/**
+ * Whether IDR payments under MFS are based on half the couple's community
+ * income, as on the split tax return. Servicers let borrowers in
+ * community-property states document their own income instead.
+ */
+export function splitsCommunityIncome(personal: PersonalInfo): boolean {
+  return isCommunityPropertyState(personal.state) && !personal.alternativeDocumentation;
+}
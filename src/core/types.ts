@@ -2,45 +2,114 @@
 // Core Types for Med Debt Optimizer
 // ============================================
 
-export type LoanType = 'direct_unsub' | 'direct_sub' | 'direct_plus' | 'ffel' | 'perkins';
+export type LoanType =
+  | 'direct_unsub' | 'direct_sub' | 'direct_plus' | 'direct_consolidation'
+  | 'parent_plus' | 'ffel' | 'perkins' | 'private';
 export type FilingStatus = 'single' | 'mfj' | 'mfs';
 export type TrainingStage = 'ms4' | 'pgy1' | 'pgy2' | 'pgy3' | 'pgy4' | 'pgy5' | 'pgy6' | 'pgy7' | 'fellow' | 'attending';
 export type RiskTolerance = 'low' | 'medium' | 'high';
-export type IDRPlanName = 'SAVE' | 'PAYE' | 'IBR_NEW' | 'IBR_OLD' | 'ICR';
+export type IDRPlanName = 'SAVE' | 'PAYE' | 'IBR_NEW' | 'IBR_OLD' | 'ICR' | 'RAP';
+export type IDRPaymentFormula = 'discretionary' | 'rap';
 
 // ============================================
 // Input Types
 // ============================================
 
+export interface Loan {
+  id: string;
+  type: LoanType;
+  balance: number;                 // outstanding principal
+  interestRate: number;            // decimal, e.g., 0.065 for 6.5%
+  disbursementDate?: string;       // ISO date, e.g., '2019-08-15'
+  outstandingInterest: number;     // accrued but not yet capitalized
+  consolidatedTypes?: LoanType[];  // underlying loan types of a Direct Consolidation loan
+  pslfQualifyingPayments?: number; // per-loan counts; default to the portfolio's counts
+  idrQualifyingPayments?: number;
+}
+
 export interface LoanPortfolio {
   totalBalance: number;
   weightedInterestRate: number;  // decimal, e.g., 0.065 for 6.5%
   loanTypes: LoanType[];
   pslfQualifyingPayments: number;  // 0-120
   idrQualifyingPayments: number;   // 0-300
+  loans?: Loan[];                  // per-loan detail; totals above are derived from it when present
+  firstBorrowedDate?: string;      // ISO date of first federal loan ever; defaults to earliest disbursement
+  currentEnrollment?: PlanEnrollment;  // plan the borrower is already repaying under
+}
+
+export interface PlanEnrollment {
+  planName: string;
+  enrolledOn: string;              // ISO date
+  entryBalance: number;            // principal + interest when entering the plan
+  entryInterestRate: number;
+  standardPaymentCap: number;      // 10-year standard payment at entry; caps PAYE/IBR payments
 }
 
 export interface PersonalInfo {
   agi: number;
   spouseAgi: number;
+  spouseIncomeGrowth?: number;      // yearly; defaults to DEFAULTS.incomeGrowthRate
   filingStatus: FilingStatus;
+  filingStatusByYear?: FilingStatus[];  // per projection tax year (0 = the analysis year's return); defaults to filingStatus
   familySize: number;
   state: string;
   pslfEligibleEmployer: boolean;
+  retirementContributions?: RetirementContributions;  // pre-tax, each year
+  itemizedDeductions?: number;      // household itemized deductions, if more than the standard deduction
+  locality?: string;                // city with its own income tax, e.g. 'NYC'
+  alternativeDocumentation?: boolean;  // MFS in a community-property state: certify own pay, not the split return
 }
 
+export type PreTaxAccount = '403b' | '457b' | 'hsa' | 'traditional_ira';
+
+// Annual amounts the borrower plans to contribute, capped at each account's limit
+export type RetirementContributions = Partial<Record<PreTaxAccount, number>>;
+
 export interface CareerInfo {
   specialty: string;
   currentStage: TrainingStage;
   trainingYearsRemaining: number;
   expectedAttendingSalary?: number;  // override specialty default
+  graduationDate?: string;           // ISO date; MS4 students default to May 31
 }
 
 export interface Preferences {
   discountRate: number;           // default 0.05 (5%)
   pslfConfidence: number;         // 0-1, belief program will exist
   savePlanAvailable: boolean;     // litigation status
-  riskTolerance: RiskTolerance;
+  riskTolerance: RiskTolerance;   // how much spread in outcomes counts against a strategy
+  asOfDate?: string;              // ISO date plans are evaluated on; defaults to today
+  capitalizationTriggers?: CapitalizationEvent[];  // events that capitalize interest; defaults to all
+  recertification?: RecertificationSettings;
+  investment?: InvestmentSettings;  // where freed-up cash is invested in the net-worth projection
+  affordability?: AffordabilitySettings;
+  pslfFailureYear?: number;       // year PSLF ends if it fails; defaults to halfway to forgiveness
+  dollars?: DollarMode;           // how results are reported; defaults to nominal
+}
+
+// Nominal dollars as paid, or real (today's) dollars with inflation taken out
+export type DollarMode = 'nominal' | 'real';
+
+export interface RecertificationSettings {
+  month?: number;                       // calendar month (1-12) of annual recertification; defaults to the enrollment month
+  taxYearLag?: number;                  // years between the tax return used and the payment year
+  recertifyEarlyOnIncomeDrop?: boolean; // recertify on current income as soon as it falls
+  lateMonths?: number;                  // months to delay recertifying when income rises
+}
+
+export type InvestmentAccount = 'taxable' | 'retirement';
+
+export interface InvestmentSettings {
+  annualReturn?: number;                // nominal return before tax
+  account?: InvestmentAccount;          // retirement (Roth) accounts grow tax-free
+  taxableReturnTaxRate?: number;        // share of a taxable account's return lost to tax each year
+}
+
+export interface AffordabilitySettings {
+  livingExpenses?: number;              // household spending per year, before loan payments
+  maxPaymentShare?: number;             // most of take-home pay loan payments may take
+  excludeUnaffordable?: boolean;        // drop strategies over budget instead of flagging them
 }
 
 export interface UserInputs {
@@ -54,6 +123,12 @@ export interface UserInputs {
 // Reference Data Types
 // ============================================
 
+export interface PlanAvailability {
+  opensOn?: string;                  // first date borrowers can enroll
+  closedToNewLoansOn?: string;       // loans disbursed on/after this date can't use the plan
+  sunsetsOn?: string;                // plan ends for all borrowers
+}
+
 export interface IDRPlanParams {
   name: string;
   discretionaryIncomePercent: number;
@@ -62,6 +137,37 @@ export interface IDRPlanParams {
   interestSubsidy: boolean;
   capsPaymentAt10YearStandard: boolean;
   undergraduateRate?: number;  // SAVE has different rate for undergrad
+  paymentFormula?: IDRPaymentFormula;  // defaults to 'discretionary'
+  incomeTiers?: TaxBracket[];          // RAP: share of total AGI, by AGI tier
+  minimumMonthlyPayment?: number;
+  dependentReductionMonthly?: number;  // RAP: monthly reduction per dependent
+  principalMatchMonthly?: number;      // RAP: principal reduction guaranteed each month
+  capitalizationCap?: number;          // PAYE: capitalized interest limited to this share of principal at entry
+  capitalizesOnExit?: boolean;         // IBR: leaving the plan capitalizes outstanding interest (set by statute)
+  availability?: PlanAvailability;
+  eligibility?: PlanEligibilityRules;
+}
+
+export type CapitalizationEvent =
+  | 'plan_exit'        // leaving a plan that capitalizes on exit (IBR)
+  | 'pfh_loss'         // IDR payment no longer below the 10-year standard payment
+  | 'grace_end'
+  | 'consolidation';
+
+export interface PlanEligibilityRules {
+  loanTypes: LoanType[];                   // loan types that can be repaid under the plan
+  allowsConsolidatedParentPlus?: boolean;  // Parent PLUS qualifies once consolidated
+  newBorrowerOn?: string;                  // no outstanding balance on this date
+  existingBorrowerOn?: string;             // had an outstanding balance on this date
+  disbursementOnOrAfter?: string;          // needs a loan disbursed on/after this date
+  partialFinancialHardship?: boolean;      // entry requires IDR payment below 10-year standard
+  hardshipRequirementRepealedOn?: string;
+}
+
+export interface PlanEligibility {
+  planName: string;
+  eligible: boolean;
+  reasons: string[];   // why the borrower can't enroll (empty when eligible)
 }
 
 export interface SpecialtyData {
@@ -78,6 +184,44 @@ export interface TaxBracket {
   rate: number;
 }
 
+// State or local brackets. Separate filers use the single brackets, as do
+// joint filers when there's no joint schedule.
+export interface StateTaxSchedule {
+  single: TaxBracket[];
+  mfj?: TaxBracket[];
+}
+
+export interface LocalTaxSchedule extends StateTaxSchedule {
+  name: string;
+  state: string;                  // state the locality is in
+}
+
+// One federal return. Income is treated as wages unless it's `otherIncome`.
+export interface TaxReturn {
+  filingStatus: FilingStatus;
+  wages: number;
+  reportedWages?: number;         // wages on the return, if not the earner's own (community-property split)
+  spouseWages?: number;           // joint returns only
+  otherIncome?: number;           // income not subject to FICA, e.g. forgiven debt
+  preTaxContributions?: number;
+  studentLoanInterest?: number;   // interest paid in the year
+  itemizedDeductions?: number;
+  spouseItemizes?: boolean;       // MFS: if either spouse itemizes, both must
+  qualifyingChildren?: number;
+  year?: number;                  // 0-based projection year, for indexing thresholds to inflation
+}
+
+export interface FederalTaxBreakdown {
+  agi: number;
+  studentLoanInterestDeduction: number;
+  deduction: number;              // standard or itemized, whichever applies
+  taxableIncome: number;
+  incomeTax: number;              // before credits
+  childTaxCredit: number;         // including the refundable part
+  fica: number;
+  totalTax: number;               // income tax after credits, plus FICA
+}
+
 // ============================================
 // Calculation Output Types
 // ============================================
@@ -92,26 +236,204 @@ export interface YearlyLoanState {
   year: number;
   startingBalance: number;
   interestAccrued: number;
+  capitalizedInterest: number;
   paymentsMade: number;
+  endingPrincipal: number;
+  endingInterest: number;          // accrued but not capitalized
   endingBalance: number;
   interestSubsidized: number;
+  principalMatched: number;
   cumulativePayments: number;
 }
 
+export interface MonthlyLedgerEntry {
+  month: number;                  // 1-based month of the schedule
+  year: number;                   // 1-based projection year
+  startingBalance: number;
+  capitalizedInterest: number;
+  interestAccrued: number;
+  interestSubsidized: number;
+  principalMatched: number;
+  scheduledPayment: number;
+  paymentMade: number;
+  principalPaid: number;
+  endingPrincipal: number;
+  endingInterest: number;
+  endingBalance: number;
+  qualifying: boolean;            // counts toward PSLF/IDR forgiveness
+  qualifyingPayments: number;     // running count
+  agiTaxYear?: number;            // tax year of the income an IDR payment was based on
+}
+
+export interface LoanOutcome {
+  id: string;
+  type: LoanType;
+  interestRate: number;
+  startingBalance: number;
+  interestAccrued: number;
+  paymentsApplied: number;
+  endingBalance: number;
+}
+
+export interface PortfolioProjection {
+  yearlyBreakdown: YearlyLoanState[];
+  loanBreakdown: LoanOutcome[];
+}
+
+export interface LedgerResult extends PortfolioProjection {
+  monthlySchedule: MonthlyLedgerEntry[];
+  finalLoans: Loan[];
+  monthsElapsed: number;
+  qualifyingPayments: number;
+  totalPayments: number;
+  endingBalance: number;
+}
+
 export interface StrategyResult {
   strategyName: string;
   description: string;
+  planName?: string;              // underlying IDR plan, if any
   totalPayments: number;
   forgivenessAmount: number;
   taxOnForgiveness: number;
   npv: number;
+  riskAdjustedNpv: number;        // NPV weighted by PSLF confidence; equals npv for non-PSLF strategies
+  pslfFallback?: PSLFFallback;    // PSLF only: path taken if the program ends early
+  refinance?: RefinanceTerms;     // refinance strategies only
   totalYears: number;
+  totalMonths: number;
   monthlyPaymentRange: { min: number; max: number };
   yearlyBreakdown: YearlyLoanState[];
+  monthlySchedule: MonthlyLedgerEntry[];
+  loanBreakdown: LoanOutcome[];
+  phaseBreakdown?: PhaseOutcome[];  // multi-phase strategies only
+  enrollments?: PlanEnrollment[];   // IDR plans entered, in order
+  netWorth?: NetWorthPoint[];       // at NET_WORTH_YEARS, investing the payment difference
+  retirement?: RetirementImpact;    // when the borrower makes pre-tax contributions
+  sinkingFund?: SinkingFundPlan;    // saving for the tax on IDR forgiveness, if any
+  affordability?: AffordabilityCheck;
+  outcomeSpread?: number;         // set when ranked, from nominal amounts (see getOutcomeSpread)
+  utilityCost?: number;           // set when ranked: risk-adjusted NPV plus the spread penalty
   risks: string[];
   benefits: string[];
 }
 
+export interface PSLFFallback {
+  failureYear: number;            // 0-based projection year PSLF is assumed to end in
+  strategyName: string;
+  npv: number;
+}
+
+export interface NetWorthPoint {
+  year: number;
+  investments: number;            // freed-up cash invested to date, less any tax bomb paid
+  liabilities: number;            // loan balance still to repay, or the tax bomb still due
+  netWorth: number;
+}
+
+// Pre-tax contributions over a strategy's repayment years
+export interface RetirementImpact {
+  contributions: number;          // total contributed
+  retirementBalance: number;      // value of those contributions when repayment ends
+  paymentReduction: number;       // lower total loan payments than without contributing
+}
+
+// Loan payments against take-home pay, year by year
+export interface AffordabilityCheck {
+  affordable: boolean;
+  peakShare: number;              // largest share of take-home pay spent on loans in a year
+  peakShareYear: number;          // 1-based year of the peak
+  unaffordableYears: number[];    // 1-based years payments exceed the budget
+}
+
+// Monthly savings that grow to cover the tax on IDR forgiveness
+export interface SinkingFundPlan {
+  taxOnForgiveness: number;
+  afterTaxReturn: number;         // annual return on the fund
+  monthlyContribution: number;
+  years: SinkingFundYear[];
+}
+
+export interface SinkingFundYear {
+  year: number;
+  loanPayments: number;
+  contributions: number;          // paid into the fund this year
+  cashOutflow: number;            // loan payments plus contributions
+  fundBalance: number;            // at year end
+  liability: number;              // tax due at forgiveness
+}
+
+// Market conditions a strategy comparison runs under, for simulations
+export interface StrategyScenario {
+  incomeGrowthRate?: number;      // defaults to DEFAULTS.incomeGrowthRate
+  refiRateOffset?: number;        // added to every refinance rate offered
+}
+
+// ============================================
+// Multi-Phase Strategy Types
+// ============================================
+
+export type PhaseTrigger =
+  | { type: 'year'; year: number }                           // 0-based projection year
+  | { type: 'stage'; stage: TrainingStage | 'attending' }    // first year at this stage
+  | { type: 'balance'; atOrBelow: number }
+  | { type: 'date'; date: string };                          // ISO date, e.g. a plan sunset
+
+export interface RefinanceTerms {
+  rate: number;
+  termYears: number;
+}
+
+export interface StrategyPhase {
+  name?: string;
+  plan?: string;                  // IDR plan to repay under
+  refinance?: RefinanceTerms;     // or refinance into a private loan
+  startsWhen?: PhaseTrigger;      // ignored for the first phase, which starts immediately
+}
+
+export interface MultiPhaseStrategy {
+  name: string;
+  description?: string;
+  phases: StrategyPhase[];
+  pursuePSLF?: boolean;           // forgive tax-free after 120 qualifying payments
+}
+
+export interface PhaseOutcome {
+  name: string;
+  planName?: string;
+  refinance?: RefinanceTerms;
+  startMonth: number;             // 1-based month of the combined schedule
+  months: number;
+  startingBalance: number;
+  interestAccrued: number;
+  capitalizedInterest: number;
+  totalPayments: number;
+  endingBalance: number;
+}
+
+export type ConsolidationTiming = 'never' | 'now' | 'later';
+
+export interface ConsolidationResult {
+  consolidatedLoan: Loan;
+  loans: Loan[];                   // portfolio after consolidation
+  weightedAverageRate: number;     // before rounding
+  interestRate: number;            // rounded up to the next 1/8%
+  capitalizedInterest: number;
+  pslfQualifyingPayments: number;  // weighted average of the underlying loans
+  idrQualifyingPayments: number;
+}
+
+export interface ConsolidationScenario {
+  timing: ConsolidationTiming;
+  consolidationDate?: string;
+  consolidation?: ConsolidationResult;
+  results: StrategyResult[];       // strategies from the consolidation date onward
+  prePhasePayments: number;        // paid on the original loans before consolidating
+  prePhaseNPV: number;
+  bestStrategy: StrategyResult;
+  totalNPV: number;                // pre-phase plus best strategy, discounted to today
+}
+
 export interface FilingComparison {
   mfj: { totalTax: number; loanPayment: number; netAnnualCost: number };
   mfs: { totalTax: number; loanPayment: number; netAnnualCost: number };
@@ -119,6 +441,26 @@ export interface FilingComparison {
   annualSavings: number;
 }
 
+// One projection year of a filing-status schedule
+export interface FilingYear {
+  year: number;                   // 1-based projection year
+  borrowerIncome: number;
+  spouseIncome: number;
+  filingStatus: FilingStatus;
+  loanPayments: number;
+  extraTax: number;               // tax above filing jointly
+}
+
+export interface FilingScheduleResult {
+  strategyName: string;
+  planName: string;
+  filingStatusByYear: FilingStatus[];
+  years: FilingYear[];
+  npv: number;                    // risk-adjusted NPV plus present value of extra tax
+  savingsVsJoint: number;         // present value, against filing jointly every year
+  savingsVsSeparate: number;      // present value, against filing separately every year
+}
+
 export interface PSLFSalaryPremiumParams {
   pslfNPV: number;
   bestNonPslfNPV: number;
@@ -127,6 +469,7 @@ export interface PSLFSalaryPremiumParams {
   attendingSalary: number;
   filingStatus: FilingStatus;
   state: string;
+  locality?: string;
 }
 
 export interface PSLFSalaryPremiumResult {
@@ -161,4 +504,151 @@ export interface QuickStartInputs {
   currentStage: TrainingStage;
   married: boolean;
   spouseIncome?: number;
+  riskTolerance?: RiskTolerance;  // defaults to 'medium'
+}
+
+// ============================================
+// Monte Carlo Types
+// ============================================
+
+export interface MonteCarloOptions {
+  samples?: number;
+  seed?: number;
+  incomeGrowthStdDev?: number;    // spread of the annual income growth rate
+  refiRateStdDev?: number;        // spread of refinance rates around today's
+  annualJobChangeRate?: number;   // chance per year of leaving PSLF-eligible employment
+}
+
+export interface NPVPercentiles {
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+export interface MonteCarloStrategyOutcome {
+  strategyName: string;
+  samples: number;                // paths the strategy was available on
+  meanNPV: number;
+  percentiles: NPVPercentiles;
+  probabilityBest: number;        // share of paths where it had the lowest NPV
+}
+
+export interface MonteCarloResult {
+  samples: number;
+  seed: number;
+  strategies: MonteCarloStrategyOutcome[];  // sorted by median NPV
+}
+
+// ============================================
+// Sensitivity Analysis Types
+// ============================================
+
+export type SensitivityInput =
+  | 'debt'
+  | 'interestRate'
+  | 'salary'
+  | 'discountRate'
+  | 'trainingYears'
+  | 'familySize'
+  | 'state'
+  | 'refiRate';
+
+export interface SensitivityRange<T = number> {
+  low: T;
+  high: T;
+}
+
+export interface SensitivityRanges {
+  debt: SensitivityRange;            // relative change, e.g. -0.2 = 20% less
+  interestRate: SensitivityRange;    // change in loan rates, e.g. 0.02 = 2 points
+  salary: SensitivityRange;          // relative change in attending salary
+  discountRate: SensitivityRange;    // change in discount rate
+  trainingYears: SensitivityRange;   // years of training added
+  familySize: SensitivityRange;      // people added to the household
+  state: SensitivityRange<string>;   // states to compare against
+  refiRate: SensitivityRange;        // change in refinance rates offered
+}
+
+export interface SensitivityPoint {
+  change: number | string;
+  label: string;                     // e.g. "-20%", "+2.0 pts", "TX"
+  strategyName: string;              // winning strategy with this change
+  npv: number;                       // winner's risk-adjusted NPV
+  npvChange: number;                 // vs the baseline winner
+  winnerChanged: boolean;
+}
+
+export interface SensitivityResult {
+  input: SensitivityInput;
+  name: string;
+  low: SensitivityPoint;
+  high: SensitivityPoint;
+  swing: number;                     // spread between the low and high NPVs
+}
+
+export interface SensitivityReport {
+  baseline: { strategyName: string; npv: number };
+  results: SensitivityResult[];      // largest swing first
+}
+
+// ============================================
+// Breakeven Types
+// ============================================
+
+export type BreakevenInput =
+  | 'debt'
+  | 'salary'
+  | 'interestRate'
+  | 'discountRate'
+  | 'refiRate'
+  | 'pslfPayments';
+
+export interface BreakevenSearch {
+  min?: number;                      // lowest value to search; defaults per input
+  max?: number;                      // highest value to search
+}
+
+export interface BreakevenResult {
+  input: BreakevenInput;
+  name: string;
+  currentValue: number;
+  breakevenValue: number;            // first value at which the runner-up wins
+  direction: 'below' | 'above';      // side of the current value the flip is on
+  currentWinner: string;
+  newWinner: string;
+  description: string;               // e.g. "... wins once your total debt falls below $212k"
+}
+
+// ============================================
+// Optimizer Types
+// ============================================
+
+export type OptimizerExit = 'pslf' | 'forgiveness' | 'refinance' | 'payoff';
+
+export interface OptimizerOptions {
+  plans?: string[];                  // IDR plans to search; defaults to every eligible plan
+  exitYears?: number[];              // projection years at which to refinance or start a payoff
+  refiTerms?: number[];              // refinance terms in years, priced from REFI_TERM_RATES
+  payoffYears?: number[];            // lengths of an aggressive federal payoff
+}
+
+export interface OptimizedStrategy {
+  name: string;                      // e.g. "PAYE, then refinance (7yr @ 5.3%) in year 4"
+  planName?: string;                 // IDR plan until the exit; none for an exit when repayment starts
+  exit: OptimizerExit;
+  exitYear?: number;                 // year a refinance or payoff starts
+  refinance?: RefinanceTerms;
+  payoffYears?: number;
+  filingStatusByYear: FilingStatus[];  // while repaying under the IDR plan
+  npv: number;                       // risk-adjusted NPV plus extra tax from filing separately
+  peakMonthlyPayment: number;
+  risk: number;                      // spread of NPV outcomes (see getOutcomeSpread)
+}
+
+export interface OptimizerResult {
+  evaluated: number;                 // combinations priced
+  pruned: number;                    // combinations skipped as already beaten
+  options: OptimizedStrategy[];      // Pareto front, lowest NPV first
 }
@@ -0,0 +1,60 @@
+import type { StrategyResult, Preferences } from './types.js';
+
+import { RISK_AVERSION, TAX_BOMB_UNCERTAINTY } from './constants.js';
+
+// ============================================
+// Risk-Tolerance Utility
+//
+// Strategies are ranked by a utility cost: expected (risk-adjusted) NPV plus
+// a penalty for how widely the outcome could swing. Risk-averse borrowers
+// pay a full dollar of penalty per dollar of spread; risk-tolerant borrowers
+// rank almost purely on expected NPV.
+// ============================================
+
+/**
+ * Standard deviation of a strategy's NPV from the risks we model: PSLF
+ * ending early (a two-outcome bet at the borrower's confidence) and the size
+ * of a future tax bomb on IDR forgiveness.
+ */
+export function getOutcomeSpread(result: StrategyResult, preferences: Preferences): number {
+  let variance = 0;
+
+  if (result.pslfFallback) {
+    const confidence = preferences.pslfConfidence;
+    const swing = result.pslfFallback.npv - result.npv;
+    variance += confidence * (1 - confidence) * swing * swing;
+  }
+
+  if (result.taxOnForgiveness > 0) {
+    const discountedTax = result.taxOnForgiveness / Math.pow(1 + preferences.discountRate, result.totalMonths / 12);
+    variance += Math.pow(TAX_BOMB_UNCERTAINTY * discountedTax, 2);
+  }
+
+  return Math.round(Math.sqrt(variance));
+}
+
+/**
+ * Expected NPV plus the spread penalty for the borrower's risk tolerance.
+ * Lower is better.
+ */
+export function getUtilityCost(result: StrategyResult, preferences: Preferences): number {
+  return Math.round(
+    result.riskAdjustedNpv + RISK_AVERSION[preferences.riskTolerance] * getOutcomeSpread(result, preferences)
+  );
+}
+
+/**
+ * Copies of the results with their spread and utility cost, ordered by
+ * utility cost (lowest = best). Both are worked out from nominal amounts,
+ * so ranking comes before any conversion to today's dollars and the order
+ * doesn't depend on how results are reported.
+ */
+export function rankByUtility(results: StrategyResult[], preferences: Preferences): StrategyResult[] {
+  return results
+    .map(result => ({
+      ...result,
+      outcomeSpread: getOutcomeSpread(result, preferences),
+      utilityCost: getUtilityCost(result, preferences),
+    }))
+    .sort((a, b) => a.utilityCost - b.utilityCost);
+}
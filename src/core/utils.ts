@@ -5,3 +5,26 @@
 export function sanitizeNumericValue(value: string): number {
   return parseFloat(value.replace(/,/g, '').trim()) || 0;
 }
+
+/**
+ * Adds whole months to an ISO date (YYYY-MM-DD), keeping the day of month
+ * where possible. Returns an ISO date.
+ */
+export function addMonthsToDate(isoDate: string, months: number): string {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  date.setUTCDate(Math.min(day, lastDay));
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Whole months from one ISO date to another, counting a partial month as a
+ * full one. Returns 0 if the end date is not after the start date.
+ */
+export function monthsBetweenDates(startDate: string, endDate: string): number {
+  const [startYear, startMonth, startDay] = startDate.split('-').map(Number);
+  const [endYear, endMonth, endDay] = endDate.split('-').map(Number);
+  const months = (endYear - startYear) * 12 + (endMonth - startMonth) + (endDay > startDay ? 1 : 0);
+  return Math.max(0, months);
+}
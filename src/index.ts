@@ -2,8 +2,27 @@
 export * from './core/types.js';
 export * from './core/constants.js';
 export * from './core/specialties.js';
+export * from './core/portfolio.js';
+export * from './core/availability.js';
+export * from './core/eligibility.js';
+export * from './core/prerepayment.js';
+export * from './core/recertification.js';
+export * from './core/inflation.js';
+export * from './core/tax.js';
 export * from './core/calculations.js';
+export * from './core/phases.js';
 export * from './core/strategies.js';
+export * from './core/utility.js';
+export * from './core/networth.js';
+export * from './core/sinkingfund.js';
+export * from './core/cashflow.js';
+export * from './core/retirement.js';
+export * from './core/consolidation.js';
+export * from './core/montecarlo.js';
+export * from './core/sensitivity.js';
+export * from './core/breakeven.js';
+export * from './core/optimizer.js';
+export * from './core/filing.js';
 export * from './core/utils.js';
 
 // Re-export specific items for convenience
@@ -1,10 +1,18 @@
 import {
   compareAllStrategies,
   generateRecommendation,
+  getIneligibleStrategies,
+  runSensitivityAnalysis,
+  findBreakevens,
+  optimizeStrategies,
+  optimizeFilingStatus,
   getAllSpecialtyKeys,
   getSpecialty,
-  STATE_TAX_RATES,
+  STATE_TAX_BRACKETS,
+  LOCAL_TAX_BRACKETS,
   calculateAggressivePayoff,
+  getDollarMode,
+  DEFAULTS,
 } from './index.js';
 
 import type { 
@@ -13,6 +21,16 @@ import type {
   Recommendation, 
   TrainingStage, 
   FilingStatus,
+  RiskTolerance,
+  DollarMode,
+  InvestmentAccount,
+  RetirementContributions,
+  PlanEligibility,
+  SensitivityReport,
+  SensitivityPoint,
+  BreakevenResult,
+  OptimizerResult,
+  FilingScheduleResult,
 } from './core/types.js';
 
 import type { AggressivePayoffParams, AggressivePayoffResult } from './core/calculations.js';
@@ -53,7 +71,7 @@ function initSpecialtyDropdown() {
 }
 
 function initStateDropdown() {
-  const states = Object.keys(STATE_TAX_RATES).sort();
+  const states = Object.keys(STATE_TAX_BRACKETS).sort();
   
   for (const state of states) {
     const option = document.createElement('option');
@@ -63,6 +81,14 @@ function initStateDropdown() {
   }
   
   stateSelect.value = 'CA';
+  
+  const localitySelect = document.getElementById('locality') as HTMLSelectElement;
+  for (const [code, locality] of Object.entries(LOCAL_TAX_BRACKETS)) {
+    const option = document.createElement('option');
+    option.value = code;
+    option.textContent = `${locality.name} (${locality.state})`;
+    localitySelect.appendChild(option);
+  }
 }
 
 // ============================================
@@ -92,6 +118,14 @@ function getFormInputs(): UserInputs {
   const currentStage = getString('currentStage') as TrainingStage;
   const trainingYearsRemaining = calculateTrainingRemaining(currentStage, specialtyData.typicalTrainingYears);
   
+  const retirementContributions: RetirementContributions = {
+    '403b': getValue('contribution403b'),
+    '457b': getValue('contribution457b'),
+    hsa: getValue('contributionHsa'),
+    traditional_ira: getValue('contributionIra'),
+  };
+  const contributes = Object.values(retirementContributions).some(amount => amount > 0);
+  
   return {
     loans: {
       totalBalance: getValue('totalDebt'),
@@ -106,7 +140,10 @@ function getFormInputs(): UserInputs {
       filingStatus: getString('filingStatus') as FilingStatus,
       familySize: getValue('familySize'),
       state: getString('state'),
+      locality: getLocality(getString('state'), getString('locality')),
+      alternativeDocumentation: getChecked('alternativeDocumentation'),
       pslfEligibleEmployer: getChecked('pslfEligible'),
+      retirementContributions: contributes ? retirementContributions : undefined,
     },
     career: {
       specialty,
@@ -117,11 +154,26 @@ function getFormInputs(): UserInputs {
       discountRate: getValue('discountRate') / 100,
       pslfConfidence: getValue('pslfConfidence') / 100,
       savePlanAvailable: getChecked('saveAvailable'),
-      riskTolerance: 'medium',
+      riskTolerance: getString('riskTolerance') as RiskTolerance,
+      dollars: getString('dollarMode') as DollarMode,
+      investment: {
+        annualReturn: getValue('investmentReturn') / 100,
+        account: getString('investmentAccount') as InvestmentAccount,
+      },
+      affordability: {
+        livingExpenses: getValue('livingBudget'),
+        maxPaymentShare: getValue('maxPaymentShare') / 100,
+        excludeUnaffordable: getChecked('excludeUnaffordable'),
+      },
     },
   };
 }
 
+// A city tax only applies to residents of the city's state
+function getLocality(state: string, locality: string): string | undefined {
+  return LOCAL_TAX_BRACKETS[locality]?.state === state ? locality : undefined;
+}
+
 function getAggressiveParams(inputs: UserInputs): AggressivePayoffParams | null {
   const aggressiveEnabled = (document.getElementById('aggressivePayoff') as HTMLInputElement).checked;
   if (!aggressiveEnabled) return null;
@@ -170,8 +222,12 @@ function encodeFormToURL(): string {
   // All form fields to encode
   const fields = [
     'totalDebt', 'interestRate', 'pslfPayments', 'specialty', 'currentStage',
-    'pslfEligible', 'agi', 'familySize', 'filingStatus', 'spouseAgi', 'state',
-    'discountRate', 'pslfConfidence', 'saveAvailable',
+    'pslfEligible', 'agi', 'familySize', 'filingStatus', 'spouseAgi', 'state', 'locality',
+    'alternativeDocumentation',
+    'discountRate', 'pslfConfidence', 'riskTolerance', 'dollarMode', 'saveAvailable',
+    'investmentReturn', 'investmentAccount',
+    'livingBudget', 'maxPaymentShare', 'excludeUnaffordable',
+    'contribution403b', 'contribution457b', 'contributionHsa', 'contributionIra',
     'aggressivePayoff', 'livingExpenses', 'aggressiveYears', 'aggressiveRefiRate'
   ];
   
@@ -491,7 +547,12 @@ function displayResults(
   results: StrategyResult[], 
   recommendation: Recommendation,
   aggressiveResult: AggressivePayoffResult | null,
-  inputs: UserInputs
+  inputs: UserInputs,
+  ineligible: PlanEligibility[],
+  sensitivity: SensitivityReport,
+  breakevens: BreakevenResult[],
+  optimized: OptimizerResult,
+  filingSchedule: FilingScheduleResult | undefined
 ) {
   resultsDiv.classList.add('visible');
   
@@ -533,21 +594,206 @@ function displayResults(
       <td>
         <strong>${result.strategyName}</strong>
         <div class="risks">${result.description}</div>
+        ${result.affordability && !result.affordability.affordable
+          ? `<div class="risks">Over budget in year ${result.affordability.unaffordableYears[0]} (${Math.round(result.affordability.peakShare * 100)}% of take-home at peak)</div>`
+          : ''}
       </td>
       <td class="money">${formatMoney(result.totalPayments)}</td>
       <td class="money ${result.forgivenessAmount > 0 ? 'negative' : ''}">${formatMoney(result.forgivenessAmount)}</td>
       <td class="money">${formatMoney(result.taxOnForgiveness)}</td>
-      <td class="money"><strong>${formatMoney(result.npv)}</strong></td>
+      <td class="money">${formatMoney(result.npv)}</td>
+      <td class="money"><strong>${formatMoney(result.riskAdjustedNpv)}</strong></td>
       <td>${result.totalYears}</td>
     `;
     
     tableBody.appendChild(row);
   }
   
+  // Plans the borrower can't enroll in, with the reason
+  for (const plan of ineligible) {
+    const row = document.createElement('tr');
+    row.className = 'ineligible-row';
+    
+    row.innerHTML = `
+      <td>
+        <strong>${plan.planName}</strong>
+        <div class="risks">Not eligible: ${plan.reasons.join('; ')}</div>
+      </td>
+      <td colspan="6">&mdash;</td>
+    `;
+    
+    tableBody.appendChild(row);
+  }
+
+  const inflation = `${(DEFAULTS.inflationRate * 100).toFixed(1)}%`;
+  document.getElementById('dollarModeNote')!.textContent = getDollarMode(inputs.preferences) === 'real'
+    ? `Amounts are in today's dollars, with ${inflation} yearly inflation taken out of each year's payments, ` +
+      'forgiveness and tax. Present values are the same either way; monthly deposits stay as billed.'
+    : `Amounts are in nominal dollars, as paid. Tax brackets and the poverty line rise ${inflation} a year ` +
+      'along with incomes.';
+
+  // Net worth from investing what each strategy doesn't spend on its loans
+  document.getElementById('netWorthTable')!.innerHTML = results.map(result => `
+    <tr>
+      <td><strong>${result.strategyName}</strong></td>
+      ${(result.netWorth ?? []).map(point => `<td class="money">${formatMoney(point.netWorth)}</td>`).join('')}
+      <td class="money">${result.retirement ? formatMoney(result.retirement.retirementBalance) : '&mdash;'}</td>
+    </tr>
+  `).join('');
+  
+  displaySinkingFund(results);
+  displayTornadoChart(sensitivity);
+  
+  // Where the recommendation would flip
+  const breakevenList = document.getElementById('breakevenList')!;
+  breakevenList.innerHTML = breakevens.length > 0
+    ? breakevens.map(b => `<li>${b.description}</li>`).join('')
+    : '<li>The recommendation holds across the ranges we searched.</li>';
+  
+  displayOptimizedStrategies(optimized);
+  displayFilingSchedule(filingSchedule);
+  
   // Scroll to results
   resultsDiv.scrollIntoView({ behavior: 'smooth' });
 }
 
+/**
+ * Year-by-year sinking fund for the tax bomb of the best strategy that has
+ * one, hidden when no strategy is taxed on forgiveness.
+ */
+function displaySinkingFund(results: StrategyResult[]) {
+  const card = document.getElementById('sinkingFundCard')!;
+  const result = results.find(r => r.sinkingFund);
+  if (!result?.sinkingFund) {
+    card.style.display = 'none';
+    return;
+  }
+  
+  const fund = result.sinkingFund;
+  card.style.display = 'block';
+  document.getElementById('sinkingFundSummary')!.textContent =
+    `${result.strategyName} leaves a ${formatMoney(fund.taxOnForgiveness)} tax bill at forgiveness. ` +
+    `Setting aside ${formatMoney(fund.monthlyContribution)}/month at ${(fund.afterTaxReturn * 100).toFixed(1)}% after tax covers it.`;
+  
+  document.getElementById('sinkingFundTable')!.innerHTML = fund.years.map(year => `
+    <tr>
+      <td>${year.year}</td>
+      <td class="money">${formatMoney(year.loanPayments)}</td>
+      <td class="money">${formatMoney(year.contributions)}</td>
+      <td class="money">${formatMoney(year.cashOutflow)}</td>
+      <td class="money">${formatMoney(year.fundBalance)}</td>
+      <td class="money">${formatMoney(year.liability)}</td>
+    </tr>
+  `).join('');
+}
+
+/**
+ * Tornado chart of the sensitivity report: one row per input, with bars
+ * from the baseline NPV out to the low and high cases, widest swing first.
+ */
+function displayTornadoChart(report: SensitivityReport) {
+  document.getElementById('sensitivityBaseline')!.textContent =
+    `${report.baseline.strategyName} at ${formatMoney(report.baseline.npv)} (risk-adjusted NPV)`;
+  
+  const chart = document.getElementById('tornadoChart')!;
+  chart.innerHTML = '';
+  
+  const maxChange = Math.max(
+    1,
+    ...report.results.flatMap(r => [Math.abs(r.low.npvChange), Math.abs(r.high.npvChange)])
+  );
+  
+  const describe = (point: SensitivityPoint): string => {
+    const change = `${point.npvChange >= 0 ? '+' : '-'}${formatMoney(Math.abs(point.npvChange))}`;
+    return point.winnerChanged
+      ? `${point.label}: ${change}, ${point.strategyName} wins`
+      : `${point.label}: ${change}`;
+  };
+  
+  for (const result of report.results) {
+    const row = document.createElement('div');
+    row.className = 'tornado-row';
+    
+    // Low case on the top half, high case on the bottom, each on the side its NPV moved to
+    const bars = [result.low, result.high].map((point, i) => {
+      const width = (Math.abs(point.npvChange) / maxChange) * 50;
+      const side = point.npvChange < 0 ? `right: 50%` : `left: 50%`;
+      const tone = point.npvChange < 0 ? 'lower' : 'higher';
+      const changed = point.winnerChanged ? ' winner-changed' : '';
+      return `<div class="tornado-bar ${tone}${changed}" style="${side}; top: ${i * 50}%; width: ${width}%" title="${describe(point)}"></div>`;
+    }).join('');
+    
+    row.innerHTML = `
+      <div class="tornado-label">${result.name}</div>
+      <div class="tornado-track">${bars}<div class="tornado-axis"></div></div>
+      <div class="tornado-detail">${describe(result.low)}<br>${describe(result.high)}</div>
+    `;
+    
+    chart.appendChild(row);
+  }
+}
+
+/**
+ * Pareto-best combinations of plan, filing status and exit from the optimizer.
+ */
+function displayOptimizedStrategies(optimized: OptimizerResult) {
+  document.getElementById('optimizerSummary')!.textContent =
+    `${optimized.options.length} of ${optimized.evaluated + optimized.pruned} combinations ` +
+    `are not beaten on cost, peak payment and risk at once.`;
+  
+  const tableBody = document.getElementById('optimizerTable')!;
+  tableBody.innerHTML = optimized.options.map(option => {
+    const separateYears = option.filingStatusByYear.filter(status => status === 'mfs').length;
+    const filing = separateYears > 0 ? `<div class="risks">Files separately for ${separateYears} yr</div>` : '';
+    return `
+      <tr>
+        <td><strong>${option.name}</strong>${filing}</td>
+        <td class="money">${formatMoney(option.npv)}</td>
+        <td class="money">${formatMoney(option.peakMonthlyPayment)}/mo</td>
+        <td class="money">${option.risk > 0 ? `&plusmn;${formatMoney(option.risk)}` : '&mdash;'}</td>
+      </tr>
+    `;
+  }).join('');
+}
+
+/**
+ * Filing status by year for the best IDR or PSLF strategy, as runs of
+ * years filed the same way. Hidden for borrowers without a working spouse.
+ */
+function displayFilingSchedule(schedule: FilingScheduleResult | undefined) {
+  const card = document.getElementById('filingScheduleCard')!;
+  if (!schedule) {
+    card.style.display = 'none';
+    return;
+  }
+  
+  card.style.display = 'block';
+  document.getElementById('filingScheduleSummary')!.textContent =
+    `Under ${schedule.strategyName}, this schedule saves ${formatMoney(schedule.savingsVsJoint)} over filing jointly ` +
+    `every year and ${formatMoney(schedule.savingsVsSeparate)} over filing separately every year (present value).`;
+  
+  const runs: { from: number; to: number; status: FilingStatus; loanPayments: number; extraTax: number }[] = [];
+  for (const year of schedule.years) {
+    const last = runs[runs.length - 1];
+    if (last && last.status === year.filingStatus) {
+      last.to = year.year;
+      last.loanPayments += year.loanPayments;
+      last.extraTax += year.extraTax;
+    } else {
+      runs.push({ from: year.year, to: year.year, status: year.filingStatus, loanPayments: year.loanPayments, extraTax: year.extraTax });
+    }
+  }
+  
+  document.getElementById('filingScheduleTable')!.innerHTML = runs.map(run => `
+    <tr>
+      <td>${run.from === run.to ? run.from : `${run.from}&ndash;${run.to}`}</td>
+      <td>${run.status === 'mfs' ? 'Separately' : 'Jointly'}</td>
+      <td class="money">${formatMoney(run.loanPayments)}</td>
+      <td class="money">${formatMoney(run.extraTax)}</td>
+    </tr>
+  `).join('');
+}
+
 // ============================================
 // Event Handlers
 // ============================================
@@ -558,12 +804,17 @@ form.addEventListener('submit', (e) => {
   const inputs = getFormInputs();
   const results = compareAllStrategies(inputs);
   const recommendation = generateRecommendation(inputs, results);
+  const ineligible = getIneligibleStrategies(inputs);
+  const sensitivity = runSensitivityAnalysis(inputs);
+  const breakevens = findBreakevens(inputs);
+  const optimized = optimizeStrategies(inputs);
+  const filingSchedule = optimizeFilingStatus(inputs, results.find(r => r.planName) ?? results[0]);
   
   // Calculate aggressive payoff if enabled
   const aggressiveParams = getAggressiveParams(inputs);
   const aggressiveResult = aggressiveParams ? calculateAggressivePayoff(aggressiveParams) : null;
   
-  displayResults(results, recommendation, aggressiveResult, inputs);
+  displayResults(results, recommendation, aggressiveResult, inputs, ineligible, sensitivity, breakevens, optimized, filingSchedule);
 });
 
 // Update AGI when stage changes (convenience)
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  checkPlanAvailability,
+  getAvailablePlans,
+  getAnalysisDate,
+} from '../src/core/availability.js';
+
+import { compareAllStrategies, calculatePSLFStrategy } from '../src/core/strategies.js';
+import { projectIncome } from '../src/core/calculations.js';
+import { makeInputs } from './fixtures.js';
+
+import type { Loan, UserInputs } from '../src/core/types.js';
+
+const legacyLoans: Loan[] = [
+  { id: 'a', type: 'direct_unsub', balance: 100000, interestRate: 0.065, disbursementDate: '2022-08-15', outstandingInterest: 0 },
+];
+
+const newLoans: Loan[] = [
+  ...legacyLoans,
+  { id: 'b', type: 'direct_unsub', balance: 40000, interestRate: 0.0708, disbursementDate: '2026-08-15', outstandingInterest: 0 },
+];
+
+// ============================================
+// Plan Availability Tests
+// ============================================
+
+describe('checkPlanAvailability', () => {
+  it('keeps RAP closed before July 2026', () => {
+    const check = checkPlanAvailability('RAP', '2026-03-01', legacyLoans);
+
+    expect(check.available).toBe(false);
+    expect(check.reason).toContain('2026-07-01');
+    expect(checkPlanAvailability('RAP', '2026-07-01', legacyLoans).available).toBe(true);
+  });
+
+  it('closes legacy plans to loans made after the cutoff', () => {
+    for (const plan of ['SAVE', 'PAYE', 'IBR_NEW', 'ICR']) {
+      expect(checkPlanAvailability(plan, '2026-09-01', legacyLoans).available).toBe(true);
+      expect(checkPlanAvailability(plan, '2026-09-01', newLoans).available).toBe(false);
+    }
+  });
+
+  it('sunsets SAVE, PAYE and ICR in July 2028 but keeps IBR', () => {
+    expect(checkPlanAvailability('PAYE', '2028-07-01', legacyLoans).available).toBe(false);
+    expect(checkPlanAvailability('SAVE', '2028-07-01', legacyLoans).available).toBe(false);
+    expect(checkPlanAvailability('ICR', '2028-07-01', legacyLoans).available).toBe(false);
+    expect(checkPlanAvailability('IBR_NEW', '2028-07-01', legacyLoans).available).toBe(true);
+  });
+
+  it('rejects unknown plans', () => {
+    expect(checkPlanAvailability('REPAYE', '2026-01-01').available).toBe(false);
+  });
+});
+
+describe('getAvailablePlans', () => {
+  it('leaves only RAP for new borrowers', () => {
+    expect(getAvailablePlans(['PAYE', 'IBR_NEW', 'RAP'], '2026-09-01', newLoans)).toEqual(['RAP']);
+  });
+});
+
+describe('getAnalysisDate', () => {
+  it('prefers the configured date', () => {
+    expect(getAnalysisDate({
+      discountRate: 0.05,
+      pslfConfidence: 0.85,
+      savePlanAvailable: false,
+      riskTolerance: 'medium',
+      asOfDate: '2027-01-15',
+    })).toBe('2027-01-15');
+  });
+});
+
+// ============================================
+// Strategy Comparison Tests
+// ============================================
+
+describe('compareAllStrategies with plan effective dates', () => {
+  const baseInputs = makeInputs({ preferences: { asOfDate: '2026-09-01' } });
+
+  const names = (inputs: UserInputs) => compareAllStrategies(inputs).map(r => r.strategyName);
+
+  it('offers RAP alongside legacy plans to existing borrowers', () => {
+    expect(names(baseInputs)).toEqual(expect.arrayContaining(['PSLF', 'PAYE', 'IBR_NEW', 'RAP']));
+  });
+
+  it('omits RAP before it opens', () => {
+    const result = names({
+      ...baseInputs,
+      preferences: { ...baseInputs.preferences, asOfDate: '2026-01-01' },
+    });
+
+    expect(result).not.toContain('RAP');
+  });
+
+  it('offers only RAP to borrowers with new loans', () => {
+    const results = compareAllStrategies({
+      ...baseInputs,
+      loans: { ...baseInputs.loans, loans: newLoans },
+    });
+
+    expect(results.map(r => r.strategyName)).not.toContain('PAYE');
+    expect(results.map(r => r.strategyName)).not.toContain('IBR_NEW');
+    expect(results.find(r => r.strategyName === 'PSLF')!.description).toContain('RAP');
+  });
+
+  it('drops PAYE after it sunsets', () => {
+    const result = names({
+      ...baseInputs,
+      preferences: { ...baseInputs.preferences, asOfDate: '2028-09-01' },
+    });
+
+    expect(result).not.toContain('PAYE');
+    expect(result).toContain('IBR_NEW');
+  });
+
+  it('bases PSLF on a plan that stays open until forgiveness', () => {
+    const pslf = compareAllStrategies(baseInputs).find(r => r.strategyName === 'PSLF')!;
+
+    expect(pslf.planName).toBe('IBR_NEW');
+    expect(pslf.risks.some(r => r.includes('switch plans'))).toBe(false);
+  });
+
+  it('warns when PSLF payments outlast the underlying plan', () => {
+    const pslf = calculatePSLFStrategy(baseInputs, projectIncome(baseInputs.career, 30), 'PAYE');
+
+    expect(pslf.risks).toContain('PAYE ends on 2028-07-01 - you will need to switch plans before forgiveness');
+  });
+});
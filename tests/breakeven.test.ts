@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+
+import { findBreakeven, findBreakevens } from '../src/core/breakeven.js';
+import { compareAllStrategies, isSameStrategy } from '../src/core/strategies.js';
+import { makeInputs } from './fixtures.js';
+
+import type { UserInputs } from '../src/core/types.js';
+
+function withDebt(inputs: UserInputs, totalBalance: number): UserInputs {
+  return { ...inputs, loans: { ...inputs.loans, totalBalance } };
+}
+
+// ============================================
+// Breakeven Solver Tests
+// ============================================
+
+describe('findBreakeven', () => {
+  const inputs = makeInputs();
+  const debt = findBreakeven(inputs, 'debt')!;
+
+  it('finds the debt below which refinancing beats PSLF', () => {
+    expect(debt.currentWinner).toBe('PSLF');
+    expect(debt.newWinner).toContain('Refinance');
+    expect(debt.direction).toBe('below');
+    expect(debt.breakevenValue).toBeLessThan(280000);
+    expect(debt.description).toMatch(/^Refinance .* wins once your total debt falls below \$\d+k$/);
+  });
+
+  it('lands on the value where the top two swap places', () => {
+    const [winner, runnerUp] = compareAllStrategies(inputs);
+    const justAbove = compareAllStrategies(withDebt(inputs, debt.breakevenValue + 500));
+    const justBelow = compareAllStrategies(withDebt(inputs, debt.breakevenValue - 500));
+
+    expect(isSameStrategy(justAbove[0], winner)).toBe(true);
+    expect(isSameStrategy(justBelow[0], runnerUp)).toBe(true);
+  });
+
+  it('finds a refinance rate above which the runner-up wins', () => {
+    const refiRate = findBreakeven(makeInputs({ personal: { pslfEligibleEmployer: false } }), 'refiRate')!;
+
+    expect(refiRate.currentWinner).toContain('Refinance (10yr');
+    expect(refiRate.direction).toBe('above');
+    expect(refiRate.breakevenValue).toBeGreaterThan(0.055);
+    expect(refiRate.description).toContain('rises above');
+  });
+
+  it('returns undefined when the winner holds across the search range', () => {
+    expect(findBreakeven(inputs, 'debt', { min: 200000, max: 400000 })).toBeUndefined();
+  });
+});
+
+describe('findBreakevens', () => {
+  it('skips inputs where the winner never flips', () => {
+    const results = findBreakevens(makeInputs(), ['debt', 'salary']);
+
+    expect(results.map(r => r.input)).toEqual(['debt']);
+  });
+});
@@ -3,6 +3,7 @@ import { describe, it, expect } from 'vitest';
 import {
   getPovertyLine,
   IDR_PLANS,
+  DEFAULTS,
 } from '../src/core/constants.js';
 
 import {
@@ -23,6 +24,9 @@ import {
   compareAllStrategies,
 } from '../src/core/strategies.js';
 
+import { getUtilityCost } from '../src/core/utility.js';
+import { makeInputs } from './fixtures.js';
+
 import type { UserInputs, CareerInfo } from '../src/core/types.js';
 
 // ============================================
@@ -82,6 +86,22 @@ describe('calculateIDRPayment', () => {
     expect(mfs).toBeLessThan(mfj);
   });
   
+  it('takes pre-tax retirement contributions out of the borrower\'s AGI', () => {
+    const contributing = calculateIDRPayment(payePlan, 250000, 1, 0, 'single', 30000);
+    const reduced = calculateIDRPayment(payePlan, 220000, 1, 0, 'single');
+    
+    expect(contributing).toBe(reduced);
+  });
+  
+  it('splits community income under MFS in a community-property state', () => {
+    const own = calculateIDRPayment(payePlan, 70000, 2, 230000, 'mfs');
+    const split = calculateIDRPayment(payePlan, 70000, 2, 230000, 'mfs', 0, true);
+    const half = calculateIDRPayment(payePlan, 150000, 2, 0, 'mfs');
+    
+    expect(split).toBe(half);
+    expect(split).toBeGreaterThan(own);
+  });
+  
   it('calculates SAVE payment with higher poverty multiplier', () => {
     const savePlan = IDR_PLANS['SAVE'];
     const payePayment = calculateIDRPayment(payePlan, 65000, 1, 0, 'single');
@@ -92,6 +112,31 @@ describe('calculateIDRPayment', () => {
   });
 });
 
+describe('calculateIDRPayment (RAP)', () => {
+  const rapPlan = IDR_PLANS['RAP'];
+  
+  it('charges the tier percentage of total AGI', () => {
+    // $65k falls in the 6% tier: 65000 * 0.06 / 12 = 325
+    expect(calculateIDRPayment(rapPlan, 65000, 1, 0, 'single')).toBe(325);
+    
+    // Above $100k: 10% of AGI
+    expect(calculateIDRPayment(rapPlan, 300000, 1, 0, 'single')).toBe(2500);
+  });
+  
+  it('reduces the payment by $50 per dependent', () => {
+    const noKids = calculateIDRPayment(rapPlan, 65000, 2, 0, 'mfj');
+    const twoKids = calculateIDRPayment(rapPlan, 65000, 4, 0, 'mfj');
+    
+    expect(noKids).toBe(325);
+    expect(twoKids).toBe(225);
+  });
+  
+  it('applies the $10 minimum payment', () => {
+    expect(calculateIDRPayment(rapPlan, 0, 1, 0, 'single')).toBe(10);
+    expect(calculateIDRPayment(rapPlan, 25000, 5, 0, 'single')).toBe(10);
+  });
+});
+
 // ============================================
 // 10-Year Standard Payment Tests
 // ============================================
@@ -145,8 +190,8 @@ describe('projectIncome', () => {
     
     const projection = projectIncome(career, 5);
     
-    // Year 2 should be attending with ~400k
-    expect(projection[1].income).toBeCloseTo(400000, -4);
+    // Year 2 is the first attending year: 400k in today's dollars, a year later
+    expect(projection[1].income).toBe(Math.round(400000 * (1 + DEFAULTS.inflationRate)));
   });
 });
 
@@ -205,6 +250,32 @@ describe('compareFilingStatus', () => {
     expect(comparison.annualSavings).toBeGreaterThanOrEqual(0);
     expect(comparison.recommendation).toMatch(/mfj|mfs/);
   });
+
+  it('counts the credits and deductions separate returns give up', () => {
+    const comparison = compareFilingStatus(60000, 60000, 4, IDR_PLANS['PAYE'], 200000, 0.065);
+    
+    // At equal incomes the brackets line up, so the difference is the
+    // student loan interest deduction separate returns lose
+    expect(comparison.mfj.totalTax).toBeLessThan(comparison.mfs.totalTax);
+  });
+
+  it('splits income on separate returns in a community-property state', () => {
+    const comparison = compareFilingStatus(70000, 230000, 2, IDR_PLANS['PAYE'], 300000, 0.065, 0, true);
+    const elsewhere = compareFilingStatus(70000, 230000, 2, IDR_PLANS['PAYE'], 300000, 0.065);
+    
+    // The split return raises the MFS payment and erases most of the tax penalty
+    expect(comparison.mfs.loanPayment).toBeGreaterThan(elsewhere.mfs.loanPayment);
+    expect(comparison.mfs.totalTax).toBeLessThan(elsewhere.mfs.totalTax);
+  });
+  
+  it('keeps the MFS payment on own income with alternative documentation', () => {
+    const documented = compareFilingStatus(70000, 230000, 2, IDR_PLANS['PAYE'], 300000, 0.065, 0, true, true);
+    const elsewhere = compareFilingStatus(70000, 230000, 2, IDR_PLANS['PAYE'], 300000, 0.065);
+    
+    expect(documented.mfs.loanPayment).toBe(elsewhere.mfs.loanPayment);
+    expect(documented.mfs.totalTax).toBeLessThan(elsewhere.mfs.totalTax);
+    expect(documented.recommendation).toBe('mfs');
+  });
 });
 
 // ============================================
@@ -303,40 +374,14 @@ describe('runQuickAnalysis', () => {
 // ============================================
 
 describe('compareAllStrategies', () => {
-  const baseInputs: UserInputs = {
-    loans: {
-      totalBalance: 280000,
-      weightedInterestRate: 0.065,
-      loanTypes: ['direct_unsub'],
-      pslfQualifyingPayments: 0,
-      idrQualifyingPayments: 0,
-    },
-    personal: {
-      agi: 65000,
-      spouseAgi: 0,
-      filingStatus: 'single',
-      familySize: 1,
-      state: 'NY',
-      pslfEligibleEmployer: true,
-    },
-    career: {
-      specialty: 'internal_medicine',
-      currentStage: 'pgy1',
-      trainingYearsRemaining: 3,
-    },
-    preferences: {
-      discountRate: 0.05,
-      pslfConfidence: 0.85,
-      savePlanAvailable: false,
-      riskTolerance: 'medium',
-    },
-  };
+  const baseInputs = makeInputs();
   
-  it('returns sorted results by NPV', () => {
+  it('returns results sorted by utility cost', () => {
     const results = compareAllStrategies(baseInputs);
     
     for (let i = 1; i < results.length; i++) {
-      expect(results[i].npv).toBeGreaterThanOrEqual(results[i - 1].npv);
+      expect(getUtilityCost(results[i], baseInputs.preferences))
+        .toBeGreaterThanOrEqual(getUtilityCost(results[i - 1], baseInputs.preferences));
     }
   });
   
@@ -382,6 +427,97 @@ describe('compareAllStrategies', () => {
       expect(result.yearlyBreakdown[0].startingBalance).toBe(baseInputs.loans.totalBalance);
     }
   });
+
+  it('bases IDR payments on the filing status of the return they use', () => {
+    const married = { ...baseInputs.personal, spouseAgi: 150000, filingStatus: 'mfj' as const, familySize: 2 };
+    const paye = (personal: UserInputs['personal']) =>
+      compareAllStrategies({ ...baseInputs, personal }).find(r => r.strategyName === 'PAYE')!;
+
+    const joint = paye(married);
+    const separateFirstYear = paye({ ...married, filingStatusByYear: ['mfs'] });
+
+    // The first year's payments use last year's joint return; the analysis
+    // year's separate return is only used from the next recertification
+    expect(separateFirstYear.monthlySchedule[0].paymentMade).toBe(joint.monthlySchedule[0].paymentMade);
+    expect(separateFirstYear.monthlySchedule[12].paymentMade).toBeLessThan(joint.monthlySchedule[12].paymentMade);
+    expect(separateFirstYear.monthlySchedule[24].paymentMade).toBe(joint.monthlySchedule[24].paymentMade);
+  });
+
+  it('splits community income in IDR payments unless the borrower documents their own', () => {
+    const separate = { ...baseInputs.personal, spouseAgi: 150000, filingStatus: 'mfs' as const, familySize: 2, state: 'CA' };
+    const paye = (personal: UserInputs['personal']) =>
+      compareAllStrategies({ ...baseInputs, personal }).find(r => r.strategyName === 'PAYE')!;
+
+    const split = paye(separate);
+    const documented = paye({ ...separate, alternativeDocumentation: true });
+
+    expect(documented.monthlySchedule[0].paymentMade).toBeLessThan(split.monthlySchedule[0].paymentMade);
+  });
+});
+
+// ============================================
+// Risk-Adjusted PSLF Tests
+// ============================================
+
+describe('risk-adjusted NPV', () => {
+  // Attending whose PSLF payments nearly match a refinance; risk-tolerant
+  // so the ranking follows expected NPV
+  const attendingInputs = (pslfConfidence: number): UserInputs => makeInputs({
+    loans: { totalBalance: 300000 },
+    personal: { agi: 380000 },
+    career: { currentStage: 'attending', trainingYearsRemaining: 0, expectedAttendingSalary: 380000 },
+    preferences: { pslfConfidence, riskTolerance: 'high' },
+  });
+  
+  const findPSLF = (inputs: UserInputs) =>
+    compareAllStrategies(inputs).find(r => r.strategyName === 'PSLF')!;
+  
+  it('weighs PSLF against the fallback by confidence', () => {
+    const pslf = findPSLF(attendingInputs(0.6));
+    const fallback = pslf.pslfFallback!;
+    
+    expect(fallback.failureYear).toBe(5);
+    expect(pslf.riskAdjustedNpv).toBeCloseTo(0.6 * pslf.npv + 0.4 * fallback.npv, -1);
+    expect(pslf.riskAdjustedNpv).toBeGreaterThan(pslf.npv);
+    expect(pslf.riskAdjustedNpv).toBeLessThan(fallback.npv);
+  });
+  
+  it('ranks strategies differently for a 60% and a 95% believer', () => {
+    const doubter = compareAllStrategies(attendingInputs(0.6));
+    const believer = compareAllStrategies(attendingInputs(0.95));
+    
+    expect(doubter[0].strategyName).toContain('Refinance');
+    expect(believer[0].strategyName).toBe('PSLF');
+  });
+  
+  it('matches raw NPV at full confidence', () => {
+    const pslf = findPSLF(attendingInputs(1));
+    expect(pslf.riskAdjustedNpv).toBe(pslf.npv);
+  });
+  
+  it('uses the configured failure year', () => {
+    const inputs = attendingInputs(0.6);
+    inputs.preferences.pslfFailureYear = 8;
+    
+    expect(findPSLF(inputs).pslfFallback!.failureYear).toBe(8);
+  });
+  
+  it('has no fallback when PSLF finishes before the failure year', () => {
+    const inputs = attendingInputs(0.6);
+    inputs.preferences.pslfFailureYear = 10;
+    const pslf = findPSLF(inputs);
+    
+    expect(pslf.pslfFallback).toBeUndefined();
+    expect(pslf.riskAdjustedNpv).toBe(pslf.npv);
+  });
+  
+  it('leaves other strategies unadjusted', () => {
+    for (const result of compareAllStrategies(attendingInputs(0.6))) {
+      if (result.strategyName !== 'PSLF') {
+        expect(result.riskAdjustedNpv).toBe(result.npv);
+      }
+    }
+  });
 });
 
 // ============================================
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+
+import { calculateTakeHomePay, checkAffordability } from '../src/core/cashflow.js';
+import { projectIncome } from '../src/core/calculations.js';
+import { compareAllStrategies, generateRecommendation } from '../src/core/strategies.js';
+import { makeInputs } from './fixtures.js';
+
+// ============================================
+// Cash Flow Tests
+// ============================================
+
+describe('calculateTakeHomePay', () => {
+  it('takes federal and state tax out of income', () => {
+    const takeHome = calculateTakeHomePay(makeInputs(), 65000);
+
+    expect(takeHome).toBeLessThan(65000);
+    expect(takeHome).toBeGreaterThan(40000);
+  });
+
+  it('leaves more in a state without income tax', () => {
+    const inputs = makeInputs();
+    const texas = makeInputs({ personal: { state: 'TX' } });
+
+    expect(calculateTakeHomePay(texas, 65000)).toBeGreaterThan(calculateTakeHomePay(inputs, 65000));
+  });
+
+  it('adds a spouse\'s income for married couples', () => {
+    const inputs = makeInputs();
+    const married = makeInputs({ personal: { filingStatus: 'mfj', spouseAgi: 50000 } });
+
+    expect(calculateTakeHomePay(married, 65000)).toBeGreaterThan(calculateTakeHomePay(inputs, 65000) + 30000);
+  });
+
+  it('uses the spouse\'s projected income and the year\'s filing status', () => {
+    const married = { filingStatus: 'mfj', spouseAgi: 50000, familySize: 2 } as const;
+    const flat = makeInputs({ personal: { ...married, spouseIncomeGrowth: 0 } });
+    const growing = makeInputs({ personal: { ...married, spouseIncomeGrowth: 0.1 } });
+    const joint = makeInputs({ personal: { ...married, spouseAgi: 200000 } });
+    const separateLater = makeInputs({
+      personal: { ...married, spouseAgi: 200000, filingStatusByYear: ['mfj', 'mfs'] },
+    });
+
+    expect(calculateTakeHomePay(growing, 65000, 5)).toBeGreaterThan(calculateTakeHomePay(flat, 65000, 5) + 20000);
+    expect(calculateTakeHomePay(separateLater, 65000, 0)).toBe(calculateTakeHomePay(joint, 65000, 0));
+    expect(calculateTakeHomePay(separateLater, 65000, 1)).not.toBe(calculateTakeHomePay(joint, 65000, 1));
+  });
+
+  it('takes pre-tax contributions out of take-home pay', () => {
+    const inputs = makeInputs();
+    const contributing = makeInputs({ personal: { retirementContributions: { '403b': 10000 } } });
+
+    expect(calculateTakeHomePay(contributing, 65000)).toBeLessThan(calculateTakeHomePay(inputs, 65000));
+  });
+
+  it('splits itemized deductions between separate returns', () => {
+    const separate = { filingStatus: 'mfs', spouseAgi: 200000, familySize: 2 } as const;
+    const standard = makeInputs({ personal: separate });
+    const itemizing = makeInputs({ personal: { ...separate, itemizedDeductions: 60000 } });
+    const small = makeInputs({ personal: { ...separate, itemizedDeductions: 5000 } });
+
+    expect(calculateTakeHomePay(itemizing, 250000)).toBeGreaterThan(calculateTakeHomePay(standard, 250000));
+    expect(calculateTakeHomePay(small, 250000)).toBe(calculateTakeHomePay(standard, 250000));
+  });
+});
+
+describe('checkAffordability', () => {
+  it('flags refinancing on a resident salary and clears PSLF', () => {
+    const inputs = makeInputs();
+    const results = compareAllStrategies(inputs);
+    const refi = results.find(r => r.strategyName.includes('Refinance'))!;
+    const pslf = results.find(r => r.strategyName === 'PSLF')!;
+
+    expect(refi.affordability!.affordable).toBe(false);
+    expect(refi.affordability!.unaffordableYears[0]).toBe(1);
+    expect(pslf.affordability!.affordable).toBe(true);
+  });
+
+  it('reports the peak share of take-home pay', () => {
+    const inputs = makeInputs();
+    const result = compareAllStrategies(inputs).find(r => r.strategyName.includes('Refinance'))!;
+    const check = checkAffordability(inputs, result, projectIncome(inputs.career, 30));
+
+    expect(check.peakShare).toBeGreaterThan(0.25);
+    expect(check.peakShareYear).toBeGreaterThan(0);
+  });
+
+  it('clears every strategy on a small balance with a generous budget', () => {
+    const inputs = makeInputs({
+      loans: { totalBalance: 50000 },
+      preferences: { affordability: { livingExpenses: 0, maxPaymentShare: 1 } },
+    });
+
+    expect(compareAllStrategies(inputs).every(r => r.affordability!.affordable)).toBe(true);
+  });
+});
+
+describe('compareAllStrategies affordability', () => {
+  it('drops strategies over budget when asked to', () => {
+    const inputs = makeInputs({ preferences: { affordability: { excludeUnaffordable: true } } });
+    const results = compareAllStrategies(inputs);
+
+    expect(results.length).toBeGreaterThan(0);
+    expect(results.every(r => r.affordability!.affordable)).toBe(true);
+    expect(results.some(r => r.strategyName.includes('Refinance'))).toBe(false);
+  });
+
+  it('keeps every strategy when none fits the budget', () => {
+    const inputs = makeInputs({ preferences: { affordability: { livingExpenses: 1000000, excludeUnaffordable: true } } });
+
+    expect(compareAllStrategies(inputs).length).toBe(compareAllStrategies(makeInputs()).length);
+  });
+
+  it('warns when the best strategy is over budget', () => {
+    const inputs = makeInputs({ preferences: { affordability: { livingExpenses: 1000000 } } });
+    const recommendation = generateRecommendation(inputs, compareAllStrategies(inputs));
+
+    expect(recommendation.confidence).not.toBe('high');
+    expect(recommendation.reasoning.some(r => r.includes('of take-home pay'))).toBe(true);
+  });
+});
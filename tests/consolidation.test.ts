@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  roundUpToEighthPercent,
+  simulateConsolidation,
+  applyConsolidation,
+  compareConsolidationTiming,
+} from '../src/core/consolidation.js';
+
+import { checkPSLFEligibility, checkPlanEligibility } from '../src/core/eligibility.js';
+import { createLoanPortfolio } from '../src/core/portfolio.js';
+import { addMonthsToDate } from '../src/core/utils.js';
+import { makeInputs } from './fixtures.js';
+
+import type { Loan, UserInputs } from '../src/core/types.js';
+
+const mixedLoans: Loan[] = [
+  { id: 'ffel-1', type: 'ffel', balance: 60000, interestRate: 0.068, disbursementDate: '2009-08-15', outstandingInterest: 2000 },
+  { id: 'unsub-1', type: 'direct_unsub', balance: 100000, interestRate: 0.0654, disbursementDate: '2012-08-15', outstandingInterest: 0 },
+  { id: 'perkins-1', type: 'perkins', balance: 8000, interestRate: 0.05, disbursementDate: '2010-08-15', outstandingInterest: 0 },
+];
+
+function withLoans(loans: Loan[], pslfPayments = 0, asOfDate = '2026-03-01'): UserInputs {
+  return makeInputs({ loans: createLoanPortfolio(loans, pslfPayments, pslfPayments), preferences: { asOfDate } });
+}
+
+// ============================================
+// Rate Rounding Tests
+// ============================================
+
+describe('roundUpToEighthPercent', () => {
+  it('rounds up to the next 1/8 of a percent', () => {
+    expect(roundUpToEighthPercent(0.0704)).toBeCloseTo(0.07125, 10);
+    expect(roundUpToEighthPercent(0.06501)).toBeCloseTo(0.06625, 10);
+  });
+
+  it('leaves rates already on a 1/8% step unchanged', () => {
+    expect(roundUpToEighthPercent(0.06625)).toBeCloseTo(0.06625, 10);
+    expect(roundUpToEighthPercent(0.07)).toBeCloseTo(0.07, 10);
+  });
+});
+
+// ============================================
+// Consolidation Tests
+// ============================================
+
+describe('simulateConsolidation', () => {
+  it('capitalizes outstanding interest into the new balance', () => {
+    const result = simulateConsolidation(withLoans(mixedLoans));
+
+    expect(result.capitalizedInterest).toBe(2000);
+    expect(result.consolidatedLoan.balance).toBe(170000);
+    expect(result.consolidatedLoan.outstandingInterest).toBe(0);
+  });
+
+  it('leaves interest uncapitalized when the consolidation trigger is off', () => {
+    const inputs = withLoans(mixedLoans);
+    inputs.preferences.capitalizationTriggers = ['plan_exit', 'pfh_loss'];
+    const result = simulateConsolidation(inputs);
+
+    expect(result.capitalizedInterest).toBe(0);
+    expect(result.consolidatedLoan.balance).toBe(168000);
+    expect(result.consolidatedLoan.outstandingInterest).toBe(2000);
+  });
+
+  it('uses the weighted-average rate rounded up to the next 1/8%', () => {
+    const result = simulateConsolidation(withLoans(mixedLoans));
+    const expected = (62000 * 0.068 + 100000 * 0.0654 + 8000 * 0.05) / 170000;
+
+    expect(result.weightedAverageRate).toBeCloseTo(expected, 10);
+    expect(result.interestRate).toBeCloseTo(0.06625, 10);
+    expect(result.interestRate).toBeGreaterThanOrEqual(result.weightedAverageRate);
+  });
+
+  it('credits the balance-weighted average of qualifying payments, rounded down', () => {
+    // Only the Direct loan carries PSLF credit: 100000 * 60 / 170000 = 35.3
+    const result = simulateConsolidation(withLoans(mixedLoans, 60));
+
+    expect(result.pslfQualifyingPayments).toBe(35);
+    expect(result.idrQualifyingPayments).toBe(60);
+  });
+
+  it('uses per-loan counts when provided', () => {
+    const loans = mixedLoans.map(loan => ({ ...loan, pslfQualifyingPayments: loan.type === 'direct_unsub' ? 102 : 0 }));
+    const result = simulateConsolidation(withLoans(loans));
+
+    expect(result.pslfQualifyingPayments).toBe(60);
+  });
+
+  it('records the underlying loan types and leaves private loans alone', () => {
+    const privateLoan: Loan = { id: 'private-1', type: 'private', balance: 20000, interestRate: 0.09, outstandingInterest: 0 };
+    const result = simulateConsolidation(withLoans([...mixedLoans, privateLoan]));
+
+    expect(result.consolidatedLoan.type).toBe('direct_consolidation');
+    expect(result.consolidatedLoan.consolidatedTypes).toEqual(['ffel', 'direct_unsub', 'perkins']);
+    expect(result.loans.map(loan => loan.id)).toEqual(['consolidation', 'private-1']);
+  });
+
+  it('consolidates only the selected loans', () => {
+    const result = simulateConsolidation(withLoans(mixedLoans), '2026-03-01', ['ffel-1']);
+
+    expect(result.consolidatedLoan.balance).toBe(62000);
+    expect(result.loans.map(loan => loan.id)).toEqual(['consolidation', 'unsub-1', 'perkins-1']);
+  });
+});
+
+describe('applyConsolidation', () => {
+  it('makes FFEL borrowers PSLF-eligible', () => {
+    const inputs = withLoans(mixedLoans);
+    expect(checkPSLFEligibility(inputs).eligible).toBe(false);
+
+    const consolidated = applyConsolidation(inputs, simulateConsolidation(inputs), '2026-03-01');
+    expect(checkPSLFEligibility(consolidated).eligible).toBe(true);
+  });
+
+  it('keeps the original borrowing history', () => {
+    const inputs = withLoans(mixedLoans);
+    const consolidated = applyConsolidation(inputs, simulateConsolidation(inputs), '2026-03-01');
+
+    expect(consolidated.loans.firstBorrowedDate).toBe('2009-08-15');
+    expect(checkPlanEligibility(consolidated, 'IBR_OLD').eligible).toBe(true);
+  });
+
+  it('limits loans consolidated after July 1, 2026 to RAP', () => {
+    const inputs = withLoans(mixedLoans, 0, '2026-09-01');
+    const consolidated = applyConsolidation(inputs, simulateConsolidation(inputs), '2026-09-01');
+
+    expect(checkPlanEligibility(consolidated, 'IBR_OLD').eligible).toBe(false);
+    expect(checkPlanEligibility(consolidated, 'RAP').eligible).toBe(true);
+  });
+});
+
+// ============================================
+// Timing Comparison Tests
+// ============================================
+
+describe('compareConsolidationTiming', () => {
+  const scenarios = compareConsolidationTiming(withLoans(mixedLoans));
+
+  it('returns never, now and later scenarios', () => {
+    expect(scenarios.map(s => s.timing)).toEqual(['never', 'now', 'later']);
+    expect(scenarios[2].consolidationDate).toBe(addMonthsToDate('2026-03-01', 12));
+  });
+
+  it('only offers PSLF once FFEL and Perkins loans are consolidated', () => {
+    const [never, now] = scenarios;
+
+    expect(never.results.some(r => r.strategyName === 'PSLF')).toBe(false);
+    expect(now.results.some(r => r.strategyName === 'PSLF')).toBe(true);
+  });
+
+  it('counts pre-consolidation payments in the later scenario', () => {
+    const later = scenarios[2];
+
+    expect(later.prePhasePayments).toBeGreaterThan(0);
+    expect(later.prePhaseNPV).toBeGreaterThan(0);
+    expect(later.totalNPV).toBeGreaterThan(later.prePhaseNPV);
+  });
+
+  it('reports the best strategy in each scenario', () => {
+    for (const scenario of scenarios) {
+      const lowest = Math.min(...scenario.results.map(r => r.npv));
+      expect(scenario.bestStrategy.npv).toBe(lowest);
+    }
+  });
+});
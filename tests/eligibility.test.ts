@@ -0,0 +1,221 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  checkPlanEligibility,
+  checkPSLFEligibility,
+  getFirstBorrowedDate,
+  hasPartialFinancialHardship,
+} from '../src/core/eligibility.js';
+
+import {
+  compareAllStrategies,
+  getIneligibleStrategies,
+} from '../src/core/strategies.js';
+
+import { createLoanPortfolio } from '../src/core/portfolio.js';
+import { makeInputs } from './fixtures.js';
+
+import type { Loan, UserInputs } from '../src/core/types.js';
+
+const directLoans: Loan[] = [
+  { id: 'unsub-1', type: 'direct_unsub', balance: 120000, interestRate: 0.0654, disbursementDate: '2018-08-15', outstandingInterest: 0 },
+  { id: 'plus-1', type: 'direct_plus', balance: 100000, interestRate: 0.0754, disbursementDate: '2019-08-15', outstandingInterest: 0 },
+];
+
+const privateLoan: Loan = { id: 'p', type: 'private', balance: 40000, interestRate: 0.09, disbursementDate: '2005-08-15', outstandingInterest: 0 };
+
+function withLoans(loans: Loan[], personal: Partial<UserInputs['personal']> = {}): UserInputs {
+  return makeInputs({ loans: createLoanPortfolio(loans), personal, preferences: { asOfDate: '2026-09-01' } });
+}
+
+// ============================================
+// Borrowing History Tests
+// ============================================
+
+describe('getFirstBorrowedDate', () => {
+  it('uses the earliest disbursement when no date is recorded', () => {
+    expect(getFirstBorrowedDate(withLoans(directLoans))).toBe('2018-08-15');
+  });
+
+  it('prefers the recorded first-borrowed date', () => {
+    const inputs = withLoans(directLoans);
+    inputs.loans.firstBorrowedDate = '2006-09-01';
+    expect(getFirstBorrowedDate(inputs)).toBe('2006-09-01');
+  });
+});
+
+// ============================================
+// IDR Plan Eligibility Tests
+// ============================================
+
+describe('checkPlanEligibility', () => {
+  it('allows PAYE and new IBR for recent Direct borrowers', () => {
+    const inputs = withLoans(directLoans);
+
+    expect(checkPlanEligibility(inputs, 'PAYE').eligible).toBe(true);
+    expect(checkPlanEligibility(inputs, 'IBR_NEW').eligible).toBe(true);
+    expect(checkPlanEligibility(inputs, 'IBR_OLD').eligible).toBe(false);
+  });
+
+  it('routes pre-2014 borrowers to old IBR', () => {
+    const inputs = withLoans(directLoans);
+    inputs.loans.firstBorrowedDate = '2012-09-01';
+
+    expect(checkPlanEligibility(inputs, 'IBR_NEW').eligible).toBe(false);
+    expect(checkPlanEligibility(inputs, 'IBR_OLD').eligible).toBe(true);
+    expect(checkPlanEligibility(inputs, 'PAYE').eligible).toBe(true);
+  });
+
+  it('excludes pre-2007 borrowers from PAYE', () => {
+    const inputs = withLoans(directLoans);
+    inputs.loans.firstBorrowedDate = '2006-09-01';
+    const paye = checkPlanEligibility(inputs, 'PAYE');
+
+    expect(paye.eligible).toBe(false);
+    expect(paye.reasons[0]).toContain('2007-10-01');
+  });
+
+  it('requires a Direct disbursement after October 2011 for PAYE', () => {
+    const inputs = withLoans([
+      { id: 'old', type: 'direct_unsub', balance: 80000, interestRate: 0.068, disbursementDate: '2010-08-15', outstandingInterest: 0 },
+    ]);
+
+    expect(checkPlanEligibility(inputs, 'PAYE').reasons.some(r => r.includes('2011-10-01'))).toBe(true);
+  });
+
+  it('keeps FFEL loans out of PAYE, ICR and RAP but allows IBR', () => {
+    const inputs = withLoans([
+      { id: 'ffel-1', type: 'ffel', balance: 50000, interestRate: 0.068, disbursementDate: '2009-09-01', outstandingInterest: 0 },
+    ]);
+
+    expect(checkPlanEligibility(inputs, 'PAYE').eligible).toBe(false);
+    expect(checkPlanEligibility(inputs, 'ICR').eligible).toBe(false);
+    expect(checkPlanEligibility(inputs, 'RAP').eligible).toBe(false);
+    expect(checkPlanEligibility(inputs, 'IBR_OLD').eligible).toBe(true);
+  });
+
+  it('limits Parent PLUS loans to ICR after consolidation', () => {
+    const unconsolidated = withLoans([
+      { id: 'pp', type: 'parent_plus', balance: 50000, interestRate: 0.0754, disbursementDate: '2020-08-15', outstandingInterest: 0 },
+    ]);
+    const consolidated = withLoans([
+      { id: 'dc', type: 'direct_consolidation', balance: 50000, interestRate: 0.07625, disbursementDate: '2022-01-15', outstandingInterest: 0, consolidatedTypes: ['parent_plus'] },
+    ]);
+
+    expect(checkPlanEligibility(unconsolidated, 'ICR').eligible).toBe(false);
+    expect(checkPlanEligibility(consolidated, 'ICR').eligible).toBe(true);
+    expect(checkPlanEligibility(consolidated, 'PAYE').eligible).toBe(false);
+    expect(checkPlanEligibility(consolidated, 'IBR_NEW').eligible).toBe(false);
+  });
+
+  it('requires partial financial hardship to enter PAYE', () => {
+    const attending = withLoans(
+      [{ id: 'small', type: 'direct_unsub', balance: 60000, interestRate: 0.06, disbursementDate: '2018-08-15', outstandingInterest: 0 }],
+      { agi: 300000 }
+    );
+
+    expect(hasPartialFinancialHardship(attending, 'PAYE')).toBe(false);
+    expect(checkPlanEligibility(attending, 'PAYE').eligible).toBe(false);
+  });
+
+  it('no longer requires hardship for IBR after the 2025 law', () => {
+    const attending = withLoans(
+      [{ id: 'small', type: 'direct_unsub', balance: 60000, interestRate: 0.06, disbursementDate: '2018-08-15', outstandingInterest: 0 }],
+      { agi: 300000 }
+    );
+
+    expect(checkPlanEligibility(attending, 'IBR_NEW').eligible).toBe(true);
+
+    attending.preferences.asOfDate = '2025-01-01';
+    expect(checkPlanEligibility(attending, 'IBR_NEW').eligible).toBe(false);
+  });
+
+  it('leaves private loans out of federal plan eligibility', () => {
+    const inputs = withLoans([...directLoans, privateLoan]);
+
+    expect(getFirstBorrowedDate(inputs)).toBe('2018-08-15');
+    expect(checkPlanEligibility(inputs, 'PAYE')).toEqual({ planName: 'PAYE', eligible: true, reasons: [] });
+    expect(checkPlanEligibility(withLoans([privateLoan]), 'PAYE').reasons[0]).toContain('all of yours are private');
+  });
+
+  it('describes a blended balance as all of the borrower\'s loans', () => {
+    const inputs = makeInputs({ loans: { loanTypes: ['parent_plus'] } });
+
+    expect(checkPlanEligibility(inputs, 'ICR').reasons).toContain(
+      'Your Parent PLUS loans must be consolidated, and then only qualify for ICR'
+    );
+  });
+});
+
+// ============================================
+// PSLF Eligibility Tests
+// ============================================
+
+describe('checkPSLFEligibility', () => {
+  it('requires consolidation of FFEL and Perkins loans', () => {
+    const inputs = withLoans([
+      ...directLoans,
+      { id: 'perk', type: 'perkins', balance: 8000, interestRate: 0.05, disbursementDate: '2016-08-15', outstandingInterest: 0 },
+    ]);
+    const pslf = checkPSLFEligibility(inputs);
+
+    expect(pslf.eligible).toBe(false);
+    expect(pslf.reasons[0]).toContain('Direct Consolidation');
+  });
+
+  it('requires a qualifying employer', () => {
+    expect(checkPSLFEligibility(withLoans(directLoans, { pslfEligibleEmployer: false })).eligible).toBe(false);
+  });
+
+  it('qualifies the federal loans when the borrower also has private loans', () => {
+    expect(checkPSLFEligibility(withLoans([...directLoans, privateLoan])).eligible).toBe(true);
+    expect(checkPSLFEligibility(withLoans([privateLoan])).eligible).toBe(false);
+  });
+
+  it('describes a blended balance as all of the borrower\'s loans', () => {
+    const inputs = makeInputs({ loans: { loanTypes: ['ffel'] } });
+
+    expect(checkPSLFEligibility(inputs).reasons).toContain('Your loans only qualify for PSLF after Direct Consolidation');
+  });
+});
+
+// ============================================
+// Strategy Comparison Tests
+// ============================================
+
+describe('compareAllStrategies with eligibility', () => {
+  it('recommends only plans the borrower is eligible for', () => {
+    const inputs = withLoans(directLoans);
+    inputs.loans.firstBorrowedDate = '2006-09-01';
+    const names = compareAllStrategies(inputs).map(r => r.strategyName);
+
+    expect(names).not.toContain('PAYE');
+    expect(names).not.toContain('IBR_NEW');
+    expect(names).toContain('IBR_OLD');
+  });
+
+  it('shows ineligible plans with their reasons', () => {
+    const inputs = withLoans([
+      { id: 'ffel-1', type: 'ffel', balance: 150000, interestRate: 0.068, disbursementDate: '2009-09-01', outstandingInterest: 0 },
+    ]);
+    const ineligible = getIneligibleStrategies(inputs);
+    const names = ineligible.map(p => p.planName);
+
+    expect(names).toEqual(expect.arrayContaining(['PSLF', 'PAYE', 'ICR', 'RAP']));
+    expect(names).not.toContain('IBR_NEW');
+    expect(ineligible.every(p => p.reasons.length > 0)).toBe(true);
+    expect(compareAllStrategies(inputs).some(r => r.strategyName === 'PSLF')).toBe(false);
+  });
+
+  it('repays private loans alongside federal plans without forgiving them', () => {
+    const results = compareAllStrategies(withLoans([...directLoans, privateLoan]));
+    const federalOnly = compareAllStrategies(withLoans(directLoans));
+    const pslf = results.find(r => r.strategyName === 'PSLF')!;
+    const owed = pslf.loanBreakdown!.find(loan => loan.id === 'p')!;
+
+    expect(owed.endingBalance).toBe(0);
+    expect(owed.paymentsApplied).toBeGreaterThan(privateLoan.balance);
+    expect(pslf.forgivenessAmount).toBe(federalOnly.find(r => r.strategyName === 'PSLF')!.forgivenessAmount);
+    expect(pslf.totalPayments).toBeGreaterThan(federalOnly.find(r => r.strategyName === 'PSLF')!.totalPayments + privateLoan.balance);
+  });
+});
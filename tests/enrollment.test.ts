@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+
+import { createPlanEnrollment, calculate10YearStandardPayment, projectIncome } from '../src/core/calculations.js';
+import { compareAllStrategies, calculateMultiPhaseStrategy } from '../src/core/strategies.js';
+import { createLoanPortfolio } from '../src/core/portfolio.js';
+import { makeInputs } from './fixtures.js';
+
+import type { Loan, UserInputs } from '../src/core/types.js';
+
+const loans: Loan[] = [
+  { id: 'unsub-1', type: 'direct_unsub', balance: 180000, interestRate: 0.0654, disbursementDate: '2019-08-15', outstandingInterest: 5000 },
+  { id: 'plus-1', type: 'direct_plus', balance: 65000, interestRate: 0.0754, disbursementDate: '2020-08-15', outstandingInterest: 0 },
+];
+
+function surgeonInputs(currentStage: 'pgy1' | 'attending'): UserInputs {
+  const attending = currentStage === 'attending';
+  return makeInputs({
+    loans: createLoanPortfolio(loans),
+    personal: { agi: attending ? 550000 : 65000, state: 'TX', pslfEligibleEmployer: false },
+    career: {
+      specialty: 'orthopedic_surgery',
+      currentStage,
+      trainingYearsRemaining: attending ? 0 : 5,
+      expectedAttendingSalary: 550000,
+    },
+  });
+}
+
+function getStrategy(inputs: UserInputs, name: string) {
+  return compareAllStrategies(inputs).find(r => r.strategyName === name)!;
+}
+
+// ============================================
+// Enrollment Record Tests
+// ============================================
+
+describe('createPlanEnrollment', () => {
+  it('fixes the standard payment cap from the balance owed at entry', () => {
+    const enrollment = createPlanEnrollment('IBR_NEW', loans, '2026-03-01');
+    const rate = (185000 * 0.0654 + 65000 * 0.0754) / 250000;
+
+    expect(enrollment.entryBalance).toBe(250000);
+    expect(enrollment.entryInterestRate).toBeCloseTo(rate, 10);
+    expect(enrollment.standardPaymentCap).toBe(calculate10YearStandardPayment(250000, rate));
+  });
+});
+
+// ============================================
+// Servicer Behavior: High-Earning Attendings
+// ============================================
+
+describe('PAYE/IBR payment cap for high earners', () => {
+  it('charges the entry cap instead of the income-based payment', () => {
+    const ibr = getStrategy(surgeonInputs('attending'), 'IBR_NEW');
+    const cap = ibr.enrollments![0].standardPaymentCap;
+
+    expect(ibr.monthlySchedule[0].scheduledPayment).toBe(cap);
+    expect(ibr.monthlyPaymentRange).toEqual({ min: cap, max: cap });
+  });
+
+  it('keeps the cap fixed as the balance falls', () => {
+    const ibr = getStrategy(surgeonInputs('attending'), 'IBR_NEW');
+    const cap = ibr.enrollments![0].standardPaymentCap;
+    const year5 = ibr.monthlySchedule[48];
+
+    expect(year5.startingBalance).toBeLessThan(175000);
+    expect(year5.scheduledPayment).toBe(cap);
+    expect(calculate10YearStandardPayment(year5.startingBalance, 0.0675)).toBeLessThan(cap);
+  });
+
+  it('pays off in ten years, like the standard plan it is capped at', () => {
+    const ibr = getStrategy(surgeonInputs('attending'), 'IBR_NEW');
+
+    expect(ibr.monthlySchedule.length).toBeGreaterThanOrEqual(119);
+    expect(ibr.monthlySchedule.length).toBeLessThanOrEqual(121);
+    expect(ibr.forgivenessAmount).toBe(0);
+  });
+
+  it('uses the balance at residency entry, not the larger attending balance', () => {
+    const paye = getStrategy(surgeonInputs('pgy1'), 'PAYE');
+    const cap = paye.enrollments![0].standardPaymentCap;
+    // First payment based on an attending tax return
+    const firstAttendingPayment = paye.monthlySchedule[72];
+
+    expect(paye.enrollments![0].entryBalance).toBe(250000);
+    expect(firstAttendingPayment.startingBalance).toBeGreaterThan(250000);
+    expect(firstAttendingPayment.scheduledPayment).toBe(cap);
+  });
+
+  it('continues an existing enrollment with its recorded entry balance', () => {
+    const inputs = surgeonInputs('attending');
+    inputs.loans.currentEnrollment = createPlanEnrollment(
+      'IBR_NEW',
+      [{ id: 'original', type: 'direct_unsub', balance: 300000, interestRate: 0.068, outstandingInterest: 0 }],
+      '2022-07-01'
+    );
+    const ibr = getStrategy(inputs, 'IBR_NEW');
+
+    expect(ibr.enrollments![0].enrolledOn).toBe('2022-07-01');
+    expect(ibr.monthlySchedule[0].scheduledPayment).toBe(calculate10YearStandardPayment(300000, 0.068));
+  });
+
+  it('re-enrolls at the current balance when switching plans', () => {
+    const inputs = surgeonInputs('pgy1');
+    const result = calculateMultiPhaseStrategy(inputs, projectIncome(inputs.career, 30), {
+      name: 'PAYE then IBR',
+      phases: [
+        { plan: 'PAYE' },
+        { plan: 'IBR_NEW', startsWhen: { type: 'date', date: '2028-07-01' } },
+      ],
+    });
+    const [paye, ibr] = result.enrollments!;
+    const switchMonth = result.monthlySchedule[28];
+
+    expect(paye.planName).toBe('PAYE');
+    expect(ibr.planName).toBe('IBR_NEW');
+    expect(ibr.enrolledOn).toBe('2028-07-01');
+    expect(ibr.entryBalance).toBe(Math.round(switchMonth.startingBalance));
+  });
+});
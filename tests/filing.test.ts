@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+
+import { optimizeFilingStatus, compareFilingStatusByYear } from '../src/core/filing.js';
+import { compareAllStrategies } from '../src/core/strategies.js';
+import { projectIncome, getSpouseIncome } from '../src/core/calculations.js';
+import { makeInputs } from './fixtures.js';
+
+import type { InputOverrides } from './fixtures.js';
+
+const married: InputOverrides = {
+  loans: { totalBalance: 300000 },
+  personal: { spouseAgi: 180000, filingStatus: 'mfj', familySize: 2 },
+};
+
+// ============================================
+// Filing Status by Year Tests
+// ============================================
+
+describe('getSpouseIncome', () => {
+  it('grows the spouse\'s AGI each year', () => {
+    const personal = { ...makeInputs(married).personal, spouseIncomeGrowth: 0.1 };
+
+    expect(getSpouseIncome(personal, 0)).toBe(180000);
+    expect(getSpouseIncome(personal, 2)).toBe(217800);
+  });
+});
+
+describe('compareFilingStatusByYear', () => {
+  it('compares each projection year at both spouses\' projected incomes', () => {
+    const inputs = makeInputs(married);
+    const incomeProjection = projectIncome(inputs.career, 30);
+    const comparisons = compareFilingStatusByYear(inputs, 'PAYE', incomeProjection);
+
+    expect(comparisons).toHaveLength(30);
+    // Residency: filing separately keeps the spouse's income out of the payment
+    expect(comparisons[0].recommendation).toBe('mfs');
+  });
+});
+
+describe('optimizeFilingStatus', () => {
+  const inputs = makeInputs(married);
+  const results = compareAllStrategies(inputs);
+  const pslf = results.find(r => r.strategyName === 'PSLF')!;
+
+  it('files separately through PSLF and jointly once the loans are forgiven', () => {
+    const schedule = optimizeFilingStatus(inputs, pslf)!;
+    const pslfYears = Math.ceil(pslf.totalMonths / 12);
+
+    expect(schedule.filingStatusByYear).toHaveLength(30);
+    expect(schedule.filingStatusByYear[0]).toBe('mfs');
+    expect(schedule.filingStatusByYear.slice(pslfYears)).not.toContain('mfs');
+  });
+
+  it('files for the least tax in years whose returns no payment uses', () => {
+    // Enrolled in March, recertifying each November on the prior year's return
+    const lagged = { ...inputs, preferences: { ...inputs.preferences, recertification: { month: 11 } } };
+    const laggedPslf = compareAllStrategies(lagged).find(r => r.strategyName === 'PSLF')!;
+    const schedule = optimizeFilingStatus(lagged, laggedPslf)!;
+    const firstTaxYear = 2026;
+    const usedReturns = new Set(laggedPslf.monthlySchedule
+      .filter(month => month.agiTaxYear !== undefined)
+      .map(month => month.agiTaxYear! - firstTaxYear));
+    const lastUsed = Math.max(...usedReturns);
+
+    // The final PSLF year's return is filed after the last payment
+    expect(lastUsed).toBeLessThan(Math.ceil(laggedPslf.totalMonths / 12) - 1);
+    expect(schedule.filingStatusByYear[0]).toBe('mfs');
+    expect(schedule.filingStatusByYear.slice(lastUsed + 1)).not.toContain('mfs');
+    for (const year of schedule.years.slice(lastUsed + 1)) {
+      expect(year.extraTax).toBe(0);
+    }
+  });
+
+  it('saves money in present value against either fixed status', () => {
+    const schedule = optimizeFilingStatus(inputs, pslf)!;
+
+    expect(schedule.savingsVsJoint).toBeGreaterThan(0);
+    expect(schedule.savingsVsSeparate).toBeGreaterThanOrEqual(0);
+  });
+
+  it('reports extra tax only in years filed separately', () => {
+    const schedule = optimizeFilingStatus(inputs, pslf)!;
+
+    for (const year of schedule.years) {
+      if (year.filingStatus === 'mfj') expect(year.extraTax).toBe(0);
+    }
+    expect(schedule.years[0].spouseIncome).toBe(180000);
+    expect(schedule.years[1].spouseIncome).toBeGreaterThan(180000);
+  });
+
+  it('returns nothing without a working spouse or an IDR plan', () => {
+    const single = { ...inputs, personal: { ...inputs.personal, filingStatus: 'single' as const, spouseAgi: 0 } };
+    const refinance = results.find(r => r.strategyName.includes('Refinance'))!;
+
+    expect(optimizeFilingStatus(single, pslf)).toBeUndefined();
+    expect(optimizeFilingStatus(inputs, refinance)).toBeUndefined();
+  });
+});
@@ -0,0 +1,44 @@
+import type { UserInputs } from '../src/core/types.js';
+
+export type InputOverrides = { [Section in keyof UserInputs]?: Partial<UserInputs[Section]> };
+
+/**
+ * A single PGY-1 internist in New York at a PSLF employer, owing $280k of
+ * unsubsidized loans, as of March 2026. Each section's fields can be
+ * overridden; the rest keep these defaults.
+ */
+export function makeInputs(overrides: InputOverrides = {}): UserInputs {
+  return {
+    loans: {
+      totalBalance: 280000,
+      weightedInterestRate: 0.065,
+      loanTypes: ['direct_unsub'],
+      pslfQualifyingPayments: 0,
+      idrQualifyingPayments: 0,
+      ...overrides.loans,
+    },
+    personal: {
+      agi: 65000,
+      spouseAgi: 0,
+      filingStatus: 'single',
+      familySize: 1,
+      state: 'NY',
+      pslfEligibleEmployer: true,
+      ...overrides.personal,
+    },
+    career: {
+      specialty: 'internal_medicine',
+      currentStage: 'pgy1',
+      trainingYearsRemaining: 3,
+      ...overrides.career,
+    },
+    preferences: {
+      discountRate: 0.05,
+      pslfConfidence: 0.85,
+      savePlanAvailable: false,
+      riskTolerance: 'medium',
+      asOfDate: '2026-03-01',
+      ...overrides.preferences,
+    },
+  };
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  getInflationFactor,
+  indexBrackets,
+  toTodaysDollars,
+  withDollarMode,
+} from '../src/core/inflation.js';
+import { DEFAULTS, FEDERAL_BRACKETS_SINGLE, IDR_PLANS } from '../src/core/constants.js';
+import { calculateFederalTaxes, calculateStateTax } from '../src/core/tax.js';
+import { calculateIDRPayment, estimateTaxOnForgiveness } from '../src/core/calculations.js';
+import { getContributionLimit } from '../src/core/retirement.js';
+import { compareAllStrategies } from '../src/core/strategies.js';
+import { makeInputs } from './fixtures.js';
+
+import type { DollarMode, UserInputs } from '../src/core/types.js';
+
+function inputsIn(dollars?: DollarMode): UserInputs {
+  return makeInputs({ personal: { state: 'CA', pslfEligibleEmployer: false }, preferences: { dollars } });
+}
+
+// ============================================
+// Indexing Tests
+// ============================================
+
+describe('getInflationFactor', () => {
+  it('compounds the default inflation rate from the first year', () => {
+    expect(getInflationFactor(0)).toBe(1);
+    expect(getInflationFactor(10)).toBeCloseTo(Math.pow(1 + DEFAULTS.inflationRate, 10), 10);
+    expect(toTodaysDollars(1000 * getInflationFactor(10), 10)).toBeCloseTo(1000, 6);
+  });
+});
+
+describe('indexBrackets', () => {
+  it('leaves this year\'s brackets alone and scales later thresholds', () => {
+    expect(indexBrackets(FEDERAL_BRACKETS_SINGLE, 0)).toBe(FEDERAL_BRACKETS_SINGLE);
+
+    const indexed = indexBrackets(FEDERAL_BRACKETS_SINGLE, 5);
+    expect(indexed[1].threshold).toBeCloseTo(FEDERAL_BRACKETS_SINGLE[1].threshold * getInflationFactor(5), 6);
+    expect(indexed.map(b => b.rate)).toEqual(FEDERAL_BRACKETS_SINGLE.map(b => b.rate));
+  });
+});
+
+describe('indexed thresholds', () => {
+  const factor = getInflationFactor(20);
+
+  it('taxes income that kept pace with inflation the same in real terms', () => {
+    const today = calculateFederalTaxes({ filingStatus: 'single', wages: 250000 });
+    const later = calculateFederalTaxes({ filingStatus: 'single', wages: 250000 * factor, year: 20 });
+
+    expect(later.deduction).toBeCloseTo(today.deduction * factor, 0);
+    expect(later.incomeTax / factor).toBeCloseTo(today.incomeTax, -1);
+    expect(calculateStateTax(250000 * factor, 'CA', 'single', undefined, 20) / factor)
+      .toBeCloseTo(calculateStateTax(250000, 'CA', 'single'), -1);
+  });
+
+  it('lowers the tax on the same nominal forgiveness years from now', () => {
+    expect(estimateTaxOnForgiveness(200000, 300000, 'CA', 'single', undefined, 20))
+      .toBeLessThan(estimateTaxOnForgiveness(200000, 300000, 'CA'));
+  });
+
+  it('raises the poverty line, and so lowers IDR payments, over time', () => {
+    const plan = IDR_PLANS['IBR_NEW'];
+    const today = calculateIDRPayment(plan, 80000, 3);
+    const later = calculateIDRPayment(plan, 80000 * factor, 3, 0, 'single', 0, false, 20);
+
+    expect(calculateIDRPayment(plan, 80000, 3, 0, 'single', 0, false, 20)).toBeLessThan(today);
+    expect(later / factor).toBeCloseTo(today, -1);
+  });
+
+  it('keeps RAP\'s income tiers fixed', () => {
+    const plan = IDR_PLANS['RAP'];
+    expect(calculateIDRPayment(plan, 80000, 1, 0, 'single', 0, false, 20)).toBe(calculateIDRPayment(plan, 80000, 1));
+  });
+
+  it('indexes contribution limits', () => {
+    expect(getContributionLimit('403b', 1, 1)).toBe(Math.round(23000 * (1 + DEFAULTS.inflationRate)));
+  });
+});
+
+// ============================================
+// Reporting Mode Tests
+// ============================================
+
+describe('real-dollar reporting', () => {
+  const nominal = compareAllStrategies(inputsIn());
+  const real = compareAllStrategies(inputsIn('real'));
+
+  it('reports in nominal dollars by default', () => {
+    expect(compareAllStrategies(inputsIn('nominal'))).toEqual(nominal);
+    expect(withDollarMode(nominal, inputsIn().preferences)).toBe(nominal);
+  });
+
+  it('deflates totals and the tax bomb but keeps NPVs', () => {
+    for (const result of real) {
+      const match = nominal.find(r => r.strategyName === result.strategyName)!;
+      expect(result.npv).toBe(match.npv);
+      expect(result.totalPayments).toBeLessThan(match.totalPayments);
+      expect(result.monthlySchedule).toEqual(match.monthlySchedule);
+    }
+
+    const idr = real.find(r => r.taxOnForgiveness > 0)!;
+    const nominalIdr = nominal.find(r => r.strategyName === idr.strategyName)!;
+    expect(idr.taxOnForgiveness).toBeLessThan(nominalIdr.taxOnForgiveness);
+    expect(idr.sinkingFund!.taxOnForgiveness).toBe(idr.taxOnForgiveness);
+  });
+
+  it('keeps the yearly breakdown consistent with total payments', () => {
+    for (const result of real) {
+      const last = result.yearlyBreakdown[result.yearlyBreakdown.length - 1];
+      expect(Math.abs(last.cumulativePayments - result.totalPayments)).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('ranks the same way with the same utility cost in either mode', () => {
+    const ranked = (dollars: DollarMode) => compareAllStrategies(makeInputs({
+      loans: { totalBalance: 450000, weightedInterestRate: 0.07 },
+      personal: { state: 'CA', pslfEligibleEmployer: false },
+      preferences: { riskTolerance: 'low', dollars },
+    })).map(r => [r.strategyName, r.utilityCost, r.outcomeSpread]);
+
+    expect(ranked('real')).toEqual(ranked('nominal'));
+  });
+
+  it('deflates the tax bomb over the horizon it\'s discounted over', () => {
+    const idr = nominal.find(r => r.taxOnForgiveness > 0)!;
+    const deflated = real.find(r => r.strategyName === idr.strategyName)!;
+
+    expect(deflated.taxOnForgiveness).toBe(Math.round(toTodaysDollars(idr.taxOnForgiveness, idr.totalMonths / 12)));
+  });
+});
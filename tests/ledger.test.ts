@@ -0,0 +1,255 @@
+import { describe, it, expect } from 'vitest';
+
+import { IDR_PLANS } from '../src/core/constants.js';
+import { runLedger, summarizeByYear, getAnnualPayments, mergeLedgers } from '../src/core/ledger.js';
+import { calculateAmortizationPayment, projectIncome } from '../src/core/calculations.js';
+import { compareAllStrategies, calculatePSLFStrategy } from '../src/core/strategies.js';
+import { makeInputs } from './fixtures.js';
+
+import type { Loan } from '../src/core/types.js';
+
+const singleLoan: Loan[] = [
+  { id: 'unsub', type: 'direct_unsub', balance: 120000, interestRate: 0.06, outstandingInterest: 0 },
+];
+
+// ============================================
+// Ledger Engine Tests
+// ============================================
+
+describe('runLedger', () => {
+  it('runs the exact number of months requested', () => {
+    const result = runLedger(singleLoan, 115, () => ({ payment: 500 }));
+
+    expect(result.monthsElapsed).toBe(115);
+    expect(result.qualifyingPayments).toBe(115);
+    expect(result.yearlyBreakdown).toHaveLength(10);
+    expect(result.monthlySchedule[114].year).toBe(10);
+  });
+
+  it('accrues simple interest without compounding unpaid interest', () => {
+    const result = runLedger(singleLoan, 12, () => ({ payment: 0 }));
+
+    // 120000 * 0.06 = 7200 of interest, none of it capitalized
+    expect(result.endingBalance).toBeCloseTo(127200, 6);
+    expect(result.finalLoans[0].balance).toBe(120000);
+    expect(result.finalLoans[0].outstandingInterest).toBeCloseTo(7200, 6);
+  });
+
+  it('capitalizes before accruing when the schedule asks', () => {
+    const result = runLedger(singleLoan, 13, ({ month }) => ({
+      payment: 0,
+      capitalize: month === 12 ? 'plan_exit' : undefined,
+    }));;
+
+    expect(result.monthlySchedule[12].capitalizedInterest).toBeCloseTo(7200, 6);
+    expect(result.monthlySchedule[12].interestAccrued).toBeCloseTo(127200 * 0.005, 6);
+  });
+
+  it('ignores capitalization events that are not triggers', () => {
+    const result = runLedger(
+      singleLoan,
+      13,
+      ({ month }) => ({ payment: 0, capitalize: month === 12 ? 'pfh_loss' : undefined }),
+      { capitalizationTriggers: ['plan_exit'] }
+    );
+
+    expect(result.monthlySchedule[12].capitalizedInterest).toBe(0);
+    expect(result.finalLoans[0].balance).toBe(120000);
+  });
+
+  it('caps PAYE capitalization at 10% of principal at entry', () => {
+    // Two years unpaid under PAYE leaves 14400 of interest; only 12000 capitalizes
+    const result = runLedger(singleLoan, 25, ({ month }) => ({
+      payment: 0,
+      plan: IDR_PLANS['PAYE'],
+      capitalize: month === 24 ? 'pfh_loss' : undefined,
+    }));
+
+    expect(result.monthlySchedule[24].capitalizedInterest).toBeCloseTo(12000, 6);
+    expect(result.finalLoans[0].balance).toBeCloseTo(132000, 6);
+    expect(result.finalLoans[0].outstandingInterest).toBeCloseTo(2400 + 132000 * 0.005, 6);
+  });
+
+  it('does not cap capitalization when leaving a plan without a cap', () => {
+    const result = runLedger(singleLoan, 25, ({ month }) => ({
+      payment: 0,
+      plan: month < 24 ? IDR_PLANS['IBR_NEW'] : undefined,
+      capitalize: month === 24 ? 'plan_exit' : undefined,
+    }));
+
+    expect(result.monthlySchedule[24].capitalizedInterest).toBeCloseTo(14400, 6);
+  });
+
+  it('reports principal and unpaid interest separately each year', () => {
+    const result = runLedger(singleLoan, 12, () => ({ payment: 0 }));
+    const year = result.yearlyBreakdown[0];
+
+    expect(year.endingPrincipal).toBe(120000);
+    expect(year.endingInterest).toBe(7200);
+    expect(year.capitalizedInterest).toBe(0);
+  });
+
+  it('applies payments to interest before principal', () => {
+    const result = runLedger(singleLoan, 1, () => ({ payment: 1000 }));
+    const entry = result.monthlySchedule[0];
+
+    expect(entry.interestAccrued).toBeCloseTo(600, 6);
+    expect(entry.principalPaid).toBeCloseTo(400, 6);
+  });
+
+  it('waives uncovered interest under a subsidized plan', () => {
+    const result = runLedger(singleLoan, 12, () => ({ payment: 200, plan: IDR_PLANS['SAVE'] }));
+
+    expect(result.endingBalance).toBeCloseTo(120000, 6);
+    expect(result.yearlyBreakdown[0].interestSubsidized).toBe(4800);
+  });
+
+  it('matches principal up to $50 under RAP', () => {
+    // $300 payment covers none of the $600 of interest; RAP waives the rest
+    // and reduces principal by the lesser of $50 or the payment
+    const result = runLedger(singleLoan, 12, () => ({ payment: 300, plan: IDR_PLANS['RAP'] }));
+
+    expect(result.monthlySchedule[0].principalMatched).toBeCloseTo(50, 6);
+    expect(result.yearlyBreakdown[0].principalMatched).toBe(600);
+    expect(result.endingBalance).toBeCloseTo(119400, 6);
+  });
+
+  it('matches only the payment amount for very small RAP payments', () => {
+    const result = runLedger(singleLoan, 1, () => ({ payment: 10, plan: IDR_PLANS['RAP'] }));
+
+    expect(result.monthlySchedule[0].principalMatched).toBeCloseTo(10, 6);
+  });
+
+  it('stops once the loans are paid off', () => {
+    const payment = calculateAmortizationPayment(120000, 0.06, 10);
+    const result = runLedger(singleLoan, 240, () => ({ payment }));
+
+    expect(result.monthsElapsed).toBeLessThanOrEqual(121);
+    expect(result.endingBalance).toBe(0);
+  });
+
+  it('counts only qualifying months', () => {
+    const result = runLedger(singleLoan, 24, ({ month }) => ({ payment: 500, qualifying: month >= 6 }));
+
+    expect(result.qualifyingPayments).toBe(18);
+  });
+
+  it('does not modify the input loans', () => {
+    runLedger(singleLoan, 12, () => ({ payment: 1000 }));
+    expect(singleLoan[0].balance).toBe(120000);
+  });
+});
+
+describe('summarizeByYear', () => {
+  it('reports a trailing partial year', () => {
+    const result = runLedger(singleLoan, 18, () => ({ payment: 1000 }));
+    const yearly = summarizeByYear(result.monthlySchedule);
+
+    expect(yearly).toHaveLength(2);
+    expect(yearly[1].paymentsMade).toBe(6000);
+    expect(getAnnualPayments(result.monthlySchedule)).toEqual([12000, 6000]);
+  });
+});
+
+describe('mergeLedgers', () => {
+  const privateLoan: Loan = { id: 'private', type: 'private', balance: 10000, interestRate: 0.09, outstandingInterest: 0 };
+
+  it('adds up two runs month by month, counting only the first run\'s qualifying payments', () => {
+    const federal = runLedger(singleLoan, 12, () => ({ payment: 500 }));
+    const other = runLedger([privateLoan], 24, () => ({ payment: 300, qualifying: false }));
+    const merged = mergeLedgers(federal, other);
+
+    expect(merged.monthsElapsed).toBe(24);
+    expect(merged.monthlySchedule[0].paymentMade).toBe(800);
+    expect(merged.monthlySchedule[0].startingBalance).toBe(130000);
+    expect(merged.monthlySchedule[12].paymentMade).toBe(300);
+    expect(merged.monthlySchedule[12].qualifyingPayments).toBe(12);
+    expect(merged.qualifyingPayments).toBe(12);
+    expect(merged.totalPayments).toBe(federal.totalPayments + other.totalPayments);
+    expect(merged.loanBreakdown.map(loan => loan.id)).toEqual(['unsub', 'private']);
+  });
+});
+
+// ============================================
+// Strategy Timing Tests
+// ============================================
+
+describe('strategies on the monthly ledger', () => {
+  const inputs = makeInputs({
+    loans: { pslfQualifyingPayments: 115, idrQualifyingPayments: 115 },
+    personal: { agi: 275000 },
+    career: { currentStage: 'attending', trainingYearsRemaining: 0 },
+  });
+
+  it('charges only the remaining PSLF payments', () => {
+    const pslf = compareAllStrategies(inputs).find(r => r.strategyName === 'PSLF')!;
+
+    expect(pslf.totalMonths).toBe(5);
+    expect(pslf.monthlySchedule).toHaveLength(5);
+    expect(pslf.totalPayments).toBe(pslf.monthlyPaymentRange.max * 5);
+  });
+
+  it('ends the PSLF horizon when the loans are paid off', () => {
+    // RAP doesn't cap payments at the 10-year standard, so a high earner pays off early
+    const pslfFor = (totalBalance: number) => {
+      const attending = makeInputs({
+        loans: { totalBalance },
+        personal: { agi: 400000 },
+        career: { currentStage: 'attending', trainingYearsRemaining: 0 },
+        preferences: { asOfDate: '2026-09-01' },
+      });
+      return calculatePSLFStrategy(attending, projectIncome(attending.career, 30), 'RAP');
+    };
+    const paidOff = pslfFor(20000);
+
+    expect(paidOff.totalMonths).toBeLessThan(120);
+    expect(paidOff.totalMonths).toBe(paidOff.monthlySchedule.length);
+    expect(paidOff.totalYears).toBeLessThan(10);
+    expect(pslfFor(0).totalMonths).toBe(0);
+    expect(pslfFor(0).totalYears).toBe(0);
+  });
+
+  it('counts exact IDR months toward forgiveness', () => {
+    const paye = compareAllStrategies(inputs).find(r => r.strategyName === 'PAYE')!;
+
+    expect(paye.totalMonths).toBe(240 - 115);
+  });
+
+  it('amortizes refinances monthly', () => {
+    const refi = compareAllStrategies(inputs).find(r => r.strategyName.startsWith('Refinance (10yr'))!;
+    const payment = calculateAmortizationPayment(280000, 0.055, 10);
+
+    expect(refi.totalMonths).toBe(120);
+    expect(refi.totalPayments).toBeCloseTo(payment * 120, -2);
+    expect(refi.yearlyBreakdown[9].endingBalance).toBe(0);
+  });
+});
+
+describe('capitalization on loss of partial financial hardship', () => {
+  const resident = makeInputs({
+    loans: {
+      totalBalance: 100000,
+      loans: [
+        { id: 'unsub', type: 'direct_unsub', balance: 100000, interestRate: 0.065, disbursementDate: '2019-08-15', outstandingInterest: 0 },
+      ],
+    },
+    personal: { pslfEligibleEmployer: false },
+  });
+
+  it('capitalizes residency interest when attending income ends the hardship', () => {
+    const ibr = compareAllStrategies(resident).find(r => r.strategyName === 'IBR_NEW')!;
+    const capitalizedYears = ibr.yearlyBreakdown.filter(y => y.capitalizedInterest > 0);
+
+    // The first attending tax return is used at the recertification a year later
+    expect(capitalizedYears.map(y => y.year)).toEqual([5]);
+    expect(ibr.yearlyBreakdown[3].endingInterest).toBeGreaterThan(0);
+    expect(ibr.yearlyBreakdown[4].capitalizedInterest).toBe(ibr.yearlyBreakdown[3].endingInterest);
+  });
+
+  it('skips the capitalization when the trigger is turned off', () => {
+    const inputs = { ...resident, preferences: { ...resident.preferences, capitalizationTriggers: [] } };
+    const ibr = compareAllStrategies(inputs).find(r => r.strategyName === 'IBR_NEW')!;
+
+    expect(ibr.yearlyBreakdown.every(y => y.capitalizedInterest === 0)).toBe(true);
+  });
+});
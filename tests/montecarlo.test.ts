@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+
+import { createRandom, runMonteCarlo } from '../src/core/montecarlo.js';
+import { makeInputs } from './fixtures.js';
+
+// ============================================
+// Random Source Tests
+// ============================================
+
+describe('createRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+
+    for (let i = 0; i < 10; i++) {
+      expect(a()).toBe(b());
+    }
+  });
+
+  it('returns values in [0, 1)', () => {
+    const random = createRandom(7);
+
+    for (let i = 0; i < 1000; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+// ============================================
+// Simulation Tests
+// ============================================
+
+describe('runMonteCarlo', () => {
+  const result = runMonteCarlo(makeInputs(), { samples: 40, seed: 3 });
+
+  it('runs the requested number of samples', () => {
+    expect(result.samples).toBe(40);
+    expect(result.seed).toBe(3);
+    for (const strategy of result.strategies) {
+      expect(strategy.samples).toBe(40);
+    }
+  });
+
+  it('reproduces results for the same seed', () => {
+    expect(runMonteCarlo(makeInputs(), { samples: 40, seed: 3 })).toEqual(result);
+    expect(runMonteCarlo(makeInputs(), { samples: 40, seed: 4 })).not.toEqual(result);
+  });
+
+  it('labels refinance options by term, since the rate varies by path', () => {
+    const names = result.strategies.map(s => s.strategyName);
+
+    expect(names).toContain('Refinance (10yr)');
+    expect(names).toContain('Refinance (7yr)');
+    expect(names).toContain('PSLF');
+  });
+
+  it('reports ordered percentiles', () => {
+    for (const { percentiles } of result.strategies) {
+      expect(percentiles.p10).toBeLessThanOrEqual(percentiles.p25);
+      expect(percentiles.p25).toBeLessThanOrEqual(percentiles.p50);
+      expect(percentiles.p50).toBeLessThanOrEqual(percentiles.p75);
+      expect(percentiles.p75).toBeLessThanOrEqual(percentiles.p90);
+    }
+  });
+
+  it('gives each path exactly one best strategy', () => {
+    const total = result.strategies.reduce((sum, s) => sum + s.probabilityBest, 0);
+    expect(total).toBeCloseTo(1, 10);
+  });
+
+  it('sorts strategies by median NPV', () => {
+    for (let i = 1; i < result.strategies.length; i++) {
+      expect(result.strategies[i].percentiles.p50).toBeGreaterThanOrEqual(result.strategies[i - 1].percentiles.p50);
+    }
+  });
+
+  it('makes PSLF costlier and less often best as confidence falls', () => {
+    const options = { samples: 40, seed: 3, annualJobChangeRate: 0 };
+    const believer = runMonteCarlo(makeInputs({ preferences: { pslfConfidence: 1 } }), options).strategies.find(s => s.strategyName === 'PSLF')!;
+    const doubter = runMonteCarlo(makeInputs({ preferences: { pslfConfidence: 0.3 } }), options).strategies.find(s => s.strategyName === 'PSLF')!;
+
+    expect(believer.probabilityBest).toBe(1);
+    expect(doubter.meanNPV).toBeGreaterThan(believer.meanNPV);
+    expect(doubter.probabilityBest).toBeLessThan(believer.probabilityBest);
+  });
+});
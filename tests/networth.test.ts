@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+
+import { projectNetWorth, getInvestmentReturn } from '../src/core/networth.js';
+import { compareAllStrategies } from '../src/core/strategies.js';
+import { makeInputs } from './fixtures.js';
+
+import type { Preferences } from '../src/core/types.js';
+
+// ============================================
+// Net-Worth Projection Tests
+// ============================================
+
+describe('getInvestmentReturn', () => {
+  const preferences = makeInputs().preferences;
+
+  it('taxes the return of a taxable account', () => {
+    expect(getInvestmentReturn(preferences)).toBeCloseTo(0.07 * 0.85, 10);
+  });
+
+  it('grows retirement accounts tax-free at the configured return', () => {
+    expect(getInvestmentReturn({ ...preferences, investment: { account: 'retirement', annualReturn: 0.06 } })).toBe(0.06);
+  });
+});
+
+describe('projectNetWorth', () => {
+  const inputs = makeInputs();
+  const results = compareAllStrategies(inputs);
+  const find = (name: string) => results.find(r => r.strategyName === name)!;
+
+  it('reports net worth at years 10, 20 and 30 for every strategy', () => {
+    for (const result of results) {
+      expect(result.netWorth!.map(point => point.year)).toEqual([10, 20, 30]);
+      for (const point of result.netWorth!) {
+        expect(point.netWorth).toBe(point.investments - point.liabilities);
+      }
+    }
+  });
+
+  it('invests what lower payments free up', () => {
+    const pslf = find('PSLF');
+    const refi = results.find(r => r.refinance?.termYears === 10)!;
+
+    expect(pslf.netWorth![0].investments).toBeGreaterThan(refi.netWorth![0].investments);
+    expect(pslf.netWorth![2].netWorth).toBeGreaterThan(refi.netWorth![2].netWorth);
+  });
+
+  it('counts a tax bomb as a liability until it is paid from savings', () => {
+    const paye = find('PAYE');
+    const pslf = find('PSLF');
+    const [year10, year20] = paye.netWorth!;
+
+    // PAYE and PSLF pay the same for ten years; PAYE then owes tax on forgiveness at year 20
+    expect(paye.taxOnForgiveness).toBeGreaterThan(0);
+    expect(year10.investments).toBe(pslf.netWorth![0].investments);
+    expect(year10.liabilities).toBe(paye.taxOnForgiveness);
+    expect(year20.liabilities).toBe(0);
+  });
+
+  it('has no liabilities left once every strategy has finished', () => {
+    for (const result of results) {
+      expect(result.netWorth![2].liabilities).toBe(0);
+    }
+  });
+
+  it('grows faster in a retirement account', () => {
+    const retirement: Preferences = { ...inputs.preferences, investment: { account: 'retirement' } };
+    const taxable = projectNetWorth(results, inputs.preferences);
+    const sheltered = projectNetWorth(results, retirement);
+
+    expect(sheltered[0][2].netWorth).toBeGreaterThan(taxable[0][2].netWorth);
+  });
+
+  it('reports the years asked for', () => {
+    const [points] = projectNetWorth(results, inputs.preferences, [5, 15]);
+
+    expect(points.map(point => point.year)).toEqual([5, 15]);
+  });
+});
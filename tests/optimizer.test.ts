@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+
+import { optimizeStrategies, getParetoFront } from '../src/core/optimizer.js';
+import { compareAllStrategies } from '../src/core/strategies.js';
+import { createLoanPortfolio } from '../src/core/portfolio.js';
+import { makeInputs } from './fixtures.js';
+
+import type { OptimizedStrategy } from '../src/core/types.js';
+import type { InputOverrides } from './fixtures.js';
+
+const privateEmployer: InputOverrides = { personal: { pslfEligibleEmployer: false } };
+const married: InputOverrides = { personal: { spouseAgi: 120000, filingStatus: 'mfj', familySize: 2 } };
+
+function makeOption(name: string, npv: number, peakMonthlyPayment: number, risk: number): OptimizedStrategy {
+  return { name, planName: 'PAYE', exit: 'refinance', filingStatusByYear: [], npv, peakMonthlyPayment, risk };
+}
+
+// ============================================
+// Optimizer Tests
+// ============================================
+
+describe('getParetoFront', () => {
+  it('drops dominated and duplicate options, lowest NPV first', () => {
+    const front = getParetoFront([
+      makeOption('cheap but risky', 100, 3000, 50),
+      makeOption('dominated', 120, 3000, 60),
+      makeOption('low payment', 150, 1000, 0),
+      makeOption('safe', 110, 4000, 0),
+      makeOption('safe again', 110, 4000, 0),
+    ]);
+
+    expect(front.map(o => o.name)).toEqual(['cheap but risky', 'safe', 'low payment']);
+  });
+});
+
+describe('optimizeStrategies', () => {
+  it('returns only options no other option beats on every measure', () => {
+    const { options } = optimizeStrategies(makeInputs());
+
+    for (const a of options) {
+      for (const b of options) {
+        if (a === b) continue;
+        const dominates = a.npv <= b.npv && a.peakMonthlyPayment <= b.peakMonthlyPayment && a.risk <= b.risk;
+        expect(dominates).toBe(false);
+      }
+    }
+    for (let i = 1; i < options.length; i++) {
+      expect(options[i].npv).toBeGreaterThanOrEqual(options[i - 1].npv);
+    }
+  });
+
+  it('includes PSLF only for borrowers who qualify', () => {
+    const eligible = optimizeStrategies(makeInputs());
+    const ineligible = optimizeStrategies(makeInputs(privateEmployer));
+
+    expect(eligible.options[0].exit).toBe('pslf');
+    expect(eligible.options[0].risk).toBeGreaterThan(0);
+    expect(ineligible.options.some(o => o.exit === 'pslf')).toBe(false);
+  });
+
+  it('prices a refinance at repayment like the refinance strategy', () => {
+    const inputs = makeInputs(privateEmployer);
+    const option = optimizeStrategies(inputs).options.find(o => o.name === 'Refinance (10yr @ 5.5%)')!;
+    const strategy = compareAllStrategies(inputs).find(r => r.refinance?.termYears === 10)!;
+
+    expect(option.peakMonthlyPayment).toBe(strategy.monthlyPaymentRange.max);
+    expect(Math.abs(option.npv - strategy.npv)).toBeLessThan(100);
+  });
+
+  it('trades a longer refinance term for a lower peak payment', () => {
+    const refis = optimizeStrategies(makeInputs(privateEmployer)).options.filter(o => o.exit === 'refinance');
+
+    expect(refis.length).toBeGreaterThan(1);
+    for (let i = 1; i < refis.length; i++) {
+      expect(refis[i].peakMonthlyPayment).toBeLessThan(refis[i - 1].peakMonthlyPayment);
+    }
+  });
+
+  it('files separately in the years it lowers the cost of PSLF', () => {
+    const pslf = optimizeStrategies(makeInputs(married)).options.find(o => o.exit === 'pslf')!;
+
+    expect(pslf.filingStatusByYear).toContain('mfs');
+    expect(pslf.filingStatusByYear).toHaveLength(10);
+  });
+
+  it('searches exits after years on a plan and counts pruned branches', () => {
+    const result = optimizeStrategies(makeInputs(married), { plans: ['PAYE'] });
+    // Forgiveness and PSLF, then five refinance terms and four payoff lengths in each exit year
+    expect(result.evaluated).toBeGreaterThan(2);
+    expect(result.evaluated + result.pruned).toBe(2 + 11 * (5 + 4));
+    expect(result.options.every(o => o.planName === 'PAYE' || o.exitYear === 0)).toBe(true);
+  });
+
+  it('skips exits a riskless option already beats', () => {
+    const result = optimizeStrategies(makeInputs(privateEmployer));
+    const delayedRefis = result.options.filter(o => o.exit === 'refinance' && o.exitYear! > 0);
+
+    expect(result.pruned).toBeGreaterThan(0);
+    expect(delayedRefis).toHaveLength(0);
+  });
+
+  it('offers refinancing and payoff once when no IDR plan is open', () => {
+    const parentPlus = makeInputs({
+      loans: createLoanPortfolio([
+        { id: 'pp', type: 'parent_plus', balance: 120000, interestRate: 0.0754, disbursementDate: '2020-08-15', outstandingInterest: 0 },
+      ]),
+    });
+    const result = optimizeStrategies(parentPlus);
+
+    expect(result.evaluated + result.pruned).toBe(5 + 4);
+    expect(result.options.length).toBeGreaterThan(0);
+    expect(result.options.every(o => o.exit === 'refinance' || o.exit === 'payoff')).toBe(true);
+    expect(result.options.every(o => o.planName === undefined)).toBe(true);
+  });
+
+  it('runs a full search well under a second', () => {
+    const start = performance.now();
+    optimizeStrategies(makeInputs(married));
+
+    expect(performance.now() - start).toBeLessThan(1000);
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+
+import { isPhaseTriggered, validateStrategyPhases } from '../src/core/phases.js';
+import { calculateMultiPhaseStrategy, compareAllStrategies } from '../src/core/strategies.js';
+import { projectIncome } from '../src/core/calculations.js';
+import { createLoanPortfolio } from '../src/core/portfolio.js';
+import { makeInputs } from './fixtures.js';
+
+import type { Loan, MultiPhaseStrategy, UserInputs } from '../src/core/types.js';
+
+const residentLoans: Loan[] = [
+  { id: 'unsub-1', type: 'direct_unsub', balance: 180000, interestRate: 0.0654, disbursementDate: '2019-08-15', outstandingInterest: 0 },
+  { id: 'plus-1', type: 'direct_plus', balance: 70000, interestRate: 0.0754, disbursementDate: '2020-08-15', outstandingInterest: 0 },
+];
+
+function makeResident(pslfEligibleEmployer = false): UserInputs {
+  return makeInputs({ loans: createLoanPortfolio(residentLoans), personal: { pslfEligibleEmployer } });
+}
+
+function run(inputs: UserInputs, strategy: MultiPhaseStrategy) {
+  return calculateMultiPhaseStrategy(inputs, projectIncome(inputs.career, 30), strategy);
+}
+
+// ============================================
+// Trigger Tests
+// ============================================
+
+describe('isPhaseTriggered', () => {
+  const context = { month: 30, balance: 150000, stage: 'pgy3' as const, asOfDate: '2026-03-01' };
+
+  it('fires year triggers at the start of the year', () => {
+    expect(isPhaseTriggered({ type: 'year', year: 2 }, context)).toBe(true);
+    expect(isPhaseTriggered({ type: 'year', year: 3 }, context)).toBe(false);
+  });
+
+  it('fires stage triggers at the stage or any later one', () => {
+    expect(isPhaseTriggered({ type: 'stage', stage: 'pgy2' }, context)).toBe(true);
+    expect(isPhaseTriggered({ type: 'stage', stage: 'attending' }, context)).toBe(false);
+  });
+
+  it('fires balance triggers at or below the threshold', () => {
+    expect(isPhaseTriggered({ type: 'balance', atOrBelow: 150000 }, context)).toBe(true);
+    expect(isPhaseTriggered({ type: 'balance', atOrBelow: 100000 }, context)).toBe(false);
+  });
+
+  it('fires date triggers on or after the date', () => {
+    expect(isPhaseTriggered({ type: 'date', date: '2028-09-01' }, context)).toBe(true);
+    expect(isPhaseTriggered({ type: 'date', date: '2028-09-02' }, context)).toBe(false);
+  });
+});
+
+describe('validateStrategyPhases', () => {
+  it('rejects phases after a refinance', () => {
+    expect(() => validateStrategyPhases({
+      name: 'Bad',
+      phases: [
+        { refinance: { rate: 0.05, termYears: 10 } },
+        { plan: 'IBR_NEW', startsWhen: { type: 'year', year: 2 } },
+      ],
+    })).toThrow(/last phase/);
+  });
+
+  it('rejects later phases without a trigger', () => {
+    expect(() => validateStrategyPhases({
+      name: 'Bad',
+      phases: [{ plan: 'PAYE' }, { plan: 'IBR_NEW' }],
+    })).toThrow(/trigger/);
+  });
+
+  it('rejects phases with both or neither of a plan and refinance terms', () => {
+    expect(() => validateStrategyPhases({ name: 'Bad', phases: [{}] })).toThrow(/either/);
+    expect(() => validateStrategyPhases({
+      name: 'Bad',
+      phases: [{ plan: 'PAYE', refinance: { rate: 0.05, termYears: 10 } }],
+    })).toThrow(/either/);
+  });
+});
+
+// ============================================
+// Multi-Phase Simulation Tests
+// ============================================
+
+describe('calculateMultiPhaseStrategy', () => {
+  it('matches the single-plan strategy when there is one phase', () => {
+    const inputs = makeResident();
+    const single = run(inputs, { name: 'IBR only', phases: [{ plan: 'IBR_NEW' }] });
+    const ibr = compareAllStrategies(inputs).find(r => r.strategyName === 'IBR_NEW')!;
+
+    expect(single.monthlySchedule).toHaveLength(ibr.monthlySchedule.length);
+    expect(single.totalPayments).toBe(ibr.totalPayments);
+    expect(single.npv).toBe(ibr.npv);
+    expect(single.forgivenessAmount).toBe(ibr.forgivenessAmount);
+  });
+
+  it('refinances the grown balance once attending', () => {
+    const result = run(makeResident(), {
+      name: 'IBR then refinance',
+      phases: [
+        { plan: 'IBR_NEW' },
+        { refinance: { rate: 0.05, termYears: 10 }, startsWhen: { type: 'stage', stage: 'attending' } },
+      ],
+    });
+    const [ibr, refi] = result.phaseBreakdown!;
+
+    expect(result.phaseBreakdown).toHaveLength(2);
+    expect(ibr.months).toBe(36);
+    expect(ibr.endingBalance).toBeGreaterThan(250000);
+    expect(refi.startMonth).toBe(37);
+    expect(refi.startingBalance).toBe(ibr.endingBalance);
+    expect(refi.months).toBe(120);
+    expect(result.totalMonths).toBe(156);
+    expect(result.forgivenessAmount).toBe(0);
+    expect(result.yearlyBreakdown[result.yearlyBreakdown.length - 1].endingBalance).toBe(0);
+    expect(result.risks.some(r => r.includes('federal protections'))).toBe(true);
+  });
+
+  it('switches plans when PAYE closes, without capitalizing', () => {
+    const result = run(makeResident(), {
+      name: 'PAYE then IBR',
+      phases: [
+        { plan: 'PAYE' },
+        { plan: 'IBR_NEW', startsWhen: { type: 'date', date: '2028-07-01' } },
+      ],
+    });
+    const [paye, ibr] = result.phaseBreakdown!;
+    const switchMonth = result.monthlySchedule[ibr.startMonth - 1];
+
+    expect(ibr.startMonth).toBe(29);
+    expect(paye.months).toBe(28);
+    expect(switchMonth.capitalizedInterest).toBe(0);
+    expect(switchMonth.qualifyingPayments).toBe(29);
+  });
+
+  it('capitalizes outstanding interest when leaving IBR', () => {
+    const result = run(makeResident(), {
+      name: 'IBR then RAP',
+      phases: [
+        { plan: 'IBR_NEW' },
+        { plan: 'RAP', startsWhen: { type: 'year', year: 2 } },
+      ],
+    });
+    const [, rap] = result.phaseBreakdown!;
+
+    expect(result.monthlySchedule[rap.startMonth - 1].capitalizedInterest).toBeGreaterThan(0);
+  });
+
+  it('ends at tax-free PSLF forgiveness when pursued', () => {
+    const result = run(makeResident(true), {
+      name: 'IBR then RAP for PSLF',
+      pursuePSLF: true,
+      phases: [
+        { plan: 'IBR_NEW' },
+        { plan: 'RAP', startsWhen: { type: 'year', year: 4 } },
+      ],
+    });
+
+    expect(result.totalMonths).toBe(120);
+    expect(result.forgivenessAmount).toBeGreaterThan(0);
+    expect(result.taxOnForgiveness).toBe(0);
+    expect(result.phaseBreakdown!.map(p => p.months)).toEqual([48, 72]);
+  });
+
+  it('switches phases when the balance falls to a threshold', () => {
+    const inputs = makeResident();
+    inputs.career = { specialty: 'orthopedic_surgery', currentStage: 'attending', trainingYearsRemaining: 0 };
+    const result = run(inputs, {
+      name: 'IBR then refinance the rest',
+      phases: [
+        { plan: 'IBR_NEW' },
+        { refinance: { rate: 0.05, termYears: 5 }, startsWhen: { type: 'balance', atOrBelow: 150000 } },
+      ],
+    });
+    const refi = result.phaseBreakdown![1];
+
+    expect(refi.startingBalance).toBeLessThanOrEqual(150000);
+    expect(result.monthlySchedule[refi.startMonth - 2].endingBalance).toBeLessThanOrEqual(150000);
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+
+import { IDR_PLANS } from '../src/core/constants.js';
+
+import {
+  getPortfolioLoans,
+  summarizeLoans,
+  createLoanPortfolio,
+  allocatePayment,
+} from '../src/core/portfolio.js';
+
+import { projectPortfolio } from '../src/core/calculations.js';
+
+import {
+  compareAllStrategies,
+  generateRecommendation,
+} from '../src/core/strategies.js';
+import { makeInputs } from './fixtures.js';
+
+import type { Loan } from '../src/core/types.js';
+
+const residentLoans: Loan[] = [
+  { id: 'unsub-1', type: 'direct_unsub', balance: 40000, interestRate: 0.0528, disbursementDate: '2020-08-15', outstandingInterest: 1500 },
+  { id: 'unsub-2', type: 'direct_unsub', balance: 42000, interestRate: 0.0654, disbursementDate: '2021-08-15', outstandingInterest: 2000 },
+  { id: 'plus-1', type: 'direct_plus', balance: 60000, interestRate: 0.0754, disbursementDate: '2022-08-15', outstandingInterest: 3000 },
+  { id: 'ffel-1', type: 'ffel', balance: 20000, interestRate: 0.068, disbursementDate: '2009-09-01', outstandingInterest: 0 },
+];
+
+// ============================================
+// Portfolio Summary Tests
+// ============================================
+
+describe('summarizeLoans', () => {
+  it('rolls up principal, interest and types', () => {
+    const summary = summarizeLoans(residentLoans);
+
+    expect(summary.principal).toBe(162000);
+    expect(summary.outstandingInterest).toBe(6500);
+    expect(summary.totalBalance).toBe(168500);
+    expect(summary.loanTypes).toEqual(['direct_unsub', 'direct_plus', 'ffel']);
+    expect(summary.loanCount).toBe(4);
+  });
+
+  it('weights the blended rate by amount owed', () => {
+    const summary = summarizeLoans([
+      { id: 'a', type: 'direct_unsub', balance: 100000, interestRate: 0.05, outstandingInterest: 0 },
+      { id: 'b', type: 'direct_plus', balance: 300000, interestRate: 0.07, outstandingInterest: 0 },
+    ]);
+
+    expect(summary.weightedInterestRate).toBeCloseTo(0.065, 6);
+  });
+});
+
+describe('getPortfolioLoans', () => {
+  it('synthesizes one loan for a blended portfolio', () => {
+    const loans = getPortfolioLoans({
+      totalBalance: 250000,
+      weightedInterestRate: 0.065,
+      loanTypes: ['direct_unsub'],
+      pslfQualifyingPayments: 0,
+      idrQualifyingPayments: 0,
+    });
+
+    expect(loans).toHaveLength(1);
+    expect(loans[0].balance).toBe(250000);
+    expect(loans[0].interestRate).toBe(0.065);
+  });
+
+  it('returns per-loan detail when present', () => {
+    const portfolio = createLoanPortfolio(residentLoans, 12, 12);
+
+    expect(getPortfolioLoans(portfolio)).toBe(residentLoans);
+    expect(portfolio.totalBalance).toBe(168500);
+    expect(portfolio.pslfQualifyingPayments).toBe(12);
+  });
+});
+
+// ============================================
+// Payment Allocation Tests
+// ============================================
+
+describe('allocatePayment', () => {
+  it('pays outstanding interest before principal', () => {
+    const loans = residentLoans.map(loan => ({ ...loan }));
+    const applied = allocatePayment(loans, 5000);
+
+    expect(applied).toBe(5000);
+    expect(loans.reduce((sum, l) => sum + l.outstandingInterest, 0)).toBe(1500);
+    expect(loans.reduce((sum, l) => sum + l.balance, 0)).toBe(162000);
+  });
+
+  it('applies principal to the highest-rate loan first', () => {
+    const loans = residentLoans.map(loan => ({ ...loan }));
+    allocatePayment(loans, 6500 + 10000);
+
+    expect(loans.find(l => l.id === 'plus-1')!.balance).toBe(50000);
+    expect(loans.find(l => l.id === 'unsub-1')!.balance).toBe(40000);
+  });
+
+  it('never applies more than is owed', () => {
+    const loans = residentLoans.map(loan => ({ ...loan }));
+    const applied = allocatePayment(loans, 500000);
+
+    expect(applied).toBe(168500);
+  });
+});
+
+// ============================================
+// Per-Loan Projection Tests
+// ============================================
+
+describe('projectPortfolio', () => {
+  it('tracks each loan and rolls up to yearly totals', () => {
+    const { yearlyBreakdown, loanBreakdown } = projectPortfolio(
+      residentLoans,
+      [12000, 12000, 12000],
+      IDR_PLANS['PAYE']
+    );
+
+    expect(yearlyBreakdown).toHaveLength(3);
+    expect(yearlyBreakdown[0].startingBalance).toBe(168500);
+    expect(loanBreakdown).toHaveLength(4);
+
+    const endingFromLoans = loanBreakdown.reduce((sum, l) => sum + l.endingBalance, 0);
+    expect(endingFromLoans).toBeCloseTo(yearlyBreakdown[2].endingBalance, -1);
+  });
+
+  it('pays down the highest-rate loan fastest', () => {
+    const { loanBreakdown } = projectPortfolio(
+      residentLoans,
+      [40000, 40000],
+      IDR_PLANS['PAYE']
+    );
+
+    const plus = loanBreakdown.find(l => l.id === 'plus-1')!;
+    const unsub = loanBreakdown.find(l => l.id === 'unsub-1')!;
+    expect(plus.endingBalance).toBeLessThan(plus.startingBalance);
+    expect(unsub.endingBalance).toBe(40000);
+  });
+});
+
+// ============================================
+// Strategy Integration Tests
+// ============================================
+
+describe('strategies with per-loan portfolios', () => {
+  const inputs = makeInputs({ loans: createLoanPortfolio(residentLoans) });
+
+  it('reports loan-level outcomes in every strategy', () => {
+    const results = compareAllStrategies(inputs);
+
+    for (const result of results) {
+      expect(result.loanBreakdown).toHaveLength(residentLoans.length);
+      expect(result.yearlyBreakdown[0].startingBalance).toBe(168500);
+    }
+  });
+
+  it('refinances the full amount owed including unpaid interest', () => {
+    const results = compareAllStrategies(inputs);
+    const refi = results.find(r => r.strategyName.startsWith('Refinance (10yr'))!;
+
+    expect(refi.yearlyBreakdown[0].startingBalance).toBe(168500);
+    expect(refi.loanBreakdown.every(l => l.endingBalance === 0)).toBe(true);
+  });
+
+  it('calls out loans above the refinance rate', () => {
+    const results = compareAllStrategies(inputs);
+    const recommendation = generateRecommendation(inputs, results);
+
+    expect(recommendation.reasoning.some(r => r.includes('3 of your 4 loans'))).toBe(true);
+  });
+});
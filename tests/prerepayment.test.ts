@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  getGraduationDate,
+  getPreRepaymentPhase,
+  withPreRepayment,
+} from '../src/core/prerepayment.js';
+
+import { runLedger } from '../src/core/ledger.js';
+import { projectIncome, advanceCareer } from '../src/core/calculations.js';
+import { compareAllStrategies } from '../src/core/strategies.js';
+import { createLoanPortfolio } from '../src/core/portfolio.js';
+import { makeInputs } from './fixtures.js';
+
+import type { Loan, UserInputs } from '../src/core/types.js';
+
+const studentLoans: Loan[] = [
+  { id: 'unsub-1', type: 'direct_unsub', balance: 200000, interestRate: 0.06, disbursementDate: '2022-08-15', outstandingInterest: 15000 },
+  { id: 'sub-1', type: 'direct_sub', balance: 20000, interestRate: 0.05, disbursementDate: '2022-08-15', outstandingInterest: 0 },
+];
+
+function makeStudent(asOfDate = '2026-03-01'): UserInputs {
+  return makeInputs({
+    loans: createLoanPortfolio(studentLoans),
+    personal: { agi: 0 },
+    career: { currentStage: 'ms4' },
+    preferences: { asOfDate },
+  });
+}
+
+// ============================================
+// Phase Timing Tests
+// ============================================
+
+describe('getPreRepaymentPhase', () => {
+  it('covers the rest of school plus a six-month grace period', () => {
+    const phase = getPreRepaymentPhase(makeStudent());
+
+    expect(phase.graduationDate).toBe('2026-05-31');
+    expect(phase.inSchoolMonths).toBe(3);
+    expect(phase.graceMonths).toBe(6);
+    expect(phase.months).toBe(9);
+    expect(phase.repaymentStartDate).toBe('2026-12-01');
+  });
+
+  it('counts only the grace remaining after graduation', () => {
+    const inputs = makeStudent('2026-08-15');
+    inputs.career.graduationDate = '2026-05-31';
+    const phase = getPreRepaymentPhase(inputs);
+
+    expect(phase.inSchoolMonths).toBe(0);
+    expect(phase.graceMonths).toBe(4);
+  });
+
+  it('defaults to next spring for students in the fall', () => {
+    expect(getGraduationDate(makeStudent('2026-10-01'))).toBe('2027-05-31');
+  });
+
+  it('is empty for residents', () => {
+    const inputs = makeStudent();
+    inputs.career.currentStage = 'pgy1';
+
+    expect(getGraduationDate(inputs)).toBeUndefined();
+    expect(getPreRepaymentPhase(inputs).months).toBe(0);
+  });
+});
+
+// ============================================
+// Deferment Accrual Tests
+// ============================================
+
+describe('withPreRepayment', () => {
+  const phase = getPreRepaymentPhase(makeStudent());
+  const result = runLedger(studentLoans, 10, withPreRepayment(phase, () => ({ payment: 100 })));
+
+  it('accrues interest only on unsubsidized loans before repayment', () => {
+    const inSchool = result.monthlySchedule[0];
+
+    expect(inSchool.paymentMade).toBe(0);
+    expect(inSchool.qualifying).toBe(false);
+    expect(inSchool.interestAccrued).toBeCloseTo(200000 * 0.005, 6);
+  });
+
+  it('capitalizes interest when repayment starts', () => {
+    const firstPayment = result.monthlySchedule[9];
+
+    expect(firstPayment.capitalizedInterest).toBeCloseTo(15000 + 9 * 1000, 6);
+    expect(firstPayment.paymentMade).toBe(100);
+    expect(result.qualifyingPayments).toBe(1);
+  });
+
+  it('skips the capitalization when the grace trigger is off', () => {
+    const uncapitalized = runLedger(
+      studentLoans,
+      10,
+      withPreRepayment(phase, () => ({ payment: 100 })),
+      { capitalizationTriggers: ['pfh_loss'] }
+    );
+
+    expect(uncapitalized.monthlySchedule[9].capitalizedInterest).toBe(0);
+  });
+});
+
+// ============================================
+// Student Strategy Tests
+// ============================================
+
+describe('strategies for MS4 students', () => {
+  const results = compareAllStrategies(makeStudent());
+
+  it('starts the PSLF clock after the grace period', () => {
+    const pslf = results.find(r => r.strategyName === 'PSLF')!;
+
+    expect(pslf.totalMonths).toBe(9 + 120);
+    expect(pslf.monthlySchedule.slice(0, 9).every(m => m.paymentMade === 0 && !m.qualifying)).toBe(true);
+    expect(pslf.monthlySchedule[pslf.monthlySchedule.length - 1].qualifyingPayments).toBe(120);
+  });
+
+  it('refinances the balance grown through school and grace', () => {
+    const refi = results.find(r => r.strategyName.startsWith('Refinance (10yr'))!;
+
+    expect(refi.totalMonths).toBe(9 + 120);
+    expect(refi.monthlySchedule[9].startingBalance).toBeCloseTo(235000 + 9 * 1000, 0);
+  });
+
+  it('projects a year of school before residency income', () => {
+    const projection = projectIncome(makeStudent().career, 5);
+
+    expect(projection.map(p => p.stage)).toEqual(['ms4', 'pgy1', 'pgy2', 'pgy3', 'attending']);
+    expect(projection[0].income).toBe(0);
+  });
+
+  it('advances students into residency', () => {
+    expect(advanceCareer(makeStudent().career, 1)).toMatchObject({ currentStage: 'pgy1', trainingYearsRemaining: 3 });
+    expect(advanceCareer(makeStudent().career, 4)).toMatchObject({ currentStage: 'attending', trainingYearsRemaining: 0 });
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+
+import { createRecertificationTracker, getIncomeForTaxYear } from '../src/core/recertification.js';
+import { projectIncome } from '../src/core/calculations.js';
+import { compareAllStrategies } from '../src/core/strategies.js';
+import { createLoanPortfolio } from '../src/core/portfolio.js';
+import { makeInputs } from './fixtures.js';
+
+import type { RecertificationSettings, UserInputs } from '../src/core/types.js';
+
+function withRecertification(recertification?: RecertificationSettings): UserInputs {
+  return makeInputs({
+    loans: createLoanPortfolio([
+      { id: 'unsub-1', type: 'direct_unsub', balance: 250000, interestRate: 0.065, disbursementDate: '2019-08-15', outstandingInterest: 0 },
+    ]),
+    personal: { agi: 68000 },
+    career: { currentStage: 'pgy3', trainingYearsRemaining: 1 },
+    preferences: { recertification },
+  });
+}
+
+// ============================================
+// Tax Year Income Tests
+// ============================================
+
+describe('getIncomeForTaxYear', () => {
+  const inputs = withRecertification();
+  const projection = projectIncome(inputs.career, 5);
+
+  it('uses the entered AGI for returns already filed', () => {
+    expect(getIncomeForTaxYear(inputs, projection, 2025)).toBe(68000);
+    expect(getIncomeForTaxYear(inputs, projection, 2024)).toBe(68000);
+  });
+
+  it('uses projected income for later years', () => {
+    expect(getIncomeForTaxYear(inputs, projection, 2026)).toBe(projection[0].income);
+    expect(getIncomeForTaxYear(inputs, projection, 2027)).toBe(projection[1].income);
+  });
+});
+
+// ============================================
+// Recertification Timing Tests
+// ============================================
+
+describe('createRecertificationTracker', () => {
+  it('certifies on last year\'s return and recertifies on the anniversary', () => {
+    const inputs = withRecertification();
+    const projection = projectIncome(inputs.career, 5);
+    const recertify = createRecertificationTracker(inputs, projection, '2026-03-01');
+
+    expect(recertify(0, 0)).toEqual({ agi: 68000, agiTaxYear: 2025, recertified: true });
+    expect(recertify(11, 0)).toMatchObject({ agiTaxYear: 2025, recertified: false });
+    expect(recertify(12, 1)).toEqual({ agi: projection[0].income, agiTaxYear: 2026, recertified: true });
+  });
+
+  it('recertifies in the chosen calendar month', () => {
+    const inputs = withRecertification({ month: 9 });
+    const recertify = createRecertificationTracker(inputs, projectIncome(inputs.career, 5), '2026-03-01');
+
+    recertify(0, 0);
+    expect(recertify(5, 0).recertified).toBe(false);
+    expect(recertify(6, 0)).toMatchObject({ agiTaxYear: 2025, recertified: true });
+  });
+
+  it('uses an older return when the lag is longer', () => {
+    const inputs = withRecertification({ taxYearLag: 2 });
+    const recertify = createRecertificationTracker(inputs, projectIncome(inputs.career, 5), '2026-03-01');
+
+    expect(recertify(0, 0).agiTaxYear).toBe(2024);
+  });
+
+  it('recertifies early on current income when it falls', () => {
+    const inputs = withRecertification();
+    inputs.personal.agi = 300000;
+    const projection = projectIncome(inputs.career, 5);
+
+    const early = createRecertificationTracker(inputs, projection, '2026-03-01');
+    early(0, 0);
+    expect(early(1, 0)).toEqual({ agi: projection[0].income, agiTaxYear: 2026, recertified: true });
+
+    inputs.preferences.recertification = { recertifyEarlyOnIncomeDrop: false };
+    const onSchedule = createRecertificationTracker(inputs, projection, '2026-03-01');
+    onSchedule(0, 0);
+    expect(onSchedule(1, 0).agi).toBe(300000);
+  });
+
+  it('delays recertifying when income rises', () => {
+    const inputs = withRecertification({ lateMonths: 3 });
+    const projection = projectIncome(inputs.career, 5);
+    const recertify = createRecertificationTracker(inputs, projection, '2026-03-01');
+
+    recertify(0, 0);
+    expect(recertify(12, 1).recertified).toBe(false);
+    expect(recertify(14, 1).agiTaxYear).toBe(2025);
+    expect(recertify(15, 1)).toMatchObject({ agiTaxYear: 2026, recertified: true });
+  });
+});
+
+// ============================================
+// Payment Timeline Tests
+// ============================================
+
+describe('IDR payments with recertification lag', () => {
+  it('keeps resident-based payments into the first attending year', () => {
+    const pslf = compareAllStrategies(withRecertification()).find(r => r.strategyName === 'PSLF')!;
+    const noLag = compareAllStrategies(withRecertification({ taxYearLag: 0 })).find(r => r.strategyName === 'PSLF')!;
+    const firstAttendingMonth = pslf.monthlySchedule[12];
+
+    expect(firstAttendingMonth.agiTaxYear).toBe(2026);
+    expect(firstAttendingMonth.scheduledPayment).toBeLessThan(1000);
+    expect(noLag.monthlySchedule[12].scheduledPayment).toBeGreaterThan(1500);
+    expect(pslf.monthlySchedule[24].agiTaxYear).toBe(2027);
+    expect(pslf.npv).toBeLessThan(noLag.npv);
+  });
+});
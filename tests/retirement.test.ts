@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  getContributionLimit,
+  getPreTaxContribution,
+  projectRetirementContributions,
+  getRetirementBalance,
+} from '../src/core/retirement.js';
+import { projectIncome } from '../src/core/calculations.js';
+import { compareAllStrategies, generateRecommendation } from '../src/core/strategies.js';
+import { makeInputs } from './fixtures.js';
+
+import type { UserInputs, RetirementContributions } from '../src/core/types.js';
+
+function contributing(retirementContributions: RetirementContributions): UserInputs {
+  return makeInputs({ personal: { retirementContributions } });
+}
+
+// ============================================
+// Contribution Limit Tests
+// ============================================
+
+describe('getContributionLimit', () => {
+  it('uses the family HSA limit for a household', () => {
+    expect(getContributionLimit('hsa', 1)).toBe(4150);
+    expect(getContributionLimit('hsa', 3)).toBe(8300);
+    expect(getContributionLimit('403b', 3)).toBe(23000);
+  });
+});
+
+describe('getPreTaxContribution', () => {
+  it('caps each account at its annual limit', () => {
+    const inputs = contributing({ '403b': 30000, hsa: 5000 });
+
+    expect(getPreTaxContribution(inputs, 250000)).toBe(23000 + 4150);
+  });
+
+  it('never contributes more than the year\'s income', () => {
+    const inputs = contributing({ '403b': 23000, '457b': 23000 });
+
+    expect(getPreTaxContribution(inputs, 30000)).toBe(30000);
+    expect(getPreTaxContribution(inputs, 0)).toBe(0);
+  });
+
+  it('phases out the IRA deduction for a 403(b) participant', () => {
+    const withPlan = contributing({ '403b': 10000, traditional_ira: 7000 });
+    const iraOnly = contributing({ traditional_ira: 7000 });
+
+    // MAGI of $72k is below the phase-out, $92k above it
+    expect(getPreTaxContribution(withPlan, 82000)).toBe(17000);
+    expect(getPreTaxContribution(withPlan, 102000)).toBe(10000);
+    expect(getPreTaxContribution(iraOnly, 250000)).toBe(7000);
+  });
+
+  it('phases out the IRA deduction under the return year\'s filing status and spouse income', () => {
+    const married = makeInputs({
+      personal: {
+        retirementContributions: { '403b': 10000, traditional_ira: 7000 },
+        filingStatus: 'mfj',
+        filingStatusByYear: ['mfj', 'mfs'],
+        spouseAgi: 20000,
+        spouseIncomeGrowth: 1,
+      },
+    });
+
+    // Joint MAGI is $92k in year 0 but $152k by year 2, when the spouse earns $80k
+    expect(getPreTaxContribution(married, 82000, 0)).toBe(17000);
+    expect(getPreTaxContribution(married, 82000, 1)).toBe(10000);
+    expect(getPreTaxContribution({ ...married, personal: { ...married.personal, filingStatusByYear: [] } }, 82000, 2)).toBe(10000);
+  });
+
+  it('contributes nothing without planned contributions', () => {
+    expect(getPreTaxContribution(makeInputs(), 250000)).toBe(0);
+  });
+});
+
+describe('projectRetirementContributions', () => {
+  it('projects contributions for every year of income', () => {
+    const inputs = contributing({ '403b': 23000 });
+    const projection = projectIncome(inputs.career, 30);
+    const contributions = projectRetirementContributions(inputs, projection);
+
+    expect(contributions).toHaveLength(30);
+    expect(contributions.every(amount => amount === 23000)).toBe(true);
+  });
+});
+
+describe('getRetirementBalance', () => {
+  it('grows year-end contributions at the investment return', () => {
+    const preferences = { ...makeInputs().preferences, investment: { annualReturn: 0.10 } };
+
+    expect(getRetirementBalance([1000, 1000], preferences)).toBe(2100);
+  });
+});
+
+// ============================================
+// Strategy Impact Tests
+// ============================================
+
+describe('retirement contributions in compareAllStrategies', () => {
+  const contributions = { '403b': 23000, '457b': 23000 };
+  const results = compareAllStrategies(contributing(contributions));
+  const pslf = results.find(r => r.strategyName === 'PSLF')!;
+  const refi = results.find(r => r.refinance)!;
+
+  it('lowers PSLF payments and reports the reduction', () => {
+    const without = compareAllStrategies(makeInputs()).find(r => r.strategyName === 'PSLF')!;
+
+    expect(pslf.totalPayments).toBeLessThan(without.totalPayments);
+    expect(pslf.retirement!.paymentReduction).toBe(without.totalPayments - pslf.totalPayments);
+  });
+
+  it('reports the retirement money built over the repayment years', () => {
+    expect(pslf.retirement!.contributions).toBe(46000 * 10);
+    expect(pslf.retirement!.retirementBalance).toBeGreaterThan(pslf.retirement!.contributions);
+  });
+
+  it('does not change refinance payments', () => {
+    expect(refi.retirement!.paymentReduction).toBe(0);
+  });
+
+  it('explains the reduction in the recommendation', () => {
+    const recommendation = generateRecommendation(contributing(contributions), results);
+
+    expect(recommendation.reasoning.some(r => r.startsWith('Pre-tax retirement contributions lower your PSLF payments'))).toBe(true);
+  });
+
+  it('leaves results alone without contributions', () => {
+    expect(compareAllStrategies(makeInputs()).every(r => r.retirement === undefined)).toBe(true);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+
+import { runSensitivityAnalysis } from '../src/core/sensitivity.js';
+import { compareAllStrategies } from '../src/core/strategies.js';
+import { createLoanPortfolio } from '../src/core/portfolio.js';
+import { makeInputs } from './fixtures.js';
+
+// ============================================
+// Sensitivity Analysis Tests
+// ============================================
+
+describe('runSensitivityAnalysis', () => {
+  const inputs = makeInputs({ personal: { pslfEligibleEmployer: false } });
+  const report = runSensitivityAnalysis(inputs);
+  const find = (input: string) => report.results.find(r => r.input === input)!;
+
+  it('reports the baseline winner', () => {
+    const best = compareAllStrategies(inputs)[0];
+
+    expect(report.baseline.strategyName).toBe(best.strategyName);
+    expect(report.baseline.npv).toBe(best.riskAdjustedNpv);
+  });
+
+  it('varies every input', () => {
+    expect(report.results.map(r => r.input).sort()).toEqual([
+      'debt', 'discountRate', 'familySize', 'interestRate', 'refiRate', 'salary', 'state', 'trainingYears',
+    ]);
+  });
+
+  it('sorts inputs by swing for a tornado chart', () => {
+    for (let i = 1; i < report.results.length; i++) {
+      expect(report.results[i].swing).toBeLessThanOrEqual(report.results[i - 1].swing);
+    }
+  });
+
+  it('moves NPV with the debt balance', () => {
+    const debt = find('debt');
+
+    expect(debt.low.label).toBe('-20%');
+    expect(debt.low.npvChange).toBeLessThan(0);
+    expect(debt.high.npvChange).toBeGreaterThan(0);
+    expect(debt.swing).toBe(Math.abs(debt.high.npv - debt.low.npv));
+  });
+
+  it('records when the winning strategy changes', () => {
+    // Refinancing wins the baseline; dearer refinance rates hand it to an IDR plan
+    const refiRate = find('refiRate');
+
+    expect(report.baseline.strategyName).toContain('Refinance');
+    expect(refiRate.low.winnerChanged).toBe(false);
+    expect(refiRate.high.winnerChanged).toBe(true);
+    expect(refiRate.high.strategyName).not.toContain('Refinance');
+  });
+
+  it('does not count a refinance at a new rate as a different winner', () => {
+    const refiRate = find('refiRate');
+
+    expect(refiRate.low.strategyName).not.toBe(report.baseline.strategyName);
+    expect(refiRate.low.winnerChanged).toBe(false);
+  });
+
+  it('compares the least- and most-taxing states other than the borrower\'s own', () => {
+    const stateFor = (state: string) => runSensitivityAnalysis(makeInputs({ personal: { pslfEligibleEmployer: false, state } }))
+      .results.find(r => r.input === 'state')!;
+    const californian = stateFor('CA');
+
+    // Oregon taxes an internist's salary more than California does
+    expect(californian.low.label).toBe('AK');
+    expect(californian.high.label).toBe('OR');
+    expect(stateFor('OR').high.label).not.toBe('OR');
+    expect(stateFor('AK').low.label).not.toBe('AK');
+  });
+
+  it('accepts custom ranges', () => {
+    const custom = runSensitivityAnalysis(inputs, {
+      debt: { low: -0.5, high: 0.5 },
+      state: { low: 'FL', high: 'NJ' },
+    });
+    const debt = custom.results.find(r => r.input === 'debt')!;
+    const state = custom.results.find(r => r.input === 'state')!;
+
+    expect(debt.low.label).toBe('-50%');
+    expect(debt.swing).toBeGreaterThan(find('debt').swing);
+    expect(state.low.label).toBe('FL');
+    expect(state.high.label).toBe('NJ');
+  });
+
+  it('scales individual loans in a loan-level portfolio', () => {
+    const loanInputs = makeInputs({ personal: { pslfEligibleEmployer: false } });
+    loanInputs.loans = createLoanPortfolio([
+      { id: 'unsub-1', type: 'direct_unsub', balance: 180000, interestRate: 0.07, outstandingInterest: 0 },
+      { id: 'plus-1', type: 'direct_plus', balance: 100000, interestRate: 0.08, outstandingInterest: 0 },
+    ]);
+    const debt = runSensitivityAnalysis(loanInputs).results.find(r => r.input === 'debt')!;
+
+    expect(debt.low.npvChange).toBeLessThan(0);
+    expect(debt.high.npvChange).toBeGreaterThan(0);
+  });
+});
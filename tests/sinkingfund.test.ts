@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+
+import { getSinkingFundContribution, planSinkingFund } from '../src/core/sinkingfund.js';
+import { compareAllStrategies, generateRecommendation } from '../src/core/strategies.js';
+import { makeInputs } from './fixtures.js';
+
+// ============================================
+// Sinking Fund Tests
+// ============================================
+
+describe('getSinkingFundContribution', () => {
+  it('spreads the target evenly with no return', () => {
+    expect(getSinkingFundContribution(12000, 12, 0)).toBe(1000);
+  });
+
+  it('needs less each month when the fund earns a return', () => {
+    const contribution = getSinkingFundContribution(100000, 240, 0.05);
+
+    expect(contribution).toBeLessThan(100000 / 240);
+    expect(contribution).toBe(247);
+  });
+
+  it('needs nothing without a tax to cover', () => {
+    expect(getSinkingFundContribution(0, 240, 0.05)).toBe(0);
+  });
+});
+
+describe('planSinkingFund', () => {
+  const inputs = makeInputs();
+  const results = compareAllStrategies(inputs);
+  const paye = results.find(r => r.strategyName === 'PAYE')!;
+  const plan = planSinkingFund(paye, inputs.preferences, 0.05)!;
+
+  it('covers the tax by the forgiveness year', () => {
+    const last = plan.years[plan.years.length - 1];
+
+    expect(plan.years).toHaveLength(Math.ceil(paye.totalMonths / 12));
+    expect(last.fundBalance).toBeGreaterThanOrEqual(paye.taxOnForgiveness);
+    // Rounding the contribution up to a whole dollar leaves a small surplus
+    expect(last.fundBalance - paye.taxOnForgiveness).toBeLessThan(500);
+  });
+
+  it('tracks the fund against the liability year by year', () => {
+    for (let i = 1; i < plan.years.length; i++) {
+      expect(plan.years[i].fundBalance).toBeGreaterThan(plan.years[i - 1].fundBalance);
+      expect(plan.years[i].liability).toBe(paye.taxOnForgiveness);
+    }
+  });
+
+  it('adds contributions to the cash flow', () => {
+    for (const year of plan.years) {
+      expect(year.contributions).toBe(plan.monthlyContribution * 12);
+      expect(year.cashOutflow).toBe(year.loanPayments + year.contributions);
+    }
+  });
+
+  it('defaults to the after-tax investment return', () => {
+    expect(planSinkingFund(paye, inputs.preferences)!.afterTaxReturn).toBeCloseTo(0.07 * 0.85, 10);
+  });
+
+  it('has nothing to save for without a tax on forgiveness', () => {
+    const pslf = results.find(r => r.strategyName === 'PSLF')!;
+
+    expect(planSinkingFund(pslf, inputs.preferences)).toBeUndefined();
+    expect(pslf.sinkingFund).toBeUndefined();
+    expect(paye.sinkingFund!.monthlyContribution).toBeGreaterThan(0);
+  });
+});
+
+describe('tax bomb warning', () => {
+  it('says how much to set aside each month', () => {
+    const inputs = makeInputs({ loans: { totalBalance: 500000 } });
+    const results = compareAllStrategies(inputs);
+    const paye = results.find(r => r.strategyName === 'PAYE')!;
+    const recommendation = generateRecommendation(inputs, [paye, ...results.filter(r => r !== paye)]);
+
+    expect(paye.taxOnForgiveness).toBeGreaterThan(50000);
+    expect(recommendation.reasoning).toContain(
+      `Warning: $${paye.taxOnForgiveness.toLocaleString('en-US')} tax liability at forgiveness - set aside ` +
+      `$${paye.sinkingFund!.monthlyContribution.toLocaleString('en-US')}/month (at 6.0% after tax) to cover it`
+    );
+  });
+});
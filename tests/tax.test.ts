@@ -0,0 +1,223 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  calculateFederalTax,
+  calculateFederalTaxes,
+  calculateFICA,
+  getChildTaxCredit,
+  getQualifyingChildren,
+  getStudentLoanInterestDeduction,
+  calculateStateTax,
+  getMarginalStateRate,
+  getSeparateReturnIncomes,
+  splitsCommunityIncome,
+} from '../src/core/tax.js';
+import { estimateTaxOnForgiveness } from '../src/core/calculations.js';
+
+// ============================================
+// Federal Tax Engine Tests
+// ============================================
+
+describe('calculateFederalTax', () => {
+  it('runs taxable income through the brackets', () => {
+    // 10% of 11,600 + 12% of 35,550 + 22% of 38,250
+    expect(calculateFederalTax(85400, 'single')).toBe(13841);
+  });
+
+  it('returns 0 with no taxable income', () => {
+    expect(calculateFederalTax(0, 'mfj')).toBe(0);
+  });
+});
+
+describe('calculateFederalTaxes', () => {
+  it('takes the standard deduction and adds FICA', () => {
+    const tax = calculateFederalTaxes({ filingStatus: 'single', wages: 100000 });
+
+    expect(tax.deduction).toBe(14600);
+    expect(tax.taxableIncome).toBe(85400);
+    expect(tax.incomeTax).toBe(13841);
+    expect(tax.fica).toBe(7650);
+    expect(tax.totalTax).toBe(21491);
+  });
+
+  it('itemizes when itemized deductions are larger', () => {
+    const tax = calculateFederalTaxes({ filingStatus: 'single', wages: 100000, itemizedDeductions: 20000 });
+
+    expect(tax.deduction).toBe(20000);
+  });
+
+  it('makes a separate filer itemize when the spouse does', () => {
+    const tax = calculateFederalTaxes({
+      filingStatus: 'mfs',
+      wages: 100000,
+      itemizedDeductions: 5000,
+      spouseItemizes: true,
+    });
+
+    expect(tax.deduction).toBe(5000);
+  });
+
+  it('takes pre-tax contributions and student loan interest out of AGI', () => {
+    const tax = calculateFederalTaxes({
+      filingStatus: 'single',
+      wages: 60000,
+      preTaxContributions: 10000,
+      studentLoanInterest: 3000,
+    });
+
+    expect(tax.studentLoanInterestDeduction).toBe(2500);
+    expect(tax.agi).toBe(47500);
+  });
+
+  it('charges no FICA on income that is not wages', () => {
+    const wages = calculateFederalTaxes({ filingStatus: 'single', wages: 100000 });
+    const forgiven = calculateFederalTaxes({ filingStatus: 'single', wages: 100000, otherIncome: 50000 });
+
+    expect(forgiven.fica).toBe(wages.fica);
+    expect(forgiven.incomeTax).toBeGreaterThan(wages.incomeTax);
+  });
+
+  it('subtracts the child tax credit', () => {
+    const noKids = calculateFederalTaxes({ filingStatus: 'mfj', wages: 150000 });
+    const twoKids = calculateFederalTaxes({ filingStatus: 'mfj', wages: 150000, qualifyingChildren: 2 });
+
+    expect(twoKids.childTaxCredit).toBe(4000);
+    expect(noKids.totalTax - twoKids.totalTax).toBe(4000);
+  });
+});
+
+describe('getStudentLoanInterestDeduction', () => {
+  it('caps the deduction at $2,500', () => {
+    expect(getStudentLoanInterestDeduction(10000, 50000, 'single')).toBe(2500);
+  });
+
+  it('phases out over the MAGI range', () => {
+    expect(getStudentLoanInterestDeduction(2500, 87500, 'single')).toBe(1250);
+    expect(getStudentLoanInterestDeduction(2500, 95000, 'single')).toBe(0);
+    expect(getStudentLoanInterestDeduction(2500, 170000, 'mfj')).toBeGreaterThan(0);
+  });
+
+  it('is not available when married filing separately', () => {
+    expect(getStudentLoanInterestDeduction(2500, 50000, 'mfs')).toBe(0);
+  });
+});
+
+describe('getChildTaxCredit', () => {
+  it('phases out $50 per $1,000 over the threshold', () => {
+    expect(getChildTaxCredit(2, 410000, 410000, 100000, 'mfj')).toBe(3500);
+  });
+
+  it('refunds part of the credit income tax does not absorb', () => {
+    // 15% of earned income over $2,500, below the $1,700 per-child cap
+    expect(getChildTaxCredit(2, 20000, 20000, 0, 'mfj')).toBe(2625);
+  });
+
+  it('counts children from family size', () => {
+    expect(getQualifyingChildren('single', 3)).toBe(2);
+    expect(getQualifyingChildren('mfj', 3)).toBe(1);
+    expect(getQualifyingChildren('mfs', 1)).toBe(0);
+  });
+});
+
+describe('calculateFICA', () => {
+  it('stops Social Security at the wage base', () => {
+    // 6.2% of 168,600 + 1.45% of 200,000
+    expect(calculateFICA(200000, 'single')).toBe(13353);
+  });
+
+  it('applies the wage base per earner and additional Medicare per return', () => {
+    // 2 × 6.2% of 168,600 + 1.45% of 400,000 + 0.9% of 150,000
+    expect(calculateFICA(200000, 'mfj', 200000)).toBe(28056);
+  });
+});
+
+// ============================================
+// State and Local Tax Tests
+// ============================================
+
+describe('calculateStateTax', () => {
+  it('runs income through the state brackets', () => {
+    const tax = calculateStateTax(100000, 'CA', 'single');
+
+    expect(tax).toBe(5842);
+    expect(tax).toBeLessThan(100000 * 0.133);
+  });
+
+  it('uses wider brackets for joint filers where the state has them', () => {
+    expect(calculateStateTax(200000, 'CA', 'mfj')).toBeCloseTo(2 * calculateStateTax(100000, 'CA', 'single'), -1);
+    expect(calculateStateTax(100000, 'PA', 'mfj')).toBe(calculateStateTax(100000, 'PA', 'single'));
+  });
+
+  it('charges nothing in states without an income tax', () => {
+    expect(calculateStateTax(300000, 'TX', 'single')).toBe(0);
+    expect(calculateStateTax(300000, 'NH', 'single')).toBe(0);
+  });
+
+  it('adds city tax for a locality', () => {
+    const state = calculateStateTax(100000, 'NY', 'single');
+    const city = calculateStateTax(100000, 'NY', 'single', 'NYC');
+
+    expect(city - state).toBeGreaterThan(3500);
+    expect(city - state).toBeLessThan(4000);
+  });
+
+  it('throws on an unknown state or a locality outside the state', () => {
+    expect(() => calculateStateTax(100000, 'XX', 'single')).toThrow('Unknown state code XX');
+    expect(() => calculateStateTax(100000, 'CA', 'single', 'NYC')).toThrow('Unknown locality NYC in CA');
+  });
+});
+
+describe('getMarginalStateRate', () => {
+  it('is the rate of the bracket the next dollars fall in', () => {
+    expect(getMarginalStateRate(300000, 'CA', 'single')).toBeCloseTo(0.093, 3);
+    expect(getMarginalStateRate(300000, 'TX', 'single')).toBe(0);
+  });
+});
+
+describe('estimateTaxOnForgiveness with state brackets', () => {
+  it('taxes forgiveness at the state brackets above the year\'s income', () => {
+    const ca = estimateTaxOnForgiveness(100000, 50000, 'CA', 'single');
+    const tx = estimateTaxOnForgiveness(100000, 50000, 'TX', 'single');
+
+    expect(ca - tx).toBeGreaterThan(8000);
+    expect(ca - tx).toBeLessThan(10000);
+  });
+
+  it('throws on an unknown state', () => {
+    expect(() => estimateTaxOnForgiveness(100000, 50000, 'XX', 'single')).toThrow();
+  });
+});
+
+// ============================================
+// Community Property Tests
+// ============================================
+
+describe('getSeparateReturnIncomes', () => {
+  it('splits combined income in half in a community-property state', () => {
+    expect(getSeparateReturnIncomes(70000, 230000, true)).toEqual({ borrower: 150000, spouse: 150000 });
+  });
+
+  it('keeps each spouse\'s own income elsewhere', () => {
+    expect(getSeparateReturnIncomes(70000, 230000, false)).toEqual({ borrower: 70000, spouse: 230000 });
+  });
+});
+
+describe('splitsCommunityIncome', () => {
+  const personal = {
+    agi: 70000,
+    spouseAgi: 230000,
+    filingStatus: 'mfs' as const,
+    familySize: 2,
+    state: 'CA',
+    pslfEligibleEmployer: true,
+  };
+
+  it('splits IDR income in community-property states', () => {
+    expect(splitsCommunityIncome(personal)).toBe(true);
+    expect(splitsCommunityIncome({ ...personal, state: 'NY' })).toBe(false);
+  });
+
+  it('uses own income with alternative documentation', () => {
+    expect(splitsCommunityIncome({ ...personal, alternativeDocumentation: true })).toBe(false);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+
+import { getOutcomeSpread, getUtilityCost, rankByUtility } from '../src/core/utility.js';
+import { compareAllStrategies, generateRecommendation } from '../src/core/strategies.js';
+import { RISK_AVERSION } from '../src/core/constants.js';
+import { makeInputs } from './fixtures.js';
+
+import type { UserInputs, RiskTolerance } from '../src/core/types.js';
+
+function inputsFor(riskTolerance: RiskTolerance): UserInputs {
+  return makeInputs({ preferences: { riskTolerance, pslfConfidence: 0.5 } });
+}
+
+// ============================================
+// Outcome Spread Tests
+// ============================================
+
+describe('getOutcomeSpread', () => {
+  const inputs = inputsFor('medium');
+  const results = compareAllStrategies(inputs);
+  const find = (name: string) => results.find(r => r.strategyName === name)!;
+
+  it('is zero for a refinance', () => {
+    const refi = results.find(r => r.refinance)!;
+    expect(getOutcomeSpread(refi, inputs.preferences)).toBe(0);
+  });
+
+  it('treats PSLF as a bet between forgiveness and the fallback', () => {
+    const pslf = find('PSLF');
+    const swing = pslf.pslfFallback!.npv - pslf.npv;
+
+    // At 50% confidence the standard deviation is half the swing
+    expect(getOutcomeSpread(pslf, inputs.preferences)).toBeCloseTo(swing / 2, -1);
+  });
+
+  it('counts the tax bomb on IDR forgiveness', () => {
+    const paye = find('PAYE');
+
+    expect(paye.taxOnForgiveness).toBeGreaterThan(0);
+    expect(getOutcomeSpread(paye, inputs.preferences)).toBeGreaterThan(0);
+    expect(getOutcomeSpread(paye, inputs.preferences)).toBeLessThan(paye.taxOnForgiveness);
+  });
+});
+
+// ============================================
+// Utility Ranking Tests
+// ============================================
+
+describe('rankByUtility', () => {
+  it('adds the spread penalty for the risk tolerance', () => {
+    const inputs = inputsFor('low');
+    const pslf = compareAllStrategies(inputs).find(r => r.strategyName === 'PSLF')!;
+
+    expect(getUtilityCost(pslf, inputs.preferences)).toBeCloseTo(
+      pslf.riskAdjustedNpv + RISK_AVERSION.low * getOutcomeSpread(pslf, inputs.preferences),
+      -1
+    );
+  });
+
+  it('ranks risk-tolerant borrowers near pure expected NPV', () => {
+    const inputs = inputsFor('high');
+    const results = compareAllStrategies(inputs);
+    const lowestNpv = Math.min(...results.map(r => r.riskAdjustedNpv));
+
+    expect(results[0].riskAdjustedNpv).toBe(lowestNpv);
+  });
+
+  it('moves risk-averse borrowers away from PSLF policy risk', () => {
+    expect(compareAllStrategies(inputsFor('high'))[0].strategyName).toBe('PSLF');
+    expect(compareAllStrategies(inputsFor('low'))[0].strategyName).toContain('Refinance');
+  });
+
+  it('does not change the input order', () => {
+    const inputs = inputsFor('low');
+    const results = compareAllStrategies(inputsFor('high'));
+    const names = results.map(r => r.strategyName);
+
+    rankByUtility(results, inputs.preferences);
+    expect(results.map(r => r.strategyName)).toEqual(names);
+  });
+});
+
+describe('generateRecommendation with risk tolerance', () => {
+  it('explains when risk aversion changed the answer', () => {
+    const inputs = inputsFor('low');
+    const { reasoning } = generateRecommendation(inputs, compareAllStrategies(inputs));
+
+    expect(reasoning.some(line => line.includes('low risk tolerance favors'))).toBe(true);
+  });
+
+  it('says nothing when the answer matches pure NPV', () => {
+    const inputs = inputsFor('high');
+    const { reasoning } = generateRecommendation(inputs, compareAllStrategies(inputs));
+
+    expect(reasoning.some(line => line.includes('risk tolerance favors'))).toBe(false);
+  });
+});
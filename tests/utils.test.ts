@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { sanitizeNumericValue } from '../src/core/utils.js';
+import { sanitizeNumericValue, addMonthsToDate, monthsBetweenDates } from '../src/core/utils.js';
 
 describe('sanitizeNumericValue', () => {
   it('parses plain numbers correctly', () => {
@@ -35,3 +35,22 @@ describe('sanitizeNumericValue', () => {
     expect(sanitizeNumericValue('-1,000')).toBe(-1000);
   });
 });
+
+describe('addMonthsToDate', () => {
+  it('keeps the day of month, clamping to the end of short months', () => {
+    expect(addMonthsToDate('2026-03-01', 9)).toBe('2026-12-01');
+    expect(addMonthsToDate('2026-01-31', 1)).toBe('2026-02-28');
+    expect(addMonthsToDate('2026-11-15', 3)).toBe('2027-02-15');
+  });
+});
+
+describe('monthsBetweenDates', () => {
+  it('counts partial months as full months', () => {
+    expect(monthsBetweenDates('2026-03-01', '2026-05-31')).toBe(3);
+    expect(monthsBetweenDates('2026-03-01', '2026-06-01')).toBe(3);
+  });
+
+  it('returns 0 when the end is not after the start', () => {
+    expect(monthsBetweenDates('2026-06-01', '2026-03-01')).toBe(0);
+  });
+});